@@ -1,3 +1,6 @@
 export { Application, send, Router } from "https://deno.land/x/oak/mod.ts";
+export type { RouterContext, RouterMiddleware } from "https://deno.land/x/oak/mod.ts";
 export { Client } from "https://deno.land/x/mysql/mod.ts";
-export * as bcrypt from "https://deno.land/x/bcrypt@v0.3.0/mod.ts";
\ No newline at end of file
+export * as bcrypt from "https://deno.land/x/bcrypt@v0.3.0/mod.ts";
+export { SmtpClient } from "https://deno.land/x/smtp/mod.ts";
+export { DatabaseSync } from "node:sqlite";
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { openStorage } from "./src/storage.ts";
+import { Migrator } from "./src/migrations.ts";
+
+/* Applies pending schema migrations, run with --dry-run to only list them */
+/* MariaDB migrations connect with the db.admin credentials in preferences.json when set, since the portal's own SQL user cannot change the schema */
+const settings = JSON.parse(await Deno.readTextFile('preferences.json'));
+const dryRun = Deno.args.includes('--dry-run');
+
+const storage = await openStorage({ ...settings.db, ...(settings.db.admin ?? {}) });
+const migrator = await Migrator.open(storage);
+
+try {
+    const status = await migrator.status();
+    for(const x of status.applied) console.log(`\x1b[2m[Applied]\x1b[0m ${ String(x.version).padStart(4, '0') }_${ x.name } (${ new Date(x.applied).toLocaleString() })`);
+
+    if(dryRun) {
+        for(const x of status.pending) console.log(`\x1b[1m[Pending]\x1b[0m ${ String(x.version).padStart(4, '0') }_${ x.name } (${ x.statements.length } statements)`);
+        console.log((status.pending.length > 0) ? `\n${ status.pending.length } migration(s) would be applied.` : '\nThe database is up to date.');
+    } else {
+        const grantee = (storage.dialect == 'mariadb' && typeof settings.db.username === 'string') ? { user: settings.db.username, database: settings.db.db } : undefined;
+        const applied = await migrator.migrate({ grantee: grantee });
+        for(const x of applied) console.log(`\x1b[2;32m[Complete]\x1b[0m ${ String(x.version).padStart(4, '0') }_${ x.name }`);
+        console.log((applied.length > 0) ? `\n${ applied.length } migration(s) applied.` : '\nThe database is up to date.');
+    }
+} finally {
+    await storage.close();
+}
\ No newline at end of file
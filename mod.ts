@@ -1,272 +1,1449 @@
 import { Application, Router } from "./deps.ts";
 import { API } from "./src/api.ts";
-import { InputError, InputType, screenInput, errorHandler } from "./src/security.ts";
-
-const settings = JSON.parse(await Deno.readTextFile('preferences.json'));
-const api = await API.connect(settings.db);
-
-const app = new Application();
-const router = new Router({ prefix: "/api" });
-
-// define routes
-router
-.post("/dashboard", async ctx => {
-    /* Sends dashboard by login credentials or sesison token */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        if(typeof data.get('session') === 'string') res.body = await api.getDashboard(screenInput(data.get('session'), InputType.Token))
-        else if(typeof data.get('username') === 'string' && typeof data.get('password') === 'string') res.body = await api.login(screenInput(data.get('username'), InputType.Username), screenInput(data.get('password'), InputType.Password))
-        else throw new InputError('No Credentials Provided', 'No session token or username-password combination were provided with the request.', '');
-    } catch (e) {
-        res = errorHandler(e);
-    }
+import { InputError, AuthorizationError, InputType, screenInput, screenDateRange, parseDate, errorHandler } from "./src/security.ts";
+import { splitFromForm } from "./src/splits.ts";
+import { parseCSV, parseOFX, parseRatesCSV, MaxStatementSize } from "./src/import.ts";
+import { ExportFormats, ledgerToCSV, ledgerToHTML } from "./src/export.ts";
+import { AttachmentStore } from "./src/attachments.ts";
+import { MailSettings, createMailer } from "./src/mailer.ts";
+import { WebhookSettings } from "./src/webhooks.ts";
+import { Storage, StorageSettings, openStorage } from "./src/storage.ts";
+import { Migrator } from "./src/migrations.ts";
+import { RateLimiter } from "./src/ratelimit.ts";
+import { authenticate, requireMember, rateLimit, accountsFromBody, groupFromParams, groupFromBody, groupFromIncentive, groupFromPurchase, groupFromIncentiveRecord, groupFromAttachment } from "./src/middleware.ts";
+
+export interface Settings {
+    port: number,
+    db: StorageSettings & { migrateOnStart?: boolean | null, admin?: { username: string, password: string } },
+    attachments: { directory: string, maxSize: number },
+    mail?: MailSettings,
+    webhooks?: WebhookSettings
+}
+
+/**
+ * Creates the web app without binding a port, so it can be served by mod.ts or driven through app.handle in tests
+ * @param settings Settings read from preferences.json
+ * @returns The app, the API and database it uses, the scheduled jobs to run periodically, the webhook sender to run every 30 seconds and the live update cleanup to run every minute
+ */
+export async function createApp(settings: Settings): Promise<{ app: Application, api: API, storage: Storage, runScheduledJobs: () => Promise<void>, deliverWebhooks: () => Promise<void>, closeStaleStreams: () => Promise<void> }> {
+    const storage = await openStorage(settings.db);
+    const attachments = await AttachmentStore.open(settings.attachments);
+    const mailer = createMailer(settings.mail);
+
+    // migrate on startup if enabled (the default for SQLite), otherwise refuse to start on an outdated schema
+    const migrator = await Migrator.open(storage);
+    if(settings.db.migrateOnStart ?? storage.dialect == 'sqlite') {
+        for(const migration of await migrator.migrate()) console.log(`Applied migration ${ String(migration.version).padStart(4, '0') }_${ migration.name }`);
+    } else await migrator.assertCurrent();
+
+    const api = await API.connect(storage, attachments, mailer, settings.webhooks);
 
-    ctx.response.body = JSON.stringify(res);
-})
-.post("/user/exists", async ctx => {
-    /* Checks whether username or email already exist */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
+    const app = new Application();
+    const router = new Router({ prefix: "/api" });
 
-    try {
-        res.body = {
-            username: (typeof data.get('username') === 'string') ? await api.userExists(screenInput(data.get('username'), InputType.Username)) : null,
-            email: (typeof data.get('email') === 'string') ? await api.emailExists(screenInput(data.get('email'), InputType.Email)) : null
+    // authorization middleware
+    const auth = authenticate(api);
+    const streamAuth = authenticate(api, true);
+    const groupMember = requireMember(api, groupFromParams);
+    const bodyGroupMember = requireMember(api, groupFromBody);
+    const incentiveGroupMember = requireMember(api, groupFromIncentive(api));
+    const purchaseGroupMember = requireMember(api, groupFromPurchase(api));
+    const recordGroupMember = requireMember(api, groupFromIncentiveRecord(api));
+    const attachmentGroupMember = requireMember(api, groupFromAttachment(api));
+
+    // rate limits for sign in and account lookups
+    const loginLimit = rateLimit(new RateLimiter(30, 60), new RateLimiter(10, 900), accountsFromBody);
+    const lookupLimit = rateLimit(new RateLimiter(10, 60), new RateLimiter(5, 60), accountsFromBody);
+    const resetLimit = rateLimit(new RateLimiter(5, 60), new RateLimiter(3, 3600), accountsFromBody);
+
+    // define routes
+    router
+    .post("/dashboard", loginLimit, async ctx => {
+        /* Sends dashboard by login credentials or sesison token */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('session') === 'string') res.body = await api.getDashboard(screenInput(data.get('session'), InputType.Token))
+            else if(typeof data.get('username') === 'string' && typeof data.get('password') === 'string') res.body = await api.login(screenInput(data.get('username'), InputType.Username), screenInput(data.get('password'), InputType.Password), { ip: ctx.request.ip, userAgent: ctx.request.headers.get('User-Agent') ?? '' })
+            else throw new InputError('No Credentials Provided', 'No session token or username-password combination were provided with the request.', '');
+        } catch (e) {
+            res = errorHandler(e, ctx);
         }
-    } catch (e) {
-        res = errorHandler(e);
-    }
 
-    ctx.response.body = JSON.stringify(res);
-})
-.put("/user", async ctx => {
-    /* Updates username, password or email */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: { username: false, password: false, email: false } };
-    
-    try {
-        if(typeof data.get('username') != 'string') throw new InputError('No User Specified', 'No username was specified to update properties.', '');
-        if(typeof data.get('password') != 'string') throw new InputError('No Password Specified', 'No password provided when updating user properties', data.get('username'));
-        if(!(await api.validateCreds(screenInput(data.get('username'), InputType.Username), screenInput(data.get('password'), InputType.Password)))) throw new InputError('Invalid Credentials', 'The username and password combination provided were not valid.', '');
-        
-        if(typeof data.get('newpassword') === 'string') {
-            await api.changePassword(screenInput(data.get('username'), InputType.Username), screenInput(data.get('password'), InputType.Password), screenInput(data.get('newpassword'), InputType.Password));
-            res.body.password = true;
-        }
-        if(typeof data.get('newemail') === 'string') {
-            if(await api.emailExists(screenInput(data.get('newemail'), InputType.Email))) throw new InputError('Email Address Taken', `The email address '${ data.get('newemail') }' is already in use by another user.`, data.get('newemail'));
-            await api.changeEmail(screenInput(data.get('username'), InputType.Username), screenInput(data.get('newemail'), InputType.Email));
-            res.body.email = true;
-        }
-        if(typeof data.get('newusername') === 'string') {
-            if(await api.userExists(screenInput(data.get('newusername'), InputType.Username))) throw new InputError('Username Taken', `The username '${ data.get('newusername') }' is already in use by another user.`, data.get('newemail'));
-            await api.changeUsername(screenInput(data.get('username'), InputType.Username), screenInput(data.get('newusername'), InputType.Username));
-            res.body.username = true;
-        }
-    } catch (e) {
-        res = errorHandler(e);
-    }
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/user/exists", lookupLimit, async ctx => {
+        /* Checks whether username or email already exist */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
 
-    ctx.response.body = JSON.stringify(res);
-})
-
-.post("/user", async ctx => {
-    /* Creates a new user account */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        if(typeof data.get('username') != 'string') throw new InputError('Username Not Specified', 'No username was specified to apply to the new user.', '');
-        if(typeof data.get('password') != 'string') throw new InputError('Password Not Specified', 'No password was specified to apply to the new user.', '');
-        if(typeof data.get('firstname') != 'string') throw new InputError('First Name Not Specified', 'No value was specified for the users first name.', '');
-        if(typeof data.get('lastname') != 'string') throw new InputError('Last Name Not Specified', 'No value was specified for the users last name.', '');
-        if(typeof data.get('email') != 'string') throw new InputError('Email Address Not Specified', 'No value was specified for the users email address.', '');
-
-        const uname = screenInput(data.get('username'), InputType.Username);
-        const password = screenInput(data.get('password'), InputType.Password);
-        const fname = screenInput(data.get('firstname'), InputType.Name);
-        const lname = screenInput(data.get('lastname'), InputType.Name);
-        const email = screenInput(data.get('email'), InputType.Email);
-
-        res.body = await api.createUser(uname, password, fname, lname, email);
-    } catch (e) {
-        res = errorHandler(e);
-    }
+        try {
+            res.body = {
+                username: (typeof data.get('username') === 'string') ? await api.userExists(screenInput(data.get('username'), InputType.Username)) : null,
+                email: (typeof data.get('email') === 'string') ? await api.emailExists(screenInput(data.get('email'), InputType.Email)) : null
+            }
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
 
-    ctx.response.body = JSON.stringify(res);
-})
-.post("/group", async ctx => {
-    /* Creates a new user group */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        const name = screenInput(data.get('name'), InputType.Header);
-        const description = screenInput(data.get('description'), InputType.String);
-        const status = (data.get('status') === 'locked') ? 'locked' : 'open';
-        const maxMembers = (typeof data.get('maxmembers') === 'string') ? Number(data.get('maxmembers')) : undefined;
-        const session = screenInput(data.get('session'), InputType.Token);
-        
-        // getting list of members
-        let i = 1;
-        let members = [];
-        while(typeof data.get(`m${i}`) === 'string') {
-            members.push(screenInput(data.get(`m${i}`), InputType.Username));
-            i++;
-        }
-
-        res.body = await api.createGroup(name, description, status, maxMembers, members)
-        .then(async () => {
-            return await api.getDashboard(session);
-        });
-    } catch (e) {
-        res = errorHandler(e);
-    }
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/user/password/forgot", resetLimit, async ctx => {
+        /* Emails a password reset link, always succeeds so email addresses cannot be probed */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
 
-    ctx.response.body = JSON.stringify(res);
-})
-.post("/group/:id", async ctx => {
-    /* Joins a group */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        const username = screenInput(data.get('username'), InputType.Username);
-        const session = await api.validateSession(username, screenInput(data.get('session'), InputType.Token));
-        const group = screenInput(ctx.params.id, InputType.Token);
-
-
-        res.body = await api.joinGroup(username, group)
-        .then(async () => {
-            return await api.getDashboard(session);
-        });
-    } catch (e) {
-        res = errorHandler(e);
-    }
+        try {
+            if(typeof data.get('email') != 'string') throw new InputError('Email Address Not Specified', 'No email address was provided to send a reset link to.', '');
 
-    ctx.response.body = JSON.stringify(res);
-})
-.put("/group/:id", async ctx => {
-    /* Locks or unlocks a group */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
+            await api.requestPasswordReset(screenInput(data.get('email'), InputType.Email));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/user/password/reset", async ctx => {
+        /* Sets a new password with the token from a password reset link, signing the user out everywhere */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
 
-    try {
-        const group = screenInput(ctx.params.id, InputType.Token);
+        try {
+            if(typeof data.get('token') != 'string') throw new InputError('No Token Provided', 'No password reset token was provided with the request.', '');
+            if(typeof data.get('password') != 'string') throw new InputError('Password Not Specified', 'No new password was provided with the request.', '');
 
-        if(data.get('state') === 'locked') {
-            res.body = await api.lockGroup(group)
-        } else {
-            res.body = await api.unlockGroup(group)
+            await api.resetPassword(screenInput(data.get('token'), InputType.Secret), screenInput(data.get('password'), InputType.Password));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
         }
-        res.body = true;
-    } catch (e) {
-        res = errorHandler(e);
-    }
 
-    ctx.response.body = JSON.stringify(res);
-}) // lock/unlock group
-.delete("/group/:id", async ctx => {
-    /* leave a group */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        const username = screenInput(data.get('username'), InputType.Username);
-        const session = screenInput(data.get('session'), InputType.Token);
-        const group = screenInput(ctx.params.id, InputType.Token);
-
-        res.body = await api.leaveGroup(username, group)
-        .then(async () => {
-            return await api.getDashboard(session);
-        })
-    } catch (e) {
-        res = errorHandler(e);
-    }
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/user/email/verify", async ctx => {
+        /* Verifies an email address with the token from a verification link */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
 
-    ctx.response.body = JSON.stringify(res);
-})
-.post("/purchase", async ctx => {
-    /* Adds a purchase */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        const username = screenInput(data.get('username'), InputType.Username);
-        const group = screenInput(data.get('group'), InputType.Token);
-        const amount = Number(data.get('amount'));
-        const store = (typeof data.get('store') === 'string') ? screenInput(data.get('store'), InputType.Header) : undefined;
-        const date = (typeof data.get('date') === 'string') ? new Date(data.get('date')) : new Date();
-        const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined;
-
-        await api.addPurchase(username, group, amount, store, date, notes);
-        res.body = true;
-    } catch (e) {
-        res = errorHandler(e);
-    }
+        try {
+            if(typeof data.get('token') != 'string') throw new InputError('No Token Provided', 'No verification token was provided with the request.', '');
+
+            await api.verifyEmail(screenInput(data.get('token'), InputType.Secret));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/user/email/verification", auth, async ctx => {
+        /* Sends a new email verification link */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(ctx.state.user.emailVerified) throw new InputError('Email Already Verified', 'Your email address has already been verified.', ctx.state.user.email);
+
+            await api.sendEmailVerification(ctx.state.user.uname);
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/logout", auth, async ctx => {
+        /* Signs out the current session, or every session if everywhere is set */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(data.get('everywhere') === 'true' || data.get('everywhere') === '1') await api.logoutEverywhere(ctx.state.user.uname);
+            else await api.logout(ctx.state.session);
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/sessions", auth, async ctx => {
+        /* Lists the devices the user is signed in on */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listSessions(ctx.state.user.uname, ctx.state.session);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/sessions/:id", auth, async ctx => {
+        /* Signs out one of the user's devices */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.revokeSession(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+            res.body = await api.listSessions(ctx.state.user.uname, ctx.state.session);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/user", async ctx => {
+        /* Updates username, password or email */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: { username: false, password: false, email: false } };
+
+        try {
+            if(typeof data.get('username') != 'string') throw new InputError('No User Specified', 'No username was specified to update properties.', '');
+            if(typeof data.get('password') != 'string') throw new InputError('No Password Specified', 'No password provided when updating user properties', data.get('username'));
+            if(!(await api.validateCreds(screenInput(data.get('username'), InputType.Username), screenInput(data.get('password'), InputType.Password)))) throw new InputError('Invalid Credentials', 'The username and password combination provided were not valid.', '');
+
+            if(typeof data.get('newpassword') === 'string') {
+                await api.changePassword(screenInput(data.get('username'), InputType.Username), screenInput(data.get('password'), InputType.Password), screenInput(data.get('newpassword'), InputType.Password));
+                res.body.password = true;
+            }
+            if(typeof data.get('newemail') === 'string') {
+                if(await api.emailExists(screenInput(data.get('newemail'), InputType.Email))) throw new InputError('Email Address Taken', `The email address '${ data.get('newemail') }' is already in use by another user.`, data.get('newemail'));
+                await api.changeEmail(screenInput(data.get('username'), InputType.Username), screenInput(data.get('newemail'), InputType.Email));
+                res.body.email = true;
+            }
+            if(typeof data.get('newusername') === 'string') {
+                if(await api.userExists(screenInput(data.get('newusername'), InputType.Username))) throw new InputError('Username Taken', `The username '${ data.get('newusername') }' is already in use by another user.`, data.get('newemail'));
+                await api.changeUsername(screenInput(data.get('username'), InputType.Username), screenInput(data.get('newusername'), InputType.Username));
+                res.body.username = true;
+            }
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+
+    .post("/user", async ctx => {
+        /* Creates a new user account */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('username') != 'string') throw new InputError('Username Not Specified', 'No username was specified to apply to the new user.', '');
+            if(typeof data.get('password') != 'string') throw new InputError('Password Not Specified', 'No password was specified to apply to the new user.', '');
+            if(typeof data.get('firstname') != 'string') throw new InputError('First Name Not Specified', 'No value was specified for the users first name.', '');
+            if(typeof data.get('lastname') != 'string') throw new InputError('Last Name Not Specified', 'No value was specified for the users last name.', '');
+            if(typeof data.get('email') != 'string') throw new InputError('Email Address Not Specified', 'No value was specified for the users email address.', '');
+
+            const uname = screenInput(data.get('username'), InputType.Username);
+            const password = screenInput(data.get('password'), InputType.Password);
+            const fname = screenInput(data.get('firstname'), InputType.Name);
+            const lname = screenInput(data.get('lastname'), InputType.Name);
+            const email = screenInput(data.get('email'), InputType.Email);
+
+            res.body = await api.createUser(uname, password, fname, lname, email, { ip: ctx.request.ip, userAgent: ctx.request.headers.get('User-Agent') ?? '' });
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group", auth, async ctx => {
+        /* Creates a new user group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const name = screenInput(data.get('name'), InputType.Header);
+            const description = screenInput(data.get('description'), InputType.String);
+            const status = (data.get('status') === 'locked') ? 'locked' : 'open';
+            const maxMembers = (typeof data.get('maxmembers') === 'string') ? Number(data.get('maxmembers')) : undefined;
+            const currency = (typeof data.get('currency') === 'string') ? screenInput(data.get('currency'), InputType.Currency) : undefined;
+
+            // getting list of members
+            let i = 1;
+            let members = [];
+            while(typeof data.get(`m${i}`) === 'string') {
+                members.push(screenInput(data.get(`m${i}`), InputType.Username));
+                i++;
+            }
+
+            res.body = await api.createGroup(ctx.state.user.uname, name, description, status, maxMembers, members, currency)
+            .then(async () => {
+                return await api.getDashboard(await api.validateSession(ctx.state.user.uname, ctx.state.session));
+            });
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id", auth, async ctx => {
+        /* Requests to join a group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const username = ctx.state.user.uname;
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const message = (typeof data.get('message') === 'string') ? screenInput(data.get('message'), InputType.String) : undefined;
+
+            res.body = await api.requestToJoin(username, group, message)
+            .then(async () => {
+                return await api.getDashboard(await api.validateSession(ctx.state.user.uname, ctx.state.session));
+            });
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/join/:code", auth, async ctx => {
+        /* Joins a group with an invite code */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.joinWithInvite(ctx.state.user.uname, screenInput(ctx.params.code, InputType.InviteCode));
+            res.body = await api.getDashboard(await api.validateSession(ctx.state.user.uname, ctx.state.session));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/invitation/:id", auth, async ctx => {
+        /* Accepts or declines an invitation to join a group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const accept = data.get('accept') === 'true' || data.get('accept') === '1';
+
+            await api.respondToInvitation(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), accept);
+            res.body = await api.getDashboard(await api.validateSession(ctx.state.user.uname, ctx.state.session));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/request/:id", auth, async ctx => {
+        /* Withdraws a pending request to join a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.cancelJoinRequest(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+            res.body = await api.getDashboard(await api.validateSession(ctx.state.user.uname, ctx.state.session));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/group/:id", auth, groupMember, async ctx => {
+        /* Locks or unlocks a group and edits its details */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const uname = ctx.state.user.uname;
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const changes = {
+                name: (typeof data.get('name') === 'string') ? screenInput(data.get('name'), InputType.Header) : undefined,
+                description: (typeof data.get('description') === 'string') ? screenInput(data.get('description'), InputType.String) : undefined,
+                maxMembers: (typeof data.get('maxmembers') === 'string') ? ((data.get('maxmembers') === '') ? null : Number(data.get('maxmembers'))) : undefined,
+                currency: (typeof data.get('currency') === 'string') ? screenInput(data.get('currency'), InputType.Currency) : undefined,
+                shareMethod: (typeof data.get('sharemethod') === 'string') ? data.get('sharemethod') : undefined
+            }
+
+            if(Object.values(changes).some(x => typeof x !== 'undefined')) await api.updateGroup(uname, group, changes);
+            if(data.get('state') === 'locked') {
+                res.body = await api.lockGroup(uname, group)
+            } else if(data.get('state') === 'open') {
+                res.body = await api.unlockGroup(uname, group)
+            }
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    }) // lock/unlock group
+    .get("/group/:id/invites", auth, groupMember, async ctx => {
+        /* Lists a group's usable invite codes */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listInvites(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/invites", auth, groupMember, async ctx => {
+        /* Generates an invite code (expires after 'hours', default 72, usable 'maxuses' times, default unlimited) */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const hours = (typeof data.get('hours') === 'string') ? Number(data.get('hours')) : 72;
+            const maxUses = (typeof data.get('maxuses') === 'string' && data.get('maxuses') !== '') ? Number(data.get('maxuses')) : null;
+
+            res.body = await api.createInvite(ctx.state.user.uname, group, hours, maxUses);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/invites/:invite", auth, groupMember, async ctx => {
+        /* Revokes an invite code */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.revokeInvite(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.invite, InputType.Token));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/invitations", auth, groupMember, async ctx => {
+        /* Invites a user to a group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('username') != 'string') throw new InputError('No User Specified', 'No username was specified to invite.', '');
+
+            await api.inviteUser(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(data.get('username'), InputType.Username));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/requests", auth, groupMember, async ctx => {
+        /* Lists pending requests to join a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listJoinRequests(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/requests/:request", auth, groupMember, async ctx => {
+        /* Approves or rejects a request to join a group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const approve = data.get('approve') === 'true' || data.get('approve') === '1';
+
+            await api.decideJoinRequest(ctx.state.user.uname, group, screenInput(ctx.params.request, InputType.Token), approve);
+            res.body = await api.listJoinRequests(ctx.state.user.uname, group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/group/:id/members/:uname", auth, groupMember, async ctx => {
+        /* Changes a member's role (owner | admin | member) */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const member = screenInput(ctx.params.uname, InputType.Username);
+            if(typeof data.get('role') != 'string') throw new InputError('No Role Specified', 'No role was specified for the member.', member);
+
+            await api.setRole(ctx.state.user.uname, group, member, data.get('role'));
+            res.body = await api.listGroupMembers(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/members/:uname", auth, groupMember, async ctx => {
+        /* Removes another member from a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+
+            await api.removeMember(ctx.state.user.uname, group, screenInput(ctx.params.uname, InputType.Username));
+            res.body = await api.listGroupMembers(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id", auth, async ctx => {
+        /* leave a group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const username = ctx.state.user.uname;
+            const group = screenInput(ctx.params.id, InputType.Token);
+            if(typeof data.get('username') === 'string' && screenInput(data.get('username'), InputType.Username) !== username) throw new AuthorizationError('Cannot Remove Other Members', 'Use DELETE /group/:id/members/:uname to remove other members.', data.get('username'));
+
+            res.body = await api.leaveGroup(username, group)
+            .then(async () => {
+                return await api.getDashboard(await api.validateSession(ctx.state.user.uname, ctx.state.session));
+            })
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/purchase", auth, bodyGroupMember, async ctx => {
+        /* Adds a purchase */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const username = ctx.state.user.uname;
+            if(typeof data.get('username') === 'string' && screenInput(data.get('username'), InputType.Username) !== username) throw new AuthorizationError('Cannot Act For Other Users', 'Purchases can only be logged by the user that made them.', data.get('username'));
+            const group = screenInput(data.get('group'), InputType.Token);
+            const amount = Number(data.get('amount'));
+            const store = (typeof data.get('store') === 'string') ? screenInput(data.get('store'), InputType.Header) : undefined;
+            const date = (typeof data.get('date') === 'string') ? parseDate(screenInput(data.get('date'), InputType.Date)) : new Date();
+            const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined;
+            const split = splitFromForm(data);
+            const currency = (typeof data.get('currency') === 'string') ? screenInput(data.get('currency'), InputType.Currency) : undefined;
+            const category = (typeof data.get('category') === 'string') ? ((data.get('category') === '') ? null : screenInput(data.get('category'), InputType.Token)) : undefined;
+
+            const purchaseID = await api.addPurchase(username, group, amount, store, date, notes, split, currency, category);
+            res.body = { purchaseID: purchaseID, budgetWarnings: await api.getPurchaseBudgetWarnings(purchaseID) };
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/incentive", auth, bodyGroupMember, async ctx => {
+        /* Create new incentive */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(data.get('group'), InputType.Token);
+            const name = screenInput(data.get('name'), InputType.Header);
+            const amount = Number(data.get('amount'));
+            const onPurchase = data.get('onpurchase') === 'true' || data.get('onpurchase') === '1';
+            const description = (typeof data.get('description') === 'string') ? screenInput(data.get('description'), InputType.String) : '';
+
+            res.body = await api.createNewIncentive(ctx.state.user.uname, group, name, amount, onPurchase, description)
+            .then(async () => await api.listGroupIncentives(group));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/incentive/:id", auth, incentiveGroupMember, async ctx => {
+        /* Add incentive */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const uname = ctx.state.user.uname;
+            if(typeof data.get('username') === 'string' && screenInput(data.get('username'), InputType.Username) !== uname) throw new AuthorizationError('Cannot Act For Other Users', 'Incentives can only be claimed by the user that performed them.', data.get('username'));
+            const incentiveID = screenInput(ctx.params.id, InputType.Token);
+            const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : '';
+
+            await api.addIncentive(uname, incentiveID, notes);
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/incentive/:id", auth, incentiveGroupMember, async ctx => {
+        /* Edits an incentive */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const incentiveID = screenInput(ctx.params.id, InputType.Token);
+            const changes = {
+                name: (typeof data.get('name') === 'string') ? screenInput(data.get('name'), InputType.Header) : undefined,
+                amount: (typeof data.get('amount') === 'string') ? Number(data.get('amount')) : undefined,
+                onPurchase: (typeof data.get('onpurchase') === 'string') ? data.get('onpurchase') === 'true' || data.get('onpurchase') === '1' : undefined,
+                description: (typeof data.get('description') === 'string') ? screenInput(data.get('description'), InputType.String) : undefined
+            }
+
+            await api.updateIncentive(ctx.state.user.uname, incentiveID, changes);
+            res.body = await api.listGroupIncentives(await api.getIncentiveGroup(incentiveID));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/incentive/:id", auth, incentiveGroupMember, async ctx => {
+        /* Ends an incentive so it can no longer be claimed */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const incentiveID = screenInput(ctx.params.id, InputType.Token);
+
+            await api.endIncentive(ctx.state.user.uname, incentiveID);
+            res.body = await api.listGroupIncentives(await api.getIncentiveGroup(incentiveID));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/purchase/:id", auth, purchaseGroupMember, async ctx => {
+        /* Edits, voids or restores a purchase */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const purchaseID = screenInput(ctx.params.id, InputType.Token);
+            const changes = {
+                amount: (typeof data.get('amount') === 'string') ? Number(data.get('amount')) : undefined,
+                currency: (typeof data.get('currency') === 'string') ? screenInput(data.get('currency'), InputType.Currency) : undefined,
+                store: (typeof data.get('store') === 'string') ? screenInput(data.get('store'), InputType.Header) : undefined,
+                categoryID: (typeof data.get('category') === 'string') ? ((data.get('category') === '') ? null : screenInput(data.get('category'), InputType.Token)) : undefined,
+                date: (typeof data.get('date') === 'string') ? parseDate(screenInput(data.get('date'), InputType.Date)) : undefined,
+                notes: (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined,
+                voided: (typeof data.get('voided') === 'string') ? data.get('voided') === 'true' || data.get('voided') === '1' : undefined,
+                split: (data.get('split') === 'even') ? null : splitFromForm(data)
+            }
+
+            res.body = await api.editPurchase(ctx.state.user.uname, purchaseID, changes);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/purchase/:id", auth, purchaseGroupMember, async ctx => {
+        /* Deletes a purchase */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.deletePurchase(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/purchase/:id/attachment", auth, purchaseGroupMember, async ctx => {
+        /* Attaches a receipt to a purchase, sent as multipart/form-data with the file in the 'file' field */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const purchaseID = screenInput(ctx.params.id, InputType.Token);
+            if(ctx.request.body().type !== 'form-data') throw new InputError('Invalid Upload', 'Attachments must be uploaded as multipart/form-data.', '');
+
+            // keep files in memory (maxSize) and reject anything over the limit (maxFileSize)
+            const form = await ctx.request.body({ type: 'form-data' }).value.read({ maxSize: attachments.maxSize, maxFileSize: attachments.maxSize })
+            .catch(() => { throw new InputError('Attachment Too Large', `Attachments cannot be larger than ${ Math.floor(attachments.maxSize / 1048576) }MB.`, ''); });
+            const file = (form.files ?? []).find(x => x.name === 'file');
+            if(typeof file === 'undefined' || typeof file.content === 'undefined') throw new InputError('No File Provided', 'No file was provided in the \'file\' field of the upload.', '');
+
+            res.body = await api.addAttachment(ctx.state.user.uname, purchaseID, file.originalName, file.content);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/purchase/:id/attachments", auth, purchaseGroupMember, async ctx => {
+        /* Lists the receipts attached to a purchase */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listAttachments(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/attachment/:id", auth, attachmentGroupMember, async ctx => {
+        /* Serves the file of a receipt to members of the purchase's group */
+        try {
+            const file = await api.readAttachment(screenInput(ctx.params.id, InputType.Token));
+            ctx.response.type = file.attachment.mimeType;
+            ctx.response.headers.set('Content-Disposition', `inline; filename="${ file.attachment.fileName.replace(/[^\w\-. ]/g, '_') }"`);
+            ctx.response.headers.set('X-Content-Type-Options', 'nosniff');
+            ctx.response.headers.set('Cache-Control', 'private, no-store');
+            ctx.response.body = file.content;
+        } catch (e) {
+            ctx.response.body = JSON.stringify(errorHandler(e, ctx));
+        }
+    })
+    .delete("/attachment/:id", auth, attachmentGroupMember, async ctx => {
+        /* Deletes a receipt from a purchase */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.deleteAttachment(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/incentive-record/:id", auth, recordGroupMember, async ctx => {
+        /* Edits, voids or restores a claimed incentive */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const recordID = screenInput(ctx.params.id, InputType.Token);
+            const changes = {
+                date: (typeof data.get('date') === 'string') ? parseDate(screenInput(data.get('date'), InputType.Date)) : undefined,
+                notes: (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined,
+                voided: (typeof data.get('voided') === 'string') ? data.get('voided') === 'true' || data.get('voided') === '1' : undefined
+            }
+
+            res.body = await api.editIncentiveRecord(ctx.state.user.uname, recordID, changes);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
 
-    ctx.response.body = JSON.stringify(res);
-})
-.post("/incentive", async ctx => {
-    /* Create new incentive */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        const group = screenInput(data.get('group'), InputType.Token);
-        const name = screenInput(data.get('name'), InputType.Header);
-        const amount = Number(data.get('amount'));
-        const onPurchase = data.get('onpurchase') === 'true' || data.get('onpurchase') === '1';
-        const description = (typeof data.get('description') === 'string') ? screenInput(data.get('description'), InputType.String) : '';
-
-        res.body = await api.createNewIncentive(group, name, amount, onPurchase, description)
-        .then(async () => await api.listGroupIncentives(group));
-    } catch (e) {
-        res = errorHandler(e);
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/incentive-record/:id", auth, recordGroupMember, async ctx => {
+        /* Deletes a claimed incentive */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            await api.deleteIncentiveRecord(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/revisions", auth, groupMember, async ctx => {
+        /* Lists the edit history of a group's purchases and incentive records */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listRevisions(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/settle", auth, groupMember, async ctx => {
+        /* Plans the transfers that settle a group up for a date range (defaults to the current month) */
+        const query = ctx.request.url.searchParams;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const range = screenDateRange(query.get('from'), query.get('to'));
+
+            res.body = await api.getSettlementPlan(group, range.from, range.to);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/stats", auth, groupMember, async ctx => {
+        /* Summarises a group's spending by month, member, category, store and incentive for a date range (defaults to the last 12 months) */
+        const query = ctx.request.url.searchParams;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const from = query.has('from') ? parseDate(screenInput(query.get('from')!, InputType.Date)) : undefined;
+            const to = query.has('to') ? parseDate(screenInput(query.get('to')!, InputType.Date)) : undefined;
+
+            res.body = await api.getGroupStats(screenInput(ctx.params.id, InputType.Token), from, to);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/transactions", auth, groupMember, async ctx => {
+        /* Lists a page of a group's purchases and incentives, filtered by date range, members, type, store, amount and notes */
+        const query = ctx.request.url.searchParams;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const filter = {
+                from: query.has('from') ? parseDate(screenInput(query.get('from')!, InputType.Date)) : undefined,
+                to: query.has('to') ? parseDate(screenInput(query.get('to')!, InputType.Date)) : undefined,
+                members: query.has('member') ? query.get('member')!.split(',').map((x: string) => screenInput(x.trim(), InputType.Username)) : undefined,
+                type: query.get('type') ?? undefined,
+                store: query.has('store') ? screenInput(query.get('store')!, InputType.String) : undefined,
+                minAmount: query.has('min') ? Number(query.get('min')) : undefined,
+                maxAmount: query.has('max') ? Number(query.get('max')) : undefined,
+                notes: query.has('notes') ? screenInput(query.get('notes')!, InputType.String) : undefined,
+                sort: query.get('sort') ?? undefined,
+                order: query.get('order') ?? undefined,
+                limit: query.has('limit') ? Number(query.get('limit')) : undefined,
+                cursor: query.has('cursor') ? screenInput(query.get('cursor')!, InputType.String) : undefined
+            }
+
+            res.body = await api.listTransactions(screenInput(ctx.params.id, InputType.Token), filter);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/export", auth, groupMember, async ctx => {
+        /* Exports a group's records, settlements and totals for a date range (defaults to the current month) as csv, json or a printable html statement */
+        const query = ctx.request.url.searchParams;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const range = screenDateRange(query.get('from'), query.get('to'));
+            const format = (typeof query.get('format') === 'string') ? String(query.get('format')).toLowerCase() : 'json';
+            if(!ExportFormats.includes(format)) throw new InputError('Invalid Export Format', `"${ format }" is not a supported export format, must be csv, json or html.`, format);
+
+            const ledger = await api.getLedger(group, range.from, range.to);
+            const filename = `${ ledger.groupName.replace(/[^\w\-]+/g, '_') }_${ query.get('from') ?? 'statement' }_${ query.get('to') ?? '' }`.replace(/_+$/, '');
+
+            if(format === 'csv') {
+                ctx.response.type = 'text/csv';
+                ctx.response.headers.set('Content-Disposition', `attachment; filename="${ filename }.csv"`);
+                ctx.response.body = ledgerToCSV(ledger);
+                return;
+            } else if(format === 'html') {
+                ctx.response.type = 'text/html';
+                ctx.response.body = ledgerToHTML(ledger);
+                return;
+            }
+
+            ctx.response.headers.set('Content-Disposition', `attachment; filename="${ filename }.json"`);
+            res.body = ledger;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/payment", auth, groupMember, async ctx => {
+        /* Records a settle-up payment between two members */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const from = (typeof data.get('from') === 'string') ? screenInput(data.get('from'), InputType.Username) : ctx.state.user.uname;
+            const to = (typeof data.get('to') === 'string') ? screenInput(data.get('to'), InputType.Username) : ctx.state.user.uname;
+            const amount = Number(data.get('amount'));
+            const date = (typeof data.get('date') === 'string') ? parseDate(screenInput(data.get('date'), InputType.Date)) : new Date();
+            const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined;
+
+            await api.recordPayment(ctx.state.user.uname, group, from, to, amount, date, notes);
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/payments", auth, groupMember, async ctx => {
+        /* Lists the settle-up payments of a group for a date range (defaults to the current month) */
+        const query = ctx.request.url.searchParams;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const range = screenDateRange(query.get('from'), query.get('to'));
+            res.body = await api.listPayments(screenInput(ctx.params.id, InputType.Token), range.from, range.to);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/period", auth, groupMember, async ctx => {
+        /* Closes a reconciliation period */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('from') != 'string') throw new InputError('Period Start Not Specified', 'No start date was specified for the period to close.', '');
+            if(typeof data.get('to') != 'string') throw new InputError('Period End Not Specified', 'No end date was specified for the period to close.', '');
+            const range = screenDateRange(data.get('from'), data.get('to'));
+
+            res.body = await api.closePeriod(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), range.from, range.to);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/periods", auth, groupMember, async ctx => {
+        /* Lists the closed periods of a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listPeriods(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/period/:period", auth, groupMember, async ctx => {
+        /* Reopens a closed period */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            await api.reopenPeriod(ctx.state.user.uname, group, screenInput(ctx.params.period, InputType.Token));
+            res.body = await api.listPeriods(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/categories", auth, groupMember, async ctx => {
+        /* Lists the purchase categories of a group with their budgets and store rules */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listCategories(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/categories", auth, groupMember, async ctx => {
+        /* Adds a purchase category with an optional monthly budget */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const name = screenInput(data.get('name'), InputType.Header);
+            const budget = (typeof data.get('budget') === 'string' && data.get('budget') !== '') ? Number(data.get('budget')) : null;
+
+            res.body = await api.createCategory(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), name, budget);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/group/:id/categories/:category", auth, groupMember, async ctx => {
+        /* Renames a category or changes its budget */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const changes = {
+                name: (typeof data.get('name') === 'string') ? screenInput(data.get('name'), InputType.Header) : undefined,
+                budget: (typeof data.get('budget') === 'string') ? ((data.get('budget') === '') ? null : Number(data.get('budget'))) : undefined
+            }
+
+            res.body = await api.updateCategory(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.category, InputType.Token), changes);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/categories/:category", auth, groupMember, async ctx => {
+        /* Deletes a category, its purchases are left uncategorized */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.deleteCategory(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.category, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/categories/:category/rules", auth, groupMember, async ctx => {
+        /* Puts new purchases from stores matching a pattern in a category */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const pattern = screenInput(data.get('pattern'), InputType.Header);
+
+            res.body = await api.addCategoryRule(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.category, InputType.Token), pattern);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/categories/:category/rules/:rule", auth, groupMember, async ctx => {
+        /* Deletes a store rule */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.deleteCategoryRule(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.rule, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/rates", auth, groupMember, async ctx => {
+        /* Lists the exchange rates of a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listExchangeRates(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/rates", auth, groupMember, async ctx => {
+        /* Sets the exchange rate of a currency from a date on */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            if(typeof data.get('date') != 'string') throw new InputError('Rate Date Not Specified', 'No date was specified for the exchange rate to take effect.', '');
+            const currency = screenInput(data.get('currency'), InputType.Currency);
+            const date = parseDate(screenInput(data.get('date'), InputType.Date));
+            const rate = Number(data.get('rate'));
+
+            await api.setExchangeRate(ctx.state.user.uname, group, currency, date, rate);
+            res.body = await api.listExchangeRates(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/rates/import", auth, groupMember, async ctx => {
+        /* Sets exchange rates from a CSV file with currency, date and rate columns */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('file') != 'string') throw new InputError('No File Provided', 'No exchange rate file contents were provided with the request.', '');
+            if(data.get('file').length > MaxStatementSize) throw new InputError('File Too Large', 'Exchange rate files cannot be larger than 1MB.', `${ data.get('file').substring(0, 30) }...`);
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const rows = parseRatesCSV(data.get('file'),
+                (typeof data.get('dateformat') === 'string') ? data.get('dateformat') : 'YYYY-MM-DD',
+                (data.get('delimiter') === 'tab') ? '\t' : (typeof data.get('delimiter') === 'string' && data.get('delimiter').length == 1) ? data.get('delimiter') : ',');
+
+            res.body = await api.importExchangeRates(ctx.state.user.uname, group, rows);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/rates/:rate", auth, groupMember, async ctx => {
+        /* Deletes an exchange rate */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            await api.deleteExchangeRate(ctx.state.user.uname, group, screenInput(ctx.params.rate, InputType.Token));
+            res.body = await api.listExchangeRates(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/webhooks", auth, groupMember, async ctx => {
+        /* Lists the webhooks of a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listWebhooks(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/webhooks", auth, groupMember, async ctx => {
+        /* Subscribes a URL to a group's events, the response holds the signing secret */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const url = screenInput(data.get('url'), InputType.String);
+            const events = screenInput(data.get('events'), InputType.String).split(',').map((x: string) => x.trim());
+
+            res.body = await api.createWebhook(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), url, events);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/group/:id/webhooks/:webhook", auth, groupMember, async ctx => {
+        /* Changes the URL or events of a webhook, or pauses it */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const changes = {
+                url: (typeof data.get('url') === 'string') ? screenInput(data.get('url'), InputType.String) : undefined,
+                events: (typeof data.get('events') === 'string') ? screenInput(data.get('events'), InputType.String).split(',').map((x: string) => x.trim()) : undefined,
+                active: (typeof data.get('active') === 'string') ? data.get('active') === 'true' || data.get('active') === '1' : undefined
+            }
+
+            res.body = await api.updateWebhook(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.webhook, InputType.Token), changes);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/webhooks/:webhook", auth, groupMember, async ctx => {
+        /* Deletes a webhook and its delivery log */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.deleteWebhook(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.webhook, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/webhooks/:webhook/deliveries", auth, groupMember, async ctx => {
+        /* Lists the latest deliveries of a webhook with their status */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listWebhookDeliveries(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.webhook, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/events", streamAuth, groupMember, async ctx => {
+        /* Streams a group's events as server-sent events, the session token can be passed as ?session= for EventSource */
+        try {
+            const lastEventID = ctx.request.headers.get('Last-Event-ID') ?? ctx.request.url.searchParams.get('lastEventId');
+            const stream = await api.openLiveUpdates(ctx.state.user.uname, ctx.state.session, screenInput(ctx.params.id, InputType.Token), lastEventID);
+            ctx.response.type = 'text/event-stream';
+            ctx.response.headers.set('Cache-Control', 'no-store');
+            ctx.response.headers.set('X-Accel-Buffering', 'no');
+            ctx.response.body = stream;
+        } catch (e) {
+            ctx.response.body = JSON.stringify(errorHandler(e, ctx));
+        }
+    })
+    .get("/group/:id/recurring", auth, groupMember, async ctx => {
+        /* Lists the recurring expenses of a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listRecurringExpenses(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/recurring", auth, groupMember, async ctx => {
+        /* Creates a recurring expense paid by the current user */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('schedule') != 'string') throw new InputError('Schedule Not Specified', 'No schedule (weekly or monthly) was specified for the recurring expense.', '');
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const amount = Number(data.get('amount'));
+            const store = (typeof data.get('store') === 'string') ? screenInput(data.get('store'), InputType.Header) : undefined;
+            const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined;
+            const schedule = {
+                cadence: data.get('schedule'),
+                every: (typeof data.get('every') === 'string') ? Number(data.get('every')) : 1,
+                dayOfMonth: (typeof data.get('day') === 'string') ? Number(data.get('day')) : null,
+                startDate: (typeof data.get('start') === 'string') ? parseDate(screenInput(data.get('start'), InputType.Date)) : new Date(),
+                endDate: (typeof data.get('end') === 'string') ? parseDate(screenInput(data.get('end'), InputType.Date)) : null
+            }
+
+            res.body = await api.createRecurringExpense(ctx.state.user.uname, group, amount, schedule, store, notes);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .put("/group/:id/recurring/:recurring", auth, groupMember, async ctx => {
+        /* Changes a recurring expense */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const recurring = screenInput(ctx.params.recurring, InputType.Token);
+            const changes = {
+                amount: (typeof data.get('amount') === 'string') ? Number(data.get('amount')) : undefined,
+                store: (typeof data.get('store') === 'string') ? screenInput(data.get('store'), InputType.Header) : undefined,
+                notes: (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined,
+                cadence: (typeof data.get('schedule') === 'string') ? data.get('schedule') : undefined,
+                every: (typeof data.get('every') === 'string') ? Number(data.get('every')) : undefined,
+                dayOfMonth: (typeof data.get('day') === 'string') ? ((data.get('day') === '') ? null : Number(data.get('day'))) : undefined,
+                startDate: (typeof data.get('start') === 'string') ? parseDate(screenInput(data.get('start'), InputType.Date)) : undefined,
+                endDate: (typeof data.get('end') === 'string') ? ((data.get('end') === '') ? null : parseDate(screenInput(data.get('end'), InputType.Date))) : undefined
+            }
+
+            res.body = await api.updateRecurringExpense(ctx.state.user.uname, group, recurring, changes);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/recurring/:recurring", auth, groupMember, async ctx => {
+        /* Deletes a recurring expense */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            await api.deleteRecurringExpense(ctx.state.user.uname, group, screenInput(ctx.params.recurring, InputType.Token));
+            res.body = await api.listRecurringExpenses(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/chores", auth, groupMember, async ctx => {
+        /* Lists the chores of a group */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            res.body = await api.listChores(screenInput(ctx.params.id, InputType.Token));
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/chores", auth, groupMember, async ctx => {
+        /* Creates a chore that rotates an incentive through the group */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('schedule') != 'string') throw new InputError('Schedule Not Specified', 'No schedule (daily or weekly) was specified for the chore.', '');
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const incentive = screenInput(data.get('incentive'), InputType.Token);
+            const penalty = (typeof data.get('penalty') === 'string') ? Number(data.get('penalty')) : undefined;
+            const schedule = {
+                cadence: data.get('schedule'),
+                every: (typeof data.get('every') === 'string') ? Number(data.get('every')) : 1,
+                dayOfMonth: null,
+                startDate: (typeof data.get('start') === 'string') ? parseDate(screenInput(data.get('start'), InputType.Date)) : new Date(),
+                endDate: null
+            }
+
+            res.body = await api.createChore(ctx.state.user.uname, group, incentive, schedule, penalty);
+            await api.rotateChores(new Date(), group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .delete("/group/:id/chores/:chore", auth, groupMember, async ctx => {
+        /* Stops a chore from rotating */
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+            await api.deactivateChore(ctx.state.user.uname, group, screenInput(ctx.params.chore, InputType.Token));
+            res.body = await api.listChores(group);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .get("/group/:id/assignments", auth, groupMember, async ctx => {
+        /* Lists the chore assignments of a group due in a date range (defaults to the current month) */
+        const query = ctx.request.url.searchParams;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const range = screenDateRange(query.get('from'), query.get('to'));
+            res.body = await api.listChoreAssignments(screenInput(ctx.params.id, InputType.Token), range.from, range.to);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/assignments/:assignment", auth, groupMember, async ctx => {
+        /* Completes a chore assignment */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : undefined;
+
+            await api.completeChoreAssignment(ctx.state.user.uname, screenInput(ctx.params.id, InputType.Token), screenInput(ctx.params.assignment, InputType.Token), notes);
+            res.body = true;
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/import", auth, groupMember, async ctx => {
+        /* Parses a CSV or OFX/QFX statement into candidate purchases for the user to confirm */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            if(typeof data.get('file') != 'string') throw new InputError('No Statement Provided', 'No statement file contents were provided with the request.', '');
+            if(data.get('file').length > MaxStatementSize) throw new InputError('Statement Too Large', 'Statement files cannot be larger than 1MB.', `${ data.get('file').substring(0, 30) }...`);
+            const group = screenInput(ctx.params.id, InputType.Token);
+            const format = (typeof data.get('format') === 'string') ? data.get('format').toLowerCase() : 'csv';
+
+            let rows;
+            if(format === 'ofx' || format === 'qfx') {
+                rows = parseOFX(data.get('file'));
+            } else if(format === 'csv') {
+                const hasAmount = typeof data.get('amountcolumn') === 'string' || typeof data.get('debitcolumn') !== 'string';
+                rows = parseCSV(data.get('file'), {
+                    date: (typeof data.get('datecolumn') === 'string') ? data.get('datecolumn') : 'Date',
+                    amount: hasAmount ? ((typeof data.get('amountcolumn') === 'string') ? data.get('amountcolumn') : 'Amount') : undefined,
+                    debit: (typeof data.get('debitcolumn') === 'string') ? data.get('debitcolumn') : undefined,
+                    credit: (typeof data.get('creditcolumn') === 'string') ? data.get('creditcolumn') : undefined,
+                    description: (typeof data.get('descriptioncolumn') === 'string') ? data.get('descriptioncolumn') : 'Description',
+                    memo: (typeof data.get('memocolumn') === 'string') ? data.get('memocolumn') : undefined,
+                    dateFormat: (typeof data.get('dateformat') === 'string') ? data.get('dateformat') : 'YYYY-MM-DD',
+                    delimiter: (data.get('delimiter') === 'tab') ? '\t' : (typeof data.get('delimiter') === 'string' && data.get('delimiter').length == 1) ? data.get('delimiter') : ',',
+                    header: data.get('header') !== 'false' && data.get('header') !== '0',
+                    invert: data.get('invert') === 'true' || data.get('invert') === '1'
+                });
+            } else {
+                throw new InputError('Invalid Statement Format', `"${ format }" is not a supported statement format, must be csv, ofx or qfx.`, format);
+            }
+
+            res.body = await api.previewImport(ctx.state.user.uname, group, rows);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    })
+    .post("/group/:id/import/confirm", auth, groupMember, async ctx => {
+        /* Adds the statement rows the user selected from an import preview as purchases */
+        const data = await ctx.request.body().value;
+        let res: { status: string, body: any } = { status: "OK", body: undefined};
+
+        try {
+            const group = screenInput(ctx.params.id, InputType.Token);
+
+            // getting list of confirmed rows
+            let i = 1;
+            let rows = [];
+            while(typeof data.get(`date${i}`) === 'string') {
+                rows.push({
+                    row: (typeof data.get(`row${i}`) === 'string') ? Number(data.get(`row${i}`)) : i,
+                    date: parseDate(screenInput(data.get(`date${i}`), InputType.Date)),
+                    amount: Number(data.get(`amount${i}`)),
+                    store: screenInput(data.get(`store${i}`), InputType.Header),
+                    notes: (typeof data.get(`notes${i}`) === 'string') ? screenInput(data.get(`notes${i}`), InputType.String) : ''
+                });
+                i++;
+            }
+            if(rows.length == 0) throw new InputError('No Rows Selected', 'No statement rows were selected to import.', '');
+
+            res.body = await api.importPurchases(ctx.state.user.uname, group, rows);
+        } catch (e) {
+            res = errorHandler(e, ctx);
+        }
+
+        ctx.response.body = JSON.stringify(res);
+    });
+
+
+    // implement routes
+    app.use(router.routes());
+    app.use(async ctx => {
+        try {
+            await ctx.send({
+                root: './static',
+                index: 'index.html'
+            });
+        } catch {
+            ctx.response.status = 404;
+            ctx.response.body = '404 | Page Not Found';
+        }
+    });
+
+    // scheduled jobs (recurring expenses, chore rotation, session cleanup), run on startup and every hour after
+    const runScheduledJobs = async () => {
+        await api.postRecurringExpenses().catch(e => console.error(`Recurring expense posting failed: ${ e }`));
+        await api.rotateChores().catch(e => console.error(`Chore rotation failed: ${ e }`));
+        await api.purgeSessions().catch(e => console.error(`Session cleanup failed: ${ e }`));
     }
 
-    ctx.response.body = JSON.stringify(res);
-})
-.post("/incentive/:id", async ctx => {
-    /* Add incentive */
-    const data = await ctx.request.body().value;
-    let res: { status: string, body: any } = { status: "OK", body: undefined};
-
-    try {
-        const uname = screenInput(data.get('username'), InputType.Token);
-        const incentiveID = screenInput(data.get('incentive'), InputType.Token);
-        const notes = (typeof data.get('notes') === 'string') ? screenInput(data.get('notes'), InputType.String) : '';
-
-        await api.addIncentive(uname, incentiveID, notes);
-        res.body = true;
-    } catch (e) {
-        res = errorHandler(e);
+    // streams of signed out sessions are closed right away, this also closes the streams of sessions that expired
+    const closeStaleStreams = async () => {
+        await api.closeStaleStreams().catch(e => console.error(`Live update cleanup failed: ${ e }`));
     }
 
-    ctx.response.body = JSON.stringify(res);
-});
-
-
-// implement routes
-app.use(router.routes());
-app.use(async ctx => {
-    try {
-        await ctx.send({
-            root: './static',
-            index: 'index.html'
-        });
-    } catch {
-        ctx.response.status = 404;
-        ctx.response.body = '404 | Page Not Found';
+    // webhook deliveries are sent shortly after their events, a delivery still running when the next one starts is not sent twice
+    let delivering: Promise<number> | null = null;
+    const deliverWebhooks = async () => {
+        if(delivering !== null) return;
+        delivering = api.deliverWebhooks().catch(e => {
+            console.error(`Webhook delivery failed: ${ e }`);
+            return 0;
+        }).finally(() => delivering = null);
+        await delivering;
     }
-});
 
-app.addEventListener("listen", ({ secure, hostname, port }) => {
-    const protocol = secure ? "https://" : "http://";
-    const url = `${protocol}${hostname ?? "localhost"}:${port}`;
-    console.log(`Listening on: ${url}`);
-});
+    return { app, api, storage, runScheduledJobs, deliverWebhooks, closeStaleStreams };
+}
+
+if(import.meta.main) {
+    const settings: Settings = JSON.parse(await Deno.readTextFile('preferences.json'));
+    const { app, runScheduledJobs, deliverWebhooks, closeStaleStreams } = await createApp(settings);
+
+    await runScheduledJobs();
+    setInterval(runScheduledJobs, 3600000);
+    setInterval(deliverWebhooks, 30000);
+    setInterval(closeStaleStreams, 60000);
+
+    app.addEventListener("listen", ({ secure, hostname, port }) => {
+        const protocol = secure ? "https://" : "http://";
+        const url = `${protocol}${hostname ?? "localhost"}:${port}`;
+        console.log(`Listening on: ${url}`);
+    });
 
-await app.listen({ port: settings.port });
\ No newline at end of file
+    await app.listen({ port: settings.port });
+}
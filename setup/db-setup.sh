@@ -7,28 +7,29 @@ read uname
 echo -e "Enter password: \033[8m"
 read pwd
 
+echo -e "\033[0m\nEnter migration username: "
+read muname
+echo -e "Enter migration password: \033[8m"
+read mpwd
+
 echo -e "\033[0m\nSetting up database..."
-sudo mysql -u root < ./setup/db-setup.sql
+sudo mysql -u root <<MYSQL_SCRIPT
+CREATE DATABASE IF NOT EXISTS roomates;
+MYSQL_SCRIPT
 echo -e "\033[2;32m[Complete]\033[0m"
 
 echo -e "\nCreating user: $uname..."
 sudo mysql -u root <<MYSQL_SCRIPT
-USE roomates;
 CREATE USER IF NOT EXISTS '$uname'@'localhost' IDENTIFIED BY '$pwd';
-GRANT EXECUTE ON FUNCTION BIN_TO_ID TO '$uname'@'localhost';
-GRANT EXECUTE ON FUNCTION ID_TO_BIN TO '$uname'@'localhost';
-GRANT EXECUTE ON FUNCTION COUNT_MEMBERS TO '$uname'@'localhost';
-GRANT EXECUTE ON FUNCTION SUM_EXPENSES TO '$uname'@'localhost';
-GRANT EXECUTE ON FUNCTION CALC_SHARE TO '$uname'@'localhost';
-GRANT SELECT, INSERT, UPDATE (Uname, PwdHash, HashAlgorithm, FailedLoginAttempts, Fname, Lname, Email) ON roomates.Users TO '$uname'@'localhost';
-GRANT SELECT, INSERT ON roomates.Sessions TO '$uname'@'localhost';
-GRANT SELECT, INSERT, UPDATE (Active) ON roomates.Sessions TO '$uname'@'localhost';
-GRANT SELECT, INSERT, UPDATE (Name, Description, Status, MaxUsers) ON roomates.Groups TO '$uname'@'localhost';
-GRANT SELECT, INSERT, UPDATE (LeftGroup) ON roomates.Memberships TO '$uname'@'localhost';
-GRANT SELECT, INSERT, UPDATE (Name, Description, Amount, End, OnPurchase) ON roomates.IncentivesAvailable TO '$uname'@'localhost';
-GRANT SELECT, INSERT ON roomates.Purchases TO '$uname'@'localhost';
-GRANT SELECT, INSERT ON roomates.Incentives TO '$uname'@'localhost';
+MYSQL_SCRIPT
+echo -e "\033[2;32m[Complete]\033[0m"
+
+echo -e "\nCreating migration user: $muname..."
+sudo mysql -u root <<MYSQL_SCRIPT
+CREATE USER IF NOT EXISTS '$muname'@'localhost' IDENTIFIED BY '$mpwd';
+GRANT ALL PRIVILEGES ON roomates.* TO '$muname'@'localhost' WITH GRANT OPTION;
 FLUSH PRIVILEGES;
 MYSQL_SCRIPT
 echo -e "\033[2;32m[Complete]\033[0m"
 
+echo -e "\nAdd both accounts to preferences.json then run \033[1mmake migrate\033[0m to create the tables and grant $uname its privileges."
@@ -1,8 +1,5 @@
 /* Must be using MariaDB */
-
-/* Create the database */
-CREATE DATABASE IF NOT EXISTS roomates;
-use roomates;
+/* The schema of the original setup/db-setup.sql, the database itself is created by setup/db-setup.sh */
 
 /* Create ID & expense calculation functions */
 DELIMITER //
@@ -54,6 +51,7 @@ DECLARE temp DECIMAL(6,2);
 SELECT ROUND(SUM_EXPENSES(groupID, fromDate, toDate) DIV COUNT_MEMBERS(groupID, fromDate, toDate), 2) INTO temp;
 RETURN temp;
 END//
+DELIMITER ;
 
 /* ---## Create Tables ##--- */
 
@@ -139,3 +137,18 @@ CREATE TABLE IF NOT EXISTS Incentives (
 	Notes VARCHAR(1024)
 );
 
+/* ---## Grant Privileges ##--- */
+/* {user} and {database} are replaced with the portal's SQL user and database, the runner applies the grants of every migration after migrating */
+
+GRANT EXECUTE ON FUNCTION {database}.BIN_TO_ID TO {user};
+GRANT EXECUTE ON FUNCTION {database}.ID_TO_BIN TO {user};
+GRANT EXECUTE ON FUNCTION {database}.COUNT_MEMBERS TO {user};
+GRANT EXECUTE ON FUNCTION {database}.SUM_EXPENSES TO {user};
+GRANT EXECUTE ON FUNCTION {database}.CALC_SHARE TO {user};
+GRANT SELECT, INSERT, UPDATE (Uname, PwdHash, HashAlgorithm, FailedLoginAttempts, Fname, Lname, Email) ON {database}.Users TO {user};
+GRANT SELECT, INSERT, UPDATE (Active) ON {database}.Sessions TO {user};
+GRANT SELECT, INSERT, UPDATE (Name, Description, Status, MaxUsers) ON {database}.Groups TO {user};
+GRANT SELECT, INSERT, UPDATE (LeftGroup) ON {database}.Memberships TO {user};
+GRANT SELECT, INSERT, UPDATE (Name, Description, Amount, End, OnPurchase) ON {database}.IncentivesAvailable TO {user};
+GRANT SELECT, INSERT ON {database}.Purchases TO {user};
+GRANT SELECT, INSERT ON {database}.Incentives TO {user};
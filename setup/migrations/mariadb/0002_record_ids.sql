@@ -0,0 +1,58 @@
+/* Purchases and incentive records get IDs so they can be edited, voided and deleted, every change is kept in a revision history */
+
+ALTER TABLE Purchases ADD COLUMN IF NOT EXISTS PID BINARY(16) FIRST,
+	ADD COLUMN IF NOT EXISTS Voided BOOLEAN NOT NULL DEFAULT 0 AFTER Notes;
+ALTER TABLE Incentives ADD COLUMN IF NOT EXISTS RID BINARY(16) FIRST,
+	ADD COLUMN IF NOT EXISTS Voided BOOLEAN NOT NULL DEFAULT 0 AFTER Notes;
+
+/* Records made before IDs were added get one each */
+UPDATE Purchases SET PID = ID_TO_BIN(UUID()) WHERE PID IS NULL;
+UPDATE Incentives SET RID = ID_TO_BIN(UUID()) WHERE RID IS NULL;
+
+ALTER TABLE Purchases MODIFY PID BINARY(16) NOT NULL, ADD PRIMARY KEY (PID);
+ALTER TABLE Incentives MODIFY RID BINARY(16) NOT NULL, ADD PRIMARY KEY (RID);
+
+/* Create Revisions table (edit history of purchases and incentive records) */
+CREATE TABLE IF NOT EXISTS Revisions (
+	RevID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	RecordID BINARY(16) NOT NULL,
+	RecordType ENUM('purchase','incentive') NOT NULL,
+	UID BINARY(16) NOT NULL,
+	Action ENUM('edit','void','restore','delete') NOT NULL,
+	Changed TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	OldValue VARCHAR(2048),
+	NewValue VARCHAR(2048),
+	PRIMARY KEY (RevID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
+
+/* Voided records are left out of a group's expenses */
+DELIMITER //
+DROP FUNCTION IF EXISTS SUM_EXPENSES//
+CREATE FUNCTION SUM_EXPENSES(groupID BINARY(16), fromDate date, toDate date)
+RETURNS DECIMAL(7,2)
+BEGIN
+DECLARE temp DECIMAL(7,2);
+SELECT (
+	SELECT IFNULL(SUM(Amount), 0)
+	FROM Purchases
+	WHERE GID = groupID
+	AND Voided = 0
+	AND Date BETWEEN fromDate AND toDate
+) + (
+	SELECT IFNULL(SUM(IncentivesAvailable.Amount), 0)
+	FROM Incentives
+	RIGHT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID
+	WHERE IncentivesAvailable.GID = groupID
+	AND Incentives.Voided = 0
+	AND Incentives.Date BETWEEN fromDate AND toDate
+) INTO temp;
+RETURN temp;
+END//
+DELIMITER ;
+
+GRANT DELETE, UPDATE (Date, Store, Amount, Notes, Voided) ON {database}.Purchases TO {user};
+GRANT DELETE, UPDATE (Date, Notes, Voided) ON {database}.Incentives TO {user};
+GRANT SELECT, INSERT ON {database}.Revisions TO {user};
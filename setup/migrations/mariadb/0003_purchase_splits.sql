@@ -0,0 +1,17 @@
+/* Purchases can be split between members by shares, percentages or exact amounts instead of evenly */
+
+ALTER TABLE Purchases ADD COLUMN IF NOT EXISTS SplitMethod ENUM('even','equal','shares','percent','exact') NOT NULL DEFAULT 'even' AFTER Notes;
+
+/* Create Purchase Splits table (per member allocations of purchases not split evenly) */
+CREATE TABLE IF NOT EXISTS PurchaseSplits (
+	PID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	Value DECIMAL(9,4) NOT NULL,
+	Amount DECIMAL(7,2) NOT NULL,
+	PRIMARY KEY (PID, UID),
+	FOREIGN KEY (PID) REFERENCES Purchases(PID) ON DELETE CASCADE,
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+GRANT UPDATE (SplitMethod) ON {database}.Purchases TO {user};
+GRANT SELECT, INSERT, DELETE ON {database}.PurchaseSplits TO {user};
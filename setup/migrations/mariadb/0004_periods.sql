@@ -0,0 +1,50 @@
+/* Members record settle-up payments to each other and close periods, carrying each member's balance forward */
+
+/* Create Payments table (settle-up payments between members) */
+CREATE TABLE IF NOT EXISTS Payments (
+	PayID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	FromUID BINARY(16) NOT NULL,
+	ToUID BINARY(16) NOT NULL,
+	Amount DECIMAL(7,2) NOT NULL,
+	Date DATE NOT NULL,
+	Notes VARCHAR(1024),
+	RecordedBy BINARY(16) NOT NULL,
+	Recorded TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (PayID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (FromUID) REFERENCES Users(UID),
+	FOREIGN KEY (ToUID) REFERENCES Users(UID),
+	FOREIGN KEY (RecordedBy) REFERENCES Users(UID)
+);
+
+/* Create Periods table (closed reconciliation periods) */
+CREATE TABLE IF NOT EXISTS Periods (
+	PeriodID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	PeriodFrom DATE NOT NULL,
+	PeriodTo DATE NOT NULL,
+	ClosedBy BINARY(16) NOT NULL,
+	Closed TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	Reopened TIMESTAMP NULL,
+	ReopenedBy BINARY(16),
+	Snapshot TEXT NOT NULL,
+	PRIMARY KEY (PeriodID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (ClosedBy) REFERENCES Users(UID),
+	FOREIGN KEY (ReopenedBy) REFERENCES Users(UID)
+);
+
+/* Create Period Balances table (balance of each member when a period was closed) */
+CREATE TABLE IF NOT EXISTS PeriodBalances (
+	PeriodID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	Balance DECIMAL(8,2) NOT NULL,
+	PRIMARY KEY (PeriodID, UID),
+	FOREIGN KEY (PeriodID) REFERENCES Periods(PeriodID),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+GRANT SELECT, INSERT ON {database}.Payments TO {user};
+GRANT SELECT, INSERT, UPDATE (Reopened, ReopenedBy) ON {database}.Periods TO {user};
+GRANT SELECT, INSERT ON {database}.PeriodBalances TO {user};
@@ -0,0 +1,33 @@
+/* Purchase templates that are posted on a weekly or monthly schedule */
+
+/* Create Recurring Expenses table (purchase templates posted on a schedule) */
+CREATE TABLE IF NOT EXISTS RecurringExpenses (
+	RecID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	Store VARCHAR(30),
+	Amount DECIMAL(5,2) NOT NULL,
+	Notes VARCHAR(1024),
+	Cadence ENUM('weekly','monthly') NOT NULL,
+	Every TINYINT UNSIGNED NOT NULL DEFAULT 1,
+	DayOfMonth TINYINT UNSIGNED,
+	StartDate DATE NOT NULL,
+	EndDate DATE,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (RecID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+/* Create Recurring Postings table (occurrences of recurring expenses that have been posted) */
+CREATE TABLE IF NOT EXISTS RecurringPostings (
+	RecID BINARY(16) NOT NULL,
+	Occurrence DATE NOT NULL,
+	PID BINARY(16),
+	Posted TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (RecID, Occurrence),
+	FOREIGN KEY (RecID) REFERENCES RecurringExpenses(RecID) ON DELETE CASCADE
+);
+
+GRANT SELECT, INSERT, DELETE, UPDATE (Store, Amount, Notes, Cadence, Every, DayOfMonth, StartDate, EndDate) ON {database}.RecurringExpenses TO {user};
+GRANT SELECT, INSERT, DELETE, UPDATE (PID) ON {database}.RecurringPostings TO {user};
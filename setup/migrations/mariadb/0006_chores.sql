@@ -0,0 +1,37 @@
+/* Chores rotate an incentive through the members of a group, missed turns can carry a penalty */
+
+/* Create Chores table (incentives that rotate through group members on a schedule) */
+CREATE TABLE IF NOT EXISTS Chores (
+	ChoreID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	IID BINARY(16) NOT NULL,
+	Cadence ENUM('daily','weekly') NOT NULL,
+	Every TINYINT UNSIGNED NOT NULL DEFAULT 1,
+	StartDate DATE NOT NULL,
+	Penalty DECIMAL(5,2) NOT NULL DEFAULT 0,
+	Active BOOLEAN NOT NULL DEFAULT 1,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (ChoreID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (IID) REFERENCES IncentivesAvailable(IID)
+);
+
+/* Create Chore Assignments table (each member's turn at a chore) */
+CREATE TABLE IF NOT EXISTS ChoreAssignments (
+	AssignID BINARY(16) NOT NULL,
+	ChoreID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	StartDate DATE NOT NULL,
+	DueDate DATE NOT NULL,
+	Completed DATE,
+	RID BINARY(16),
+	Missed BOOLEAN NOT NULL DEFAULT 0,
+	Penalty DECIMAL(5,2) NOT NULL DEFAULT 0,
+	PRIMARY KEY (AssignID),
+	UNIQUE (ChoreID, StartDate),
+	FOREIGN KEY (ChoreID) REFERENCES Chores(ChoreID),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+GRANT SELECT, INSERT, UPDATE (Penalty, Active) ON {database}.Chores TO {user};
+GRANT SELECT, INSERT, UPDATE (UID, Completed, RID, Missed) ON {database}.ChoreAssignments TO {user};
@@ -0,0 +1,17 @@
+/* Receipts can be attached to purchases, the files are stored on disk */
+
+/* Create Attachments table (receipt files stored on disk for purchases) */
+CREATE TABLE IF NOT EXISTS Attachments (
+	AttachID BINARY(16) NOT NULL,
+	PID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	FileName VARCHAR(100) NOT NULL,
+	MimeType VARCHAR(30) NOT NULL,
+	Size INT UNSIGNED NOT NULL,
+	Uploaded TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (AttachID),
+	FOREIGN KEY (PID) REFERENCES Purchases(PID) ON DELETE CASCADE,
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+GRANT SELECT, INSERT, DELETE ON {database}.Attachments TO {user};
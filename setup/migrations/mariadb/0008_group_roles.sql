@@ -0,0 +1,16 @@
+/* Members of a group are its owner, admins or members, only owners and admins can manage the group */
+
+ALTER TABLE Memberships ADD COLUMN IF NOT EXISTS Role ENUM('owner','admin','member') NOT NULL DEFAULT 'member' AFTER LeftGroup;
+
+/* Groups made before roles were added are owned by the members that joined them first */
+UPDATE Memberships
+JOIN (
+	SELECT GID, MIN(JoinedGroup) AS JoinedGroup
+	FROM Memberships
+	WHERE LeftGroup IS NULL
+	GROUP BY GID
+) AS First ON Memberships.GID = First.GID AND Memberships.JoinedGroup = First.JoinedGroup
+SET Memberships.Role = 'owner'
+WHERE Memberships.LeftGroup IS NULL;
+
+GRANT UPDATE (Role) ON {database}.Memberships TO {user};
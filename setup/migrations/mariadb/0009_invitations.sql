@@ -0,0 +1,53 @@
+/* Groups are joined with invite codes, invitations and approved join requests instead of by their ID */
+
+/* Create Invites table (invite codes generated by group admins) */
+CREATE TABLE IF NOT EXISTS Invites (
+	InviteID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	Code CHAR(10) NOT NULL,
+	CreatedBy BINARY(16) NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	Expires DATETIME NOT NULL,
+	MaxUses SMALLINT UNSIGNED,
+	Uses SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+	Revoked BOOLEAN NOT NULL DEFAULT 0,
+	PRIMARY KEY (InviteID),
+	UNIQUE (Code),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (CreatedBy) REFERENCES Users(UID)
+);
+
+/* Create Invitations table (invitations sent by group admins to specific users) */
+CREATE TABLE IF NOT EXISTS Invitations (
+	InvitationID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	InvitedBy BINARY(16) NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	Status ENUM('pending','accepted','declined','cancelled') NOT NULL DEFAULT 'pending',
+	Responded DATETIME,
+	PRIMARY KEY (InvitationID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (InvitedBy) REFERENCES Users(UID)
+);
+
+/* Create Join Requests table (requests to join a group awaiting an admin's decision) */
+CREATE TABLE IF NOT EXISTS JoinRequests (
+	RequestID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	Message VARCHAR(255),
+	Requested TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	Status ENUM('pending','approved','rejected','cancelled') NOT NULL DEFAULT 'pending',
+	DecidedBy BINARY(16),
+	Decided DATETIME,
+	PRIMARY KEY (RequestID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (DecidedBy) REFERENCES Users(UID)
+);
+
+GRANT SELECT, INSERT, UPDATE (Uses, Revoked) ON {database}.Invites TO {user};
+GRANT SELECT, INSERT, UPDATE (Status, Responded) ON {database}.Invitations TO {user};
+GRANT SELECT, INSERT, UPDATE (Status, DecidedBy, Decided) ON {database}.JoinRequests TO {user};
@@ -0,0 +1,19 @@
+/* Users verify their email address and can reset a forgotten password with a link sent to it */
+
+ALTER TABLE Users ADD COLUMN IF NOT EXISTS EmailVerified BOOLEAN NOT NULL DEFAULT 0 AFTER Email;
+
+/* Create User Tokens table (hashed single-use tokens for password resets and email verification) */
+CREATE TABLE IF NOT EXISTS UserTokens (
+	TokenHash CHAR(64) NOT NULL,
+	UID BINARY(16) NOT NULL,
+	Purpose ENUM('reset','verify') NOT NULL,
+	Email VARCHAR(60) NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	Expires DATETIME NOT NULL,
+	Used DATETIME,
+	PRIMARY KEY (TokenHash),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+GRANT UPDATE (EmailVerified) ON {database}.Users TO {user};
+GRANT SELECT, INSERT, UPDATE (Used) ON {database}.UserTokens TO {user};
@@ -0,0 +1,5 @@
+/* Failed sign-ins lock an account for a growing time instead of for good */
+
+ALTER TABLE Users ADD COLUMN IF NOT EXISTS LockedUntil DATETIME AFTER FailedLoginAttempts;
+
+GRANT UPDATE (LockedUntil) ON {database}.Users TO {user};
@@ -0,0 +1,14 @@
+/* Sessions get an ID and remember the device they were made on, so users can list them and sign out of one */
+
+ALTER TABLE Sessions ADD COLUMN IF NOT EXISTS SessionID BINARY(16) AFTER Token,
+	ADD COLUMN IF NOT EXISTS Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP AFTER UID,
+	ADD COLUMN IF NOT EXISTS LastSeen DATETIME AFTER Active,
+	ADD COLUMN IF NOT EXISTS IP VARCHAR(45) AFTER LastSeen,
+	ADD COLUMN IF NOT EXISTS UserAgent VARCHAR(255) AFTER IP;
+
+/* Sessions made before IDs were added get one each */
+UPDATE Sessions SET SessionID = ID_TO_BIN(UUID()) WHERE SessionID IS NULL;
+
+ALTER TABLE Sessions MODIFY SessionID BINARY(16) NOT NULL, ADD INDEX (SessionID);
+
+GRANT DELETE, UPDATE (LastSeen) ON {database}.Sessions TO {user};
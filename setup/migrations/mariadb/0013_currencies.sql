@@ -0,0 +1,75 @@
+/* Groups keep their books in one currency, purchases can be logged in another and are converted with the group's exchange rates */
+
+ALTER TABLE Groups ADD COLUMN IF NOT EXISTS Currency CHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE Purchases ADD COLUMN IF NOT EXISTS Currency CHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE Purchases MODIFY Amount DECIMAL(10,2) NOT NULL;
+ALTER TABLE PurchaseSplits MODIFY Amount DECIMAL(10,2) NOT NULL;
+ALTER TABLE RecurringExpenses MODIFY Amount DECIMAL(10,2) NOT NULL;
+
+/* Create Exchange Rates table (value of one unit of a currency in a group's currency from a date on) */
+CREATE TABLE IF NOT EXISTS ExchangeRates (
+	RateID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	FromCurrency CHAR(3) NOT NULL,
+	ToCurrency CHAR(3) NOT NULL,
+	EffectiveDate DATE NOT NULL,
+	Rate DECIMAL(18,8) NOT NULL,
+	CreatedBy BINARY(16) NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (RateID),
+	UNIQUE (GID, FromCurrency, ToCurrency, EffectiveDate),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (CreatedBy) REFERENCES Users(UID)
+);
+
+/* Converts an amount to a group's currency with the latest rate effective on a date, NULL if the group has no such rate */
+DELIMITER //
+CREATE FUNCTION IF NOT EXISTS CONVERT_AMOUNT(groupID BINARY(16), amount DECIMAL(10,2), amountCurrency CHAR(3), onDate date)
+RETURNS DECIMAL(10,2)
+BEGIN
+DECLARE groupCurrency CHAR(3);
+DECLARE exchangeRate DECIMAL(18,8);
+SET groupCurrency = (SELECT Currency FROM Groups WHERE GID = groupID);
+IF amountCurrency IS NULL OR amountCurrency = groupCurrency THEN
+	RETURN amount;
+END IF;
+SET exchangeRate = (
+	SELECT Rate
+	FROM ExchangeRates
+	WHERE GID = groupID
+	AND FromCurrency = amountCurrency
+	AND ToCurrency = groupCurrency
+	AND EffectiveDate <= onDate
+	ORDER BY EffectiveDate DESC
+	LIMIT 1
+);
+RETURN ROUND(amount * exchangeRate, 2);
+END//
+
+DROP FUNCTION IF EXISTS SUM_EXPENSES//
+CREATE FUNCTION SUM_EXPENSES(groupID BINARY(16), fromDate date, toDate date)
+RETURNS DECIMAL(10,2)
+BEGIN
+DECLARE temp DECIMAL(10,2);
+SELECT (
+	SELECT IFNULL(SUM(CONVERT_AMOUNT(GID, Amount, Currency, Date)), 0)
+	FROM Purchases
+	WHERE GID = groupID
+	AND Voided = 0
+	AND Date BETWEEN fromDate AND toDate
+) + (
+	SELECT IFNULL(SUM(IncentivesAvailable.Amount), 0)
+	FROM Incentives
+	RIGHT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID
+	WHERE IncentivesAvailable.GID = groupID
+	AND Incentives.Voided = 0
+	AND Incentives.Date BETWEEN fromDate AND toDate
+) INTO temp;
+RETURN temp;
+END//
+DELIMITER ;
+
+GRANT EXECUTE ON FUNCTION {database}.CONVERT_AMOUNT TO {user};
+GRANT UPDATE (Currency) ON {database}.Groups TO {user};
+GRANT UPDATE (Currency) ON {database}.Purchases TO {user};
+GRANT SELECT, INSERT, DELETE, UPDATE (Rate) ON {database}.ExchangeRates TO {user};
@@ -0,0 +1,31 @@
+/* Groups sort purchases into categories with optional monthly budgets, store rules pick the category of new purchases */
+
+/* Create Categories table (group-defined purchase categories, budgets are in the group's currency) */
+CREATE TABLE IF NOT EXISTS Categories (
+	CategoryID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	Name VARCHAR(30) NOT NULL,
+	Budget DECIMAL(10,2),
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (CategoryID),
+	UNIQUE (GID, Name),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
+
+/* Create Category Rules table (stores whose purchases are put in a category) */
+CREATE TABLE IF NOT EXISTS CategoryRules (
+	RuleID BINARY(16) NOT NULL,
+	CategoryID BINARY(16) NOT NULL,
+	Pattern VARCHAR(30) NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (RuleID),
+	UNIQUE (CategoryID, Pattern),
+	FOREIGN KEY (CategoryID) REFERENCES Categories(CategoryID) ON DELETE CASCADE
+);
+
+ALTER TABLE Purchases ADD COLUMN IF NOT EXISTS CategoryID BINARY(16) AFTER Amount,
+	ADD FOREIGN KEY IF NOT EXISTS PurchaseCategory (CategoryID) REFERENCES Categories(CategoryID) ON DELETE SET NULL;
+
+GRANT UPDATE (CategoryID) ON {database}.Purchases TO {user};
+GRANT SELECT, INSERT, DELETE, UPDATE (Name, Budget) ON {database}.Categories TO {user};
+GRANT SELECT, INSERT, DELETE ON {database}.CategoryRules TO {user};
@@ -0,0 +1,5 @@
+/* Groups choose whether shared expenses are split evenly between everyone that was a member during a period or by the days each member was active in it */
+
+ALTER TABLE Groups ADD COLUMN IF NOT EXISTS ShareMethod ENUM('even','prorated') NOT NULL DEFAULT 'even' AFTER Currency;
+
+GRANT UPDATE (ShareMethod) ON {database}.Groups TO {user};
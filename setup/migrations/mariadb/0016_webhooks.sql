@@ -0,0 +1,37 @@
+/* Groups can subscribe URLs to their events, deliveries are queued and retried until the URL accepts them */
+
+/* Create Webhooks table (URLs notified of a group's events, signed with a shared secret) */
+CREATE TABLE IF NOT EXISTS Webhooks (
+	WebhookID BINARY(16) NOT NULL,
+	GID BINARY(16) NOT NULL,
+	URL VARCHAR(2048) NOT NULL,
+	Events VARCHAR(255) NOT NULL,
+	Secret CHAR(64) NOT NULL,
+	Active BOOLEAN NOT NULL DEFAULT 1,
+	CreatedBy BINARY(16) NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (WebhookID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (CreatedBy) REFERENCES Users(UID)
+);
+
+/* Create Webhook Deliveries table (queue and log of the events sent to each webhook) */
+CREATE TABLE IF NOT EXISTS WebhookDeliveries (
+	DeliveryID BINARY(16) NOT NULL,
+	WebhookID BINARY(16) NOT NULL,
+	Event VARCHAR(32) NOT NULL,
+	Payload TEXT NOT NULL,
+	Status ENUM('pending','delivered','failed') NOT NULL DEFAULT 'pending',
+	Attempts TINYINT UNSIGNED NOT NULL DEFAULT 0,
+	NextAttempt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	LastAttempt DATETIME,
+	ResponseStatus SMALLINT UNSIGNED,
+	Error VARCHAR(255),
+	Created TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (DeliveryID),
+	INDEX (Status, NextAttempt),
+	FOREIGN KEY (WebhookID) REFERENCES Webhooks(WebhookID) ON DELETE CASCADE
+);
+
+GRANT SELECT, INSERT, DELETE, UPDATE (URL, Events, Active) ON {database}.Webhooks TO {user};
+GRANT SELECT, INSERT, UPDATE (Status, Attempts, NextAttempt, LastAttempt, ResponseStatus, Error) ON {database}.WebhookDeliveries TO {user};
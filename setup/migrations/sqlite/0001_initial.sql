@@ -0,0 +1,86 @@
+/* SQLite version of mariadb/0001_initial.sql, used when the "sqlite" backend is selected in preferences.json */
+/* The ID and expense calculation functions are registered by src/storage.ts */
+
+/* ---## Create Tables ##--- */
+
+/* Create Users table */
+CREATE TABLE IF NOT EXISTS Users (
+	UID BLOB NOT NULL,
+	Uname VARCHAR(30) NOT NULL COLLATE NOCASE,
+	PwdHash CHAR(60) NOT NULL COLLATE NOCASE,
+	HashAlgorithm TEXT NOT NULL DEFAULT 'bcrypt' CHECK (HashAlgorithm IN ('bcrypt')),
+	FailedLoginAttempts INTEGER NOT NULL DEFAULT 0,
+	DateJoined DATE NOT NULL DEFAULT (date('now', 'localtime')),
+	Fname VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Lname VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Email VARCHAR(60) NOT NULL COLLATE NOCASE,
+	PRIMARY KEY (UID),
+	UNIQUE(Uname),
+	UNIQUE(Email)
+);
+
+/* Create Sessions table */
+CREATE TABLE IF NOT EXISTS Sessions (
+	Token BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	Expires DATETIME NOT NULL DEFAULT (datetime('now', 'localtime', '+1 month')),
+	Active BOOLEAN NOT NULL DEFAULT 1,
+	PRIMARY KEY (Token),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+/* Create Groups table */
+CREATE TABLE IF NOT EXISTS Groups (
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	GID BLOB NOT NULL,
+	Name VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Description VARCHAR(1024) COLLATE NOCASE,
+	Status TEXT NOT NULL DEFAULT 'open' CHECK (Status IN ('open','locked')),
+	MaxUsers INTEGER,
+	PRIMARY KEY (GID)
+);
+
+/* Create Memberships table */
+CREATE TABLE IF NOT EXISTS Memberships (
+	UID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	JoinedGroup DATE NOT NULL,
+	LeftGroup DATE,
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
+
+/* Create Available Incentives Table */
+CREATE TABLE IF NOT EXISTS IncentivesAvailable (
+	IID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	Name VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Description VARCHAR(1024) COLLATE NOCASE,
+	Amount DECIMAL(5,2) NOT NULL,
+	Begin DATE NOT NULL,
+	End DATE,
+	OnPurchase BOOLEAN NOT NULL DEFAULT '0',
+	PRIMARY KEY (IID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	UNIQUE(GID,Name)
+);
+
+/* Create Purchases table */
+CREATE TABLE IF NOT EXISTS Purchases (
+	UID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	Date DATE NOT NULL DEFAULT (date('now', 'localtime')),
+	Store VARCHAR(30) COLLATE NOCASE,
+	Amount DECIMAL(5,2) NOT NULL,
+	Notes VARCHAR(1024) COLLATE NOCASE,
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
+
+/* Create Incentives Table */
+CREATE TABLE IF NOT EXISTS Incentives (
+	UID BLOB NOT NULL,
+	IID BLOB NOT NULL,
+	Date DATE NOT NULL,
+	Notes VARCHAR(1024) COLLATE NOCASE
+);
@@ -0,0 +1,51 @@
+/* SQLite version of mariadb/0002_record_ids.sql, SUM_EXPENSES is registered by src/storage.ts */
+/* SQLite cannot add a primary key to a table, so Purchases and Incentives are copied into new tables that have one */
+
+CREATE TABLE PurchasesWithIDs (
+	PID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	Date DATE NOT NULL DEFAULT (date('now', 'localtime')),
+	Store VARCHAR(30) COLLATE NOCASE,
+	Amount DECIMAL(5,2) NOT NULL,
+	Notes VARCHAR(1024) COLLATE NOCASE,
+	Voided BOOLEAN NOT NULL DEFAULT 0,
+	PRIMARY KEY (PID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
+
+/* Records made before IDs were added get one each */
+INSERT INTO PurchasesWithIDs (PID, UID, GID, Date, Store, Amount, Notes) SELECT ID_TO_BIN(UUID()), UID, GID, Date, Store, Amount, Notes FROM Purchases;
+DROP TABLE Purchases;
+ALTER TABLE PurchasesWithIDs RENAME TO Purchases;
+
+CREATE TABLE IncentivesWithIDs (
+	RID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	IID BLOB NOT NULL,
+	Date DATE NOT NULL,
+	Notes VARCHAR(1024) COLLATE NOCASE,
+	Voided BOOLEAN NOT NULL DEFAULT 0,
+	PRIMARY KEY (RID)
+);
+
+INSERT INTO IncentivesWithIDs (RID, UID, IID, Date, Notes) SELECT ID_TO_BIN(UUID()), UID, IID, Date, Notes FROM Incentives;
+DROP TABLE Incentives;
+ALTER TABLE IncentivesWithIDs RENAME TO Incentives;
+
+/* Create Revisions table (edit history of purchases and incentive records) */
+CREATE TABLE IF NOT EXISTS Revisions (
+	RevID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	RecordID BLOB NOT NULL,
+	RecordType TEXT NOT NULL CHECK (RecordType IN ('purchase','incentive')),
+	UID BLOB NOT NULL,
+	Action TEXT NOT NULL CHECK (Action IN ('edit','void','restore','delete')),
+	Changed TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	OldValue VARCHAR(2048) COLLATE NOCASE,
+	NewValue VARCHAR(2048) COLLATE NOCASE,
+	PRIMARY KEY (RevID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
@@ -0,0 +1,14 @@
+/* SQLite version of mariadb/0003_purchase_splits.sql */
+
+ALTER TABLE Purchases ADD COLUMN SplitMethod TEXT NOT NULL DEFAULT 'even' CHECK (SplitMethod IN ('even','equal','shares','percent','exact'));
+
+/* Create Purchase Splits table (per member allocations of purchases not split evenly) */
+CREATE TABLE IF NOT EXISTS PurchaseSplits (
+	PID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	Value DECIMAL(9,4) NOT NULL,
+	Amount DECIMAL(7,2) NOT NULL,
+	PRIMARY KEY (PID, UID),
+	FOREIGN KEY (PID) REFERENCES Purchases(PID) ON DELETE CASCADE,
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
@@ -0,0 +1,46 @@
+/* SQLite version of mariadb/0004_periods.sql */
+
+/* Create Payments table (settle-up payments between members) */
+CREATE TABLE IF NOT EXISTS Payments (
+	PayID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	FromUID BLOB NOT NULL,
+	ToUID BLOB NOT NULL,
+	Amount DECIMAL(7,2) NOT NULL,
+	Date DATE NOT NULL,
+	Notes VARCHAR(1024) COLLATE NOCASE,
+	RecordedBy BLOB NOT NULL,
+	Recorded TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (PayID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (FromUID) REFERENCES Users(UID),
+	FOREIGN KEY (ToUID) REFERENCES Users(UID),
+	FOREIGN KEY (RecordedBy) REFERENCES Users(UID)
+);
+
+/* Create Periods table (closed reconciliation periods) */
+CREATE TABLE IF NOT EXISTS Periods (
+	PeriodID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	PeriodFrom DATE NOT NULL,
+	PeriodTo DATE NOT NULL,
+	ClosedBy BLOB NOT NULL,
+	Closed TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	Reopened TIMESTAMP NULL,
+	ReopenedBy BLOB,
+	Snapshot TEXT NOT NULL,
+	PRIMARY KEY (PeriodID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (ClosedBy) REFERENCES Users(UID),
+	FOREIGN KEY (ReopenedBy) REFERENCES Users(UID)
+);
+
+/* Create Period Balances table (balance of each member when a period was closed) */
+CREATE TABLE IF NOT EXISTS PeriodBalances (
+	PeriodID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	Balance DECIMAL(8,2) NOT NULL,
+	PRIMARY KEY (PeriodID, UID),
+	FOREIGN KEY (PeriodID) REFERENCES Periods(PeriodID),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
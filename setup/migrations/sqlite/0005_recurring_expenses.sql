@@ -0,0 +1,30 @@
+/* SQLite version of mariadb/0005_recurring_expenses.sql */
+
+/* Create Recurring Expenses table (purchase templates posted on a schedule) */
+CREATE TABLE IF NOT EXISTS RecurringExpenses (
+	RecID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	Store VARCHAR(30) COLLATE NOCASE,
+	Amount DECIMAL(5,2) NOT NULL,
+	Notes VARCHAR(1024) COLLATE NOCASE,
+	Cadence TEXT NOT NULL CHECK (Cadence IN ('weekly','monthly')),
+	Every INTEGER NOT NULL DEFAULT 1,
+	DayOfMonth INTEGER,
+	StartDate DATE NOT NULL,
+	EndDate DATE,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (RecID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+/* Create Recurring Postings table (occurrences of recurring expenses that have been posted) */
+CREATE TABLE IF NOT EXISTS RecurringPostings (
+	RecID BLOB NOT NULL,
+	Occurrence DATE NOT NULL,
+	PID BLOB,
+	Posted TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (RecID, Occurrence),
+	FOREIGN KEY (RecID) REFERENCES RecurringExpenses(RecID) ON DELETE CASCADE
+);
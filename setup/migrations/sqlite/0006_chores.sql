@@ -0,0 +1,34 @@
+/* SQLite version of mariadb/0006_chores.sql */
+
+/* Create Chores table (incentives that rotate through group members on a schedule) */
+CREATE TABLE IF NOT EXISTS Chores (
+	ChoreID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	IID BLOB NOT NULL,
+	Cadence TEXT NOT NULL CHECK (Cadence IN ('daily','weekly')),
+	Every INTEGER NOT NULL DEFAULT 1,
+	StartDate DATE NOT NULL,
+	Penalty DECIMAL(5,2) NOT NULL DEFAULT 0,
+	Active BOOLEAN NOT NULL DEFAULT 1,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (ChoreID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (IID) REFERENCES IncentivesAvailable(IID)
+);
+
+/* Create Chore Assignments table (each member's turn at a chore) */
+CREATE TABLE IF NOT EXISTS ChoreAssignments (
+	AssignID BLOB NOT NULL,
+	ChoreID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	StartDate DATE NOT NULL,
+	DueDate DATE NOT NULL,
+	Completed DATE,
+	RID BLOB,
+	Missed BOOLEAN NOT NULL DEFAULT 0,
+	Penalty DECIMAL(5,2) NOT NULL DEFAULT 0,
+	PRIMARY KEY (AssignID),
+	UNIQUE (ChoreID, StartDate),
+	FOREIGN KEY (ChoreID) REFERENCES Chores(ChoreID),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
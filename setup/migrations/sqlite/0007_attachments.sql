@@ -0,0 +1,15 @@
+/* SQLite version of mariadb/0007_attachments.sql */
+
+/* Create Attachments table (receipt files stored on disk for purchases) */
+CREATE TABLE IF NOT EXISTS Attachments (
+	AttachID BLOB NOT NULL,
+	PID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	FileName VARCHAR(100) NOT NULL COLLATE NOCASE,
+	MimeType VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Size INTEGER NOT NULL,
+	Uploaded TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (AttachID),
+	FOREIGN KEY (PID) REFERENCES Purchases(PID) ON DELETE CASCADE,
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
@@ -0,0 +1,8 @@
+/* SQLite version of mariadb/0008_group_roles.sql */
+
+ALTER TABLE Memberships ADD COLUMN Role TEXT NOT NULL DEFAULT 'member' CHECK (Role IN ('owner','admin','member'));
+
+/* Groups made before roles were added are owned by the members that joined them first */
+UPDATE Memberships SET Role = 'owner'
+WHERE LeftGroup IS NULL
+AND JoinedGroup = (SELECT MIN(First.JoinedGroup) FROM Memberships AS First WHERE First.GID = Memberships.GID AND First.LeftGroup IS NULL);
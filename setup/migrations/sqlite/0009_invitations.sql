@@ -0,0 +1,49 @@
+/* SQLite version of mariadb/0009_invitations.sql */
+
+/* Create Invites table (invite codes generated by group admins) */
+CREATE TABLE IF NOT EXISTS Invites (
+	InviteID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	Code CHAR(10) NOT NULL COLLATE NOCASE,
+	CreatedBy BLOB NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	Expires DATETIME NOT NULL,
+	MaxUses INTEGER,
+	Uses INTEGER NOT NULL DEFAULT 0,
+	Revoked BOOLEAN NOT NULL DEFAULT 0,
+	PRIMARY KEY (InviteID),
+	UNIQUE (Code),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (CreatedBy) REFERENCES Users(UID)
+);
+
+/* Create Invitations table (invitations sent by group admins to specific users) */
+CREATE TABLE IF NOT EXISTS Invitations (
+	InvitationID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	InvitedBy BLOB NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	Status TEXT NOT NULL DEFAULT 'pending' CHECK (Status IN ('pending','accepted','declined','cancelled')),
+	Responded DATETIME,
+	PRIMARY KEY (InvitationID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (InvitedBy) REFERENCES Users(UID)
+);
+
+/* Create Join Requests table (requests to join a group awaiting an admin's decision) */
+CREATE TABLE IF NOT EXISTS JoinRequests (
+	RequestID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	Message VARCHAR(255) COLLATE NOCASE,
+	Requested TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	Status TEXT NOT NULL DEFAULT 'pending' CHECK (Status IN ('pending','approved','rejected','cancelled')),
+	DecidedBy BLOB,
+	Decided DATETIME,
+	PRIMARY KEY (RequestID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (UID) REFERENCES Users(UID),
+	FOREIGN KEY (DecidedBy) REFERENCES Users(UID)
+);
@@ -0,0 +1,16 @@
+/* SQLite version of mariadb/0010_email_verification.sql */
+
+ALTER TABLE Users ADD COLUMN EmailVerified BOOLEAN NOT NULL DEFAULT 0;
+
+/* Create User Tokens table (hashed single-use tokens for password resets and email verification) */
+CREATE TABLE IF NOT EXISTS UserTokens (
+	TokenHash CHAR(64) NOT NULL COLLATE NOCASE,
+	UID BLOB NOT NULL,
+	Purpose TEXT NOT NULL CHECK (Purpose IN ('reset','verify')),
+	Email VARCHAR(60) NOT NULL COLLATE NOCASE,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	Expires DATETIME NOT NULL,
+	Used DATETIME,
+	PRIMARY KEY (TokenHash),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
@@ -0,0 +1,3 @@
+/* SQLite version of mariadb/0011_login_lockout.sql */
+
+ALTER TABLE Users ADD COLUMN LockedUntil DATETIME;
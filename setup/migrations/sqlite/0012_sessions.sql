@@ -0,0 +1,23 @@
+/* SQLite version of mariadb/0012_sessions.sql */
+/* SQLite cannot add a column with a default of the current time, so Sessions is copied into a new table */
+
+CREATE TABLE SessionsWithIDs (
+	Token BLOB NOT NULL,
+	SessionID BLOB NOT NULL,
+	UID BLOB NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	Expires DATETIME NOT NULL DEFAULT (datetime('now', 'localtime', '+1 month')),
+	Active BOOLEAN NOT NULL DEFAULT 1,
+	LastSeen DATETIME,
+	IP VARCHAR(45) COLLATE NOCASE,
+	UserAgent VARCHAR(255) COLLATE NOCASE,
+	PRIMARY KEY (Token),
+	FOREIGN KEY (UID) REFERENCES Users(UID)
+);
+
+/* Sessions made before IDs were added get one each */
+INSERT INTO SessionsWithIDs (Token, SessionID, UID, Expires, Active) SELECT Token, ID_TO_BIN(UUID()), UID, Expires, Active FROM Sessions;
+DROP TABLE Sessions;
+ALTER TABLE SessionsWithIDs RENAME TO Sessions;
+
+CREATE INDEX IF NOT EXISTS SessionsSessionID ON Sessions (SessionID);
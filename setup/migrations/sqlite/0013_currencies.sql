@@ -0,0 +1,20 @@
+/* SQLite version of mariadb/0013_currencies.sql, CONVERT_AMOUNT is registered by src/storage.ts */
+
+ALTER TABLE Groups ADD COLUMN Currency CHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE Purchases ADD COLUMN Currency CHAR(3) NOT NULL DEFAULT 'USD';
+
+/* Create Exchange Rates table (value of one unit of a currency in a group's currency from a date on) */
+CREATE TABLE IF NOT EXISTS ExchangeRates (
+	RateID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	FromCurrency CHAR(3) NOT NULL,
+	ToCurrency CHAR(3) NOT NULL,
+	EffectiveDate DATE NOT NULL,
+	Rate DECIMAL(18,8) NOT NULL,
+	CreatedBy BLOB NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (RateID),
+	UNIQUE (GID, FromCurrency, ToCurrency, EffectiveDate),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (CreatedBy) REFERENCES Users(UID)
+);
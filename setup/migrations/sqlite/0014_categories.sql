@@ -0,0 +1,26 @@
+/* SQLite version of mariadb/0014_categories.sql */
+
+/* Create Categories table (group-defined purchase categories, budgets are in the group's currency) */
+CREATE TABLE IF NOT EXISTS Categories (
+	CategoryID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	Name VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Budget DECIMAL(10,2),
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (CategoryID),
+	UNIQUE (GID, Name),
+	FOREIGN KEY (GID) REFERENCES Groups(GID)
+);
+
+/* Create Category Rules table (stores whose purchases are put in a category) */
+CREATE TABLE IF NOT EXISTS CategoryRules (
+	RuleID BLOB NOT NULL,
+	CategoryID BLOB NOT NULL,
+	Pattern VARCHAR(30) NOT NULL COLLATE NOCASE,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (RuleID),
+	UNIQUE (CategoryID, Pattern),
+	FOREIGN KEY (CategoryID) REFERENCES Categories(CategoryID) ON DELETE CASCADE
+);
+
+ALTER TABLE Purchases ADD COLUMN CategoryID BLOB REFERENCES Categories(CategoryID) ON DELETE SET NULL;
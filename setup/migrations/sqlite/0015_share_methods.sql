@@ -0,0 +1,3 @@
+/* SQLite version of mariadb/0015_share_methods.sql */
+
+ALTER TABLE Groups ADD COLUMN ShareMethod TEXT NOT NULL DEFAULT 'even' CHECK (ShareMethod IN ('even','prorated'));
@@ -0,0 +1,35 @@
+/* SQLite version of mariadb/0016_webhooks.sql */
+
+/* Create Webhooks table (URLs notified of a group's events, signed with a shared secret) */
+CREATE TABLE IF NOT EXISTS Webhooks (
+	WebhookID BLOB NOT NULL,
+	GID BLOB NOT NULL,
+	URL VARCHAR(2048) NOT NULL,
+	Events VARCHAR(255) NOT NULL,
+	Secret CHAR(64) NOT NULL,
+	Active BOOLEAN NOT NULL DEFAULT 1,
+	CreatedBy BLOB NOT NULL,
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (WebhookID),
+	FOREIGN KEY (GID) REFERENCES Groups(GID),
+	FOREIGN KEY (CreatedBy) REFERENCES Users(UID)
+);
+
+/* Create Webhook Deliveries table (queue and log of the events sent to each webhook) */
+CREATE TABLE IF NOT EXISTS WebhookDeliveries (
+	DeliveryID BLOB NOT NULL,
+	WebhookID BLOB NOT NULL,
+	Event VARCHAR(32) NOT NULL,
+	Payload TEXT NOT NULL,
+	Status TEXT NOT NULL DEFAULT 'pending' CHECK (Status IN ('pending','delivered','failed')),
+	Attempts INTEGER NOT NULL DEFAULT 0,
+	NextAttempt DATETIME NOT NULL DEFAULT (datetime('now', 'localtime')),
+	LastAttempt DATETIME,
+	ResponseStatus INTEGER,
+	Error VARCHAR(255),
+	Created TIMESTAMP NOT NULL DEFAULT (datetime('now', 'localtime')),
+	PRIMARY KEY (DeliveryID),
+	FOREIGN KEY (WebhookID) REFERENCES Webhooks(WebhookID) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS WebhookDeliveriesDue ON WebhookDeliveries (Status, NextAttempt);
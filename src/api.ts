@@ -1,5 +1,19 @@
-import { Client, bcrypt } from "../deps.ts";
-import { InputError } from "./security.ts";
+import { bcrypt } from "../deps.ts";
+import { Storage } from "./storage.ts";
+import { InputError, AuthenticationError, AuthorizationError, RateLimitError, parseDate, generateInviteCode, generateSecret, hashSecret, lockoutDuration, describeWait } from "./security.ts";
+import { SplitRule, allocateSplit } from "./splits.ts";
+import { Transfer, ShareMethods, planTransfers } from "./settle.ts";
+import { budgetForRange, reachedThreshold, matchCategory } from "./budgets.ts";
+import { Schedule, validateSchedule, occurrencesBetween } from "./recurring.ts";
+import { ChoreCadences, nextInRotation, assignmentDueDate } from "./chores.ts";
+import { StatementRow, RateRow, toStoreName } from "./import.ts";
+import { Ledger } from "./export.ts";
+import { WebhookSettings, MaxDeliveryAttempts, validateWebhookURL, validateWebhookEvents, retryDelay, sendWebhook } from "./webhooks.ts";
+import { LiveUpdates, SettlementEvents } from "./live.ts";
+import { TransactionTypes, TransactionSorts, MaxPageSize, encodeCursor, decodeCursor } from "./transactions.ts";
+import { RollingWindow, TopStoreCount, MaxStatsMonths, monthsBetween, rollingAverages, changeFrom } from "./stats.ts";
+import { AttachmentStore, MaxAttachmentsPerPurchase } from "./attachments.ts";
+import { Mailer } from "./mailer.ts";
 
 interface FullUser {
     uname: string,
@@ -8,14 +22,16 @@ interface FullUser {
     dateJoined: Date,
     firstName: string,
     lastName: string,
-    email: string
+    email: string,
+    emailVerified: boolean
 }
 
 interface BriefUser {
     uname: string,
     firstName: string,
     lastName: string,
-    joinedGroup: Date
+    joinedGroup: Date,
+    role: string
 }
 
 interface Incentive {
@@ -28,13 +44,88 @@ interface Incentive {
 }
 
 interface Transaction {
+    id: string,
     type: string,
     date: Date,
     uname: string,
     incentiveName: string,
     amount: number,
+    originalAmount: number,
+    currency: string,
     store: string,
-    notes: string
+    categoryID: string | null,
+    category: string | null,
+    notes: string,
+    splitMethod: string | null,
+    edited: boolean,
+    attachments: Array<Attachment>
+}
+
+interface TransactionFilter {
+    from?: Date,
+    to?: Date,
+    members?: Array<string>,
+    type?: string,
+    store?: string,
+    minAmount?: number,
+    maxAmount?: number,
+    notes?: string,
+    sort?: string,
+    order?: string,
+    limit?: number,
+    cursor?: string
+}
+
+interface TransactionPage {
+    records: Array<Transaction>,
+    nextCursor: string | null
+}
+
+interface Attachment {
+    attachmentID: string,
+    purchaseID: string,
+    groupID: string,
+    uname: string,
+    fileName: string,
+    mimeType: string,
+    size: number,
+    uploaded: Date
+}
+
+interface PurchaseRecord {
+    purchaseID: string,
+    groupID: string,
+    uname: string,
+    date: Date,
+    store: string,
+    amount: number,
+    currency: string,
+    categoryID: string | null,
+    notes: string,
+    voided: boolean,
+    split: SplitRule | null,
+    allocations: Array<{ uname: string, amount: number }>
+}
+
+interface IncentiveRecord {
+    recordID: string,
+    groupID: string,
+    uname: string,
+    incentiveID: string,
+    date: Date,
+    notes: string,
+    voided: boolean
+}
+
+interface Revision {
+    revisionID: string,
+    recordID: string,
+    recordType: string,
+    uname: string,
+    action: string,
+    changed: Date,
+    oldValue: any,
+    newValue: any
 }
 
 interface Settlement {
@@ -44,9 +135,102 @@ interface Settlement {
     totalIncentives: number,
     countIncentives: number,
     totalContribution: number,
+    daysActive: number,
+    share: number,
+    penalties: number,
+    carriedForward: number,
+    paymentsSent: number,
+    paymentsReceived: number,
     owes: number
 }
 
+interface Payment {
+    paymentID: string,
+    from: string,
+    to: string,
+    amount: number,
+    date: Date,
+    notes: string,
+    recordedBy: string
+}
+
+interface ExchangeRate {
+    rateID: string,
+    groupID: string,
+    fromCurrency: string,
+    toCurrency: string,
+    effectiveDate: Date,
+    rate: number,
+    createdBy: string
+}
+
+interface RateImportResult {
+    row: number,
+    rateID: string | null,
+    error: { type: string, title: string, message: string } | null
+}
+
+interface Category {
+    categoryID: string,
+    name: string,
+    budget: number | null,
+    rules: Array<{ ruleID: string, pattern: string }>
+}
+
+interface CategoryTotal {
+    categoryID: string | null,
+    name: string | null,
+    total: number,
+    budget: number | null,
+    threshold: number | null
+}
+
+interface BudgetWarning {
+    groupID: string,
+    categoryID: string,
+    name: string,
+    month: string,
+    total: number,
+    budget: number,
+    threshold: number
+}
+
+interface Webhook {
+    webhookID: string,
+    groupID: string,
+    url: string,
+    events: Array<string>,
+    active: boolean,
+    createdBy: string,
+    created: Date
+}
+
+interface WebhookDelivery {
+    deliveryID: string,
+    webhookID: string,
+    event: string,
+    payload: string,
+    status: string,
+    attempts: number,
+    nextAttempt: Date,
+    lastAttempt: Date | null,
+    responseStatus: number | null,
+    error: string | null,
+    created: Date
+}
+
+interface ClosedPeriod {
+    periodID: string,
+    periodFrom: Date,
+    periodTo: Date,
+    closedBy: string,
+    closed: Date,
+    reopened: Date | null,
+    reopenedBy: string | null,
+    settlements: Array<Settlement>,
+    transfers: Array<Transfer>
+}
+
 interface GroupTransactions {
     periodFrom: Date,
     periodTo: Date,
@@ -57,7 +241,115 @@ interface GroupTransactions {
     total: number,
     countRecords: number,
     records: Array<Transaction>,
-    settlements: Array<Settlement>
+    categories: Array<CategoryTotal>,
+    payments: Array<Payment>,
+    settlements: Array<Settlement>,
+    transfers: Array<Transfer>
+}
+
+interface SettlementPlan {
+    periodFrom: Date,
+    periodTo: Date,
+    settlements: Array<Settlement>,
+    transfers: Array<Transfer>
+}
+
+interface MonthStats {
+    month: string,
+    from: Date,
+    to: Date,
+    total: number,
+    change: number | null,
+    rollingAverage: number
+}
+
+interface MemberStats {
+    uname: string,
+    totalPurchases: number,
+    totalIncentives: number,
+    countIncentives: number,
+    totalContribution: number,
+    history: Array<{ month: string, totalPurchases: number, totalIncentives: number, countIncentives: number, totalContribution: number }>
+}
+
+interface StoreStats {
+    store: string,
+    total: number,
+    countPurchases: number
+}
+
+interface IncentiveStats {
+    incentiveID: string,
+    incentiveName: string,
+    total: number,
+    countIncentives: number
+}
+
+interface GroupStats {
+    periodFrom: Date,
+    periodTo: Date,
+    total: number,
+    months: Array<MonthStats>,
+    members: Array<MemberStats>,
+    categories: Array<CategoryTotal>,
+    stores: Array<StoreStats>,
+    incentives: Array<IncentiveStats>
+}
+
+interface RecurringExpense {
+    recurringID: string,
+    groupID: string,
+    uname: string,
+    amount: number,
+    store: string,
+    notes: string,
+    cadence: string,
+    every: number,
+    dayOfMonth: number | null,
+    startDate: Date,
+    endDate: Date | null,
+    lastPosted: Date | null
+}
+
+interface Chore {
+    choreID: string,
+    incentiveID: string,
+    incentiveName: string,
+    amount: number,
+    cadence: string,
+    every: number,
+    startDate: Date,
+    penalty: number,
+    active: boolean
+}
+
+interface ChoreAssignment {
+    assignmentID: string,
+    choreID: string,
+    incentiveName: string,
+    uname: string,
+    startDate: Date,
+    dueDate: Date,
+    completed: Date | null,
+    recordID: string | null,
+    missed: boolean,
+    penalty: number
+}
+
+interface ImportCandidate {
+    row: number,
+    date: string,
+    amount: number,
+    store: string,
+    notes: string,
+    credit: boolean,
+    duplicate: boolean
+}
+
+interface ImportResult {
+    row: number,
+    purchaseID: string | null,
+    error: { type: string, title: string, message: string } | null
 }
 
 interface Group {
@@ -66,31 +358,119 @@ interface Group {
     created: Date,
     description: string,
     status: string,
+    currency: string,
+    shareMethod: string,
     maxMembers: number,
     countMembers: number,
     members: Array<BriefUser>,
     countIncentivesAvailable: number,
     incentivesAvailable: Array<Incentive>,
+    countRecurringExpenses: number,
+    recurringExpenses: Array<RecurringExpense>,
+    countChores: number,
+    chores: Array<Chore>,
     transactions: GroupTransactions
 }
 
+interface Session {
+    sessionID: string,
+    created: Date,
+    expires: Date,
+    lastSeen: Date | null,
+    ip: string | null,
+    userAgent: string | null,
+    current: boolean
+}
+
+interface Invite {
+    inviteID: string,
+    groupID: string,
+    code: string,
+    createdBy: string,
+    created: Date,
+    expires: Date,
+    maxUses: number | null,
+    uses: number,
+    revoked: boolean
+}
+
+interface Invitation {
+    invitationID: string,
+    groupID: string,
+    groupName: string,
+    uname: string,
+    invitedBy: string,
+    created: Date,
+    status: string
+}
+
+interface JoinRequest {
+    requestID: string,
+    groupID: string,
+    groupName: string,
+    uname: string,
+    firstName: string,
+    lastName: string,
+    message: string,
+    requested: Date,
+    status: string
+}
+
 interface Dashboard {
     user: FullUser,
     memberships: number,
-    groups: Array<Group>
+    groups: Array<Group>,
+    invitations: Array<Invitation>,
+    joinRequests: Array<JoinRequest>,
+    budgetWarnings: Array<BudgetWarning>
+}
+
+/**
+ * Formats a date as YYYY-MM-DD (local time) for use as a DATE query parameter
+ */
+function toSQLDate(date: Date): string {
+    return `${ date.getFullYear() }-${ String(date.getMonth() + 1).padStart(2, '0') }-${ String(date.getDate()).padStart(2, '0') }`;
+}
+
+/**
+ * Converts a DATE column value, which the drivers read as UTC midnight, to the same day at local midnight
+ */
+function fromSQLDate(value: Date | string): Date {
+    return parseDate(new Date(value).toISOString().split('T')[0]);
+}
+
+/**
+ * Rounds a currency value to whole cents
+ */
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
 }
 
 export class API {
-    private client: Client;
+    private client: Storage;
+    private attachments: AttachmentStore;
+    private mailer: Mailer;
+    private live: LiveUpdates;
+    private webhooks: WebhookSettings;
 
-    private constructor(client: Client) {
+    private constructor(client: Storage, attachments: AttachmentStore, mailer: Mailer, webhooks: WebhookSettings) {
         this.client = client;
+        this.attachments = attachments;
+        this.mailer = mailer;
+        this.live = new LiveUpdates();
+        this.webhooks = webhooks;
     }
 
-    public static async connect(credentials: { hostname: string, db: string, username: string, password: string }): Promise<API> {
-        return await new Client().connect(credentials).then(async client => {
-            return new API(client);
-        });
+    /**
+     * Creates an API instance on a database opened with openStorage, the database must be fully migrated
+     * @param storage Database backend selected in preferences.json
+     * @param attachments Store for receipt files
+     * @param mailer Mailer used for account emails
+     * @param webhooks Settings for delivering webhooks
+     * @returns API instance
+     */
+    public static async connect(storage: Storage, attachments: AttachmentStore, mailer: Mailer, webhooks: WebhookSettings = {}): Promise<API> {
+        return new API(storage, attachments, mailer, webhooks);
     }
 
     /* Getter Methods */
@@ -101,8 +481,10 @@ export class API {
      * @returns Promise of an object with containing all relevant information about a user
      */
     public async getFullUser(sessionToken: string): Promise<FullUser> {
-        return await this.client.query('SELECT Users.Uname AS uname, BIN_TO_ID(Sessions.Token) AS sessionToken, Sessions.Expires AS tokenExpires, Users.DateJoined AS dateJoined, Users.Fname AS firstName, Users.Lname AS lastName, Users.Email AS email FROM Users RIGHT JOIN Sessions ON Users.UID = Sessions.UID WHERE Sessions.Token = ID_TO_BIN(?) AND Sessions.Active = 1 AND Sessions.Expires > NOW() LIMIT 1;', [sessionToken]).then(async res => {
-            if(res.length == 0) throw new InputError('Invalid Session Token', `'${sessionToken}' is expired or does not exist.`, sessionToken);
+        return await this.client.query('SELECT Users.Uname AS uname, BIN_TO_ID(Sessions.Token) AS sessionToken, Sessions.Expires AS tokenExpires, Users.DateJoined AS dateJoined, Users.Fname AS firstName, Users.Lname AS lastName, Users.Email AS email, Users.EmailVerified AS emailVerified FROM Users RIGHT JOIN Sessions ON Users.UID = Sessions.UID WHERE Sessions.Token = ID_TO_BIN(?) AND Sessions.Active = 1 AND Sessions.Expires > NOW() LIMIT 1;', [sessionToken]).then(async res => {
+            if(res.length == 0) throw new AuthenticationError('Invalid Session Token', `'${sessionToken}' is expired or does not exist.`, sessionToken);
+            res[0].emailVerified = Boolean(res[0].emailVerified);
+            await this.touchSession(sessionToken);
             return await res[0];
         });
     }
@@ -113,7 +495,7 @@ export class API {
      * @returns Promise of an array containing username, firstname, lastname, and joined date of each user in group
      */
     public async listGroupMembers(groupID: string): Promise<Array<BriefUser>> {
-        return await this.client.query('SELECT Users.Uname AS uname, Users.Fname AS firstName, Users.Lname AS lastName, Memberships.JoinedGroup AS joinedGroup FROM Memberships RIGHT JOIN Users ON Memberships.UID = Users.UID WHERE Memberships.GID = ID_TO_BIN(?) AND Memberships.LeftGroup IS NULL;', [groupID]);
+        return await this.client.query('SELECT Users.Uname AS uname, Users.Fname AS firstName, Users.Lname AS lastName, Memberships.JoinedGroup AS joinedGroup, Memberships.Role AS role FROM Memberships RIGHT JOIN Users ON Memberships.UID = Users.UID WHERE Memberships.GID = ID_TO_BIN(?) AND Memberships.LeftGroup IS NULL;', [groupID]);
     }
 
     /**
@@ -134,6 +516,7 @@ export class API {
 
     /**
      * Queries the database for every purchase and incentive performed in a specified group within a specified date range
+     * Amounts are in the group's currency, originalAmount and currency hold what a purchase was logged as
      * @param groupID Unique group ID of requested group
      * @param fromDate List transactions from date
      * @param toDate List transactions until date
@@ -141,65 +524,267 @@ export class API {
      */
     public async getTransactionRecords(groupID: string, fromDate: Date, toDate: Date): Promise<Array<Transaction>> {
         // Large query splitting up over multiple lines
-        return await this.client.query(`SELECT 'purchase' AS type, Purchases.Date AS date, Users.Uname AS uname, NULL AS incentiveName, Purchases.Amount AS amount, Purchases.Store AS store, Purchases.Notes AS notes
+        return await this.client.query(`SELECT BIN_TO_ID(Purchases.PID) AS id, 'purchase' AS type, Purchases.Date AS date, Users.Uname AS uname, NULL AS incentiveName, CONVERT_AMOUNT(Purchases.GID, Purchases.Amount, Purchases.Currency, Purchases.Date) AS amount, Purchases.Amount AS originalAmount, Purchases.Currency AS currency, Purchases.Store AS store, BIN_TO_ID(Purchases.CategoryID) AS categoryID, Categories.Name AS category, Purchases.Notes AS notes, Purchases.SplitMethod AS splitMethod, EXISTS(SELECT * FROM Revisions WHERE Revisions.RecordID = Purchases.PID) AS edited
         FROM Purchases
         LEFT JOIN Users ON Purchases.UID = Users.UID
+        LEFT JOIN Categories ON Purchases.CategoryID = Categories.CategoryID
         WHERE Purchases.GID = ID_TO_BIN(?)
+        AND Purchases.Voided = 0
         AND Purchases.Date BETWEEN ? AND ?
         UNION ALL
-        SELECT 'incentive' AS type, Incentives.Date AS date, Users.Uname AS uname, IncentivesAvailable.Name AS incentiveName, IncentivesAvailable.Amount AS amount, NULL AS store, Incentives.Notes AS notes
+        SELECT BIN_TO_ID(Incentives.RID) AS id, 'incentive' AS type, Incentives.Date AS date, Users.Uname AS uname, IncentivesAvailable.Name AS incentiveName, IncentivesAvailable.Amount AS amount, IncentivesAvailable.Amount AS originalAmount, (SELECT Currency FROM Groups WHERE Groups.GID = IncentivesAvailable.GID) AS currency, NULL AS store, NULL AS categoryID, NULL AS category, Incentives.Notes AS notes, NULL AS splitMethod, EXISTS(SELECT * FROM Revisions WHERE Revisions.RecordID = Incentives.RID) AS edited
         FROM Incentives
         LEFT JOIN Users ON Incentives.UID = Users.UID
         RIGHT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID
         WHERE IncentivesAvailable.GID = ID_TO_BIN(?)
-        AND Incentives.Date BETWEEN '2022-03-01' AND '2022-04-02'
-        ORDER BY date;`, [groupID, fromDate.toISOString(), toDate.toISOString(), groupID, fromDate.toISOString(), toDate.toISOString()]).then(async res => {
-            // Reformatting output of property amount to number
+        AND Incentives.Voided = 0
+        AND Incentives.Date BETWEEN ? AND ?
+        ORDER BY date;`, [groupID, toSQLDate(fromDate), toSQLDate(toDate), groupID, toSQLDate(fromDate), toSQLDate(toDate)]).then(async res => {
+            const attachments = await this.listGroupAttachments(groupID, fromDate, toDate);
+
+            // Reformatting output of property amount to number and edited to boolean
             return await res.map((x: any) => {
                 x.amount = Number(x.amount);
+                x.originalAmount = Number(x.originalAmount);
+                x.edited = Boolean(x.edited);
+                x.attachments = (x.type == 'purchase') ? attachments.filter(a => a.purchaseID == x.id) : [];
                 return x;
             });
         })
     }
 
+    /**
+     * Queries the database for one page of a group's purchases and incentives, filtered and sorted as requested
+     * Amounts are in the group's currency and the amount filters apply to the converted amount
+     * @param groupID Unique group ID of requested group
+     * @param filter Date range, members, type, store text, amount range and notes text to filter by, the sort and the page to return (the nextCursor of the previous page)
+     * @returns Promise of the page of transactions and the cursor of the next page, null on the last page
+     */
+    public async listTransactions(groupID: string, filter: TransactionFilter): Promise<TransactionPage> {
+        const sort = filter.sort ?? 'date';
+        const order = filter.order ?? 'desc';
+        const limit = filter.limit ?? 50;
+        if(!TransactionSorts.includes(sort)) throw new InputError('Invalid Sort', `"${ sort }" is not a transaction sort, must be one of ${ TransactionSorts.join(', ') }.`, sort);
+        if(order != 'asc' && order != 'desc') throw new InputError('Invalid Order', 'Transactions can only be sorted in asc or desc order.', order);
+        if(!Number.isInteger(limit) || limit < 1 || limit > MaxPageSize) throw new InputError('Invalid Page Size', `Pages can hold 1 to ${ MaxPageSize } transactions.`, String(limit));
+        if(typeof filter.type !== 'undefined' && !TransactionTypes.includes(filter.type)) throw new InputError('Invalid Transaction Type', `"${ filter.type }" is not a transaction type, must be purchase or incentive.`, filter.type);
+        if(typeof filter.from !== 'undefined' && typeof filter.to !== 'undefined' && filter.from > filter.to) throw new InputError('Invalid Date Range', 'The start of the range must be before its end.', `${ toSQLDate(filter.from) } -> ${ toSQLDate(filter.to) }`);
+        for(const amount of [filter.minAmount, filter.maxAmount]) {
+            if(typeof amount !== 'undefined' && isNaN(amount)) throw new InputError('Invalid Amount', 'Amount filters must be numbers.', String(amount));
+        }
+
+        // every condition is built from a fixed list of expressions, values are only ever passed as parameters
+        const columns: Record<string, string> = { date: 'T.date', amount: 'T.amount', store: "IFNULL(T.store, '')", member: 'T.uname' };
+        const column = columns[sort];
+        const conditions: Array<string> = [];
+        const params: Array<unknown> = [groupID, groupID];
+        if(typeof filter.from !== 'undefined') {
+            conditions.push('T.date >= ?');
+            params.push(toSQLDate(filter.from));
+        }
+        if(typeof filter.to !== 'undefined') {
+            conditions.push('T.date <= ?');
+            params.push(toSQLDate(filter.to));
+        }
+        if(typeof filter.members !== 'undefined' && filter.members.length > 0) {
+            conditions.push(`T.uname IN (${ filter.members.map(() => '?').join(', ') })`);
+            params.push(...filter.members);
+        }
+        if(typeof filter.type !== 'undefined') {
+            conditions.push('T.type = ?');
+            params.push(filter.type);
+        }
+        if(typeof filter.store !== 'undefined' && filter.store != '') {
+            conditions.push('INSTR(LOWER(T.store), LOWER(?)) > 0');
+            params.push(filter.store);
+        }
+        if(typeof filter.notes !== 'undefined' && filter.notes != '') {
+            conditions.push('INSTR(LOWER(T.notes), LOWER(?)) > 0');
+            params.push(filter.notes);
+        }
+        if(typeof filter.minAmount !== 'undefined') {
+            conditions.push('T.amount >= ?');
+            params.push(filter.minAmount);
+        }
+        if(typeof filter.maxAmount !== 'undefined') {
+            conditions.push('T.amount <= ?');
+            params.push(filter.maxAmount);
+        }
+        if(typeof filter.cursor !== 'undefined' && filter.cursor != '') {
+            const cursor = decodeCursor(filter.cursor, sort, order);
+            const after = (order == 'asc') ? '>' : '<';
+            conditions.push(`(${ column } ${ after } ? OR (${ column } = ? AND T.id ${ after } ?))`);
+            params.push(cursor.value, cursor.value, cursor.id);
+        }
+        params.push(limit + 1);
+
+        // Large query splitting up over multiple lines
+        const rows = await this.client.query(`SELECT T.* FROM (
+            SELECT BIN_TO_ID(Purchases.PID) AS id, 'purchase' AS type, Purchases.Date AS date, Users.Uname AS uname, NULL AS incentiveName, CONVERT_AMOUNT(Purchases.GID, Purchases.Amount, Purchases.Currency, Purchases.Date) AS amount, Purchases.Amount AS originalAmount, Purchases.Currency AS currency, Purchases.Store AS store, BIN_TO_ID(Purchases.CategoryID) AS categoryID, Categories.Name AS category, Purchases.Notes AS notes, Purchases.SplitMethod AS splitMethod, EXISTS(SELECT * FROM Revisions WHERE Revisions.RecordID = Purchases.PID) AS edited
+            FROM Purchases
+            LEFT JOIN Users ON Purchases.UID = Users.UID
+            LEFT JOIN Categories ON Purchases.CategoryID = Categories.CategoryID
+            WHERE Purchases.GID = ID_TO_BIN(?)
+            AND Purchases.Voided = 0
+            UNION ALL
+            SELECT BIN_TO_ID(Incentives.RID) AS id, 'incentive' AS type, Incentives.Date AS date, Users.Uname AS uname, IncentivesAvailable.Name AS incentiveName, IncentivesAvailable.Amount AS amount, IncentivesAvailable.Amount AS originalAmount, (SELECT Currency FROM Groups WHERE Groups.GID = IncentivesAvailable.GID) AS currency, NULL AS store, NULL AS categoryID, NULL AS category, Incentives.Notes AS notes, NULL AS splitMethod, EXISTS(SELECT * FROM Revisions WHERE Revisions.RecordID = Incentives.RID) AS edited
+            FROM Incentives
+            LEFT JOIN Users ON Incentives.UID = Users.UID
+            INNER JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID
+            WHERE IncentivesAvailable.GID = ID_TO_BIN(?)
+            AND Incentives.Voided = 0
+        ) AS T
+        ${ (conditions.length > 0) ? `WHERE ${ conditions.join(' AND ') }` : '' }
+        ORDER BY ${ column } ${ order.toUpperCase() }, T.id ${ order.toUpperCase() }
+        LIMIT ?;`, params);
+
+        const records: Array<Transaction> = await rows.slice(0, limit).map((x: any) => {
+            x.amount = Number(x.amount);
+            x.originalAmount = Number(x.originalAmount);
+            x.edited = Boolean(x.edited);
+            x.attachments = [];
+            return x;
+        });
+
+        // attachments are looked up for the dates the page covers
+        const purchases = records.filter(x => x.type == 'purchase');
+        if(purchases.length > 0) {
+            const dates = purchases.map(x => new Date(x.date).getTime());
+            const attachments = await this.listGroupAttachments(groupID, new Date(Math.min(...dates)), new Date(Math.max(...dates)));
+            purchases.forEach(x => x.attachments = attachments.filter(a => a.purchaseID == x.id));
+        }
+
+        const last = records.at(-1);
+        const values: Record<string, string | number> = (typeof last === 'undefined') ? {} : { date: new Date(last.date).toISOString().split('T')[0], amount: last.amount, store: last.store ?? '', member: last.uname };
+        return {
+            records: records,
+            nextCursor: (rows.length > limit && typeof last !== 'undefined') ? encodeCursor({ sort: sort, order: order, value: values[sort], id: last.id }) : null
+        };
+    }
+
     /**
      * Calculates total putchases, incentives, and amount owed by each group member within a specified time range
+     * Purchases without a split and all incentives are shared by the members of the group during the range, split purchases are charged to the members they were allocated to
+     * Groups sharing evenly charge every member the same, prorated groups charge each member for the share of all members' active days (JoinedGroup to LeftGroup) that were theirs
+     * Members that left during the range are still settled for the days they were active
+     * Purchases logged in another currency are converted to the group's currency with the exchange rate in effect on the purchase date
+     * Balances left over from the last closed period before the range and payments made within the range are included in what each member owes
+     * Penalties for missed chores are charged to the member that missed them and shared out evenly like a negative expense
      * @param groupID Unique group ID of requested group
      * @param fromDate Sum transactions from date
      * @param toDate Sum transactions until date
      * @returns Promise of array containing sum of purchases, incentives, and amount awed by each group member
      */
     public async calculateSettlements(groupID: string, fromDate: Date, toDate: Date): Promise<Array<Settlement>> {
+        const from = toSQLDate(fromDate);
+        const to = toSQLDate(toDate);
+
         return await Promise.all([
-            this.client.query(`SELECT Users.Uname AS uname, IFNULL(SUM(Purchases.Amount), 0) AS totalPurchases, COUNT(Purchases.Amount) AS countPurchases, CALC_SHARE(ID_TO_BIN(?), STR_TO_DATE(?, '%m/%d/%Y'), STR_TO_DATE(?, '%m/%d/%Y')) AS groupShare
+            this.client.query(`SELECT Users.Uname AS uname, SUM(DATEDIFF(
+                CASE WHEN Memberships.LeftGroup IS NULL OR Memberships.LeftGroup > ? THEN ? ELSE Memberships.LeftGroup END,
+                CASE WHEN Memberships.JoinedGroup < ? THEN ? ELSE Memberships.JoinedGroup END
+            ) + 1) AS days
             FROM Memberships
             LEFT JOIN Users ON Memberships.UID = Users.UID
-            LEFT JOIN Purchases ON Users.UID = Purchases.UID
             WHERE Memberships.GID = ID_TO_BIN(?)
-            AND (Purchases.Date BETWEEN STR_TO_DATE(?, '%m/%d/%Y') AND STR_TO_DATE(?, '%m/%d/%Y') OR Purchases.Date IS NULL)
-            GROUP BY Users.Uname
-            ORDER BY Users.Uname ASC;`, [groupID, fromDate.toLocaleDateString(), toDate.toLocaleDateString(), groupID, fromDate.toLocaleDateString(), toDate.toLocaleDateString()]),
-            this.client.query(`SELECT Users.Uname AS uname, IFNULL(SUM(IncentivesAvailable.Amount), 0) AS totalIncentives, COUNT(Incentives.IID) AS countIncentives
-            FROM Memberships
-            LEFT JOIN Users ON Memberships.UID = Users.UID
-            LEFT JOIN Incentives ON Users.UID = Incentives.UID
+            AND Memberships.JoinedGroup <= ?
+            AND (Memberships.LeftGroup IS NULL OR Memberships.LeftGroup >= ?)
+            GROUP BY Users.Uname;`, [to, to, from, from, groupID, to, from]),
+            this.client.query(`SELECT Users.Uname AS uname, SUM(CONVERT_AMOUNT(Purchases.GID, Purchases.Amount, Purchases.Currency, Purchases.Date)) AS totalPurchases, COUNT(*) AS countPurchases
+            FROM Purchases
+            LEFT JOIN Users ON Purchases.UID = Users.UID
+            WHERE Purchases.GID = ID_TO_BIN(?)
+            AND Purchases.Voided = 0
+            AND Purchases.Date BETWEEN ? AND ?
+            GROUP BY Users.Uname;`, [groupID, from, to]),
+            this.client.query(`SELECT Users.Uname AS uname, SUM(IncentivesAvailable.Amount) AS totalIncentives, COUNT(*) AS countIncentives
+            FROM Incentives
+            LEFT JOIN Users ON Incentives.UID = Users.UID
             LEFT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID
-            WHERE Memberships.GID = ID_TO_BIN(?)
-            AND (Incentives.Date BETWEEN STR_TO_DATE(?, '%m/%d/%Y') AND STR_TO_DATE(?, '%m/%d/%Y') OR Incentives.Date IS NULL)
-            GROUP BY Users.Uname
-            ORDER BY Users.Uname ASC;`, [groupID, fromDate.toLocaleDateString(), toDate.toLocaleDateString()])
+            WHERE IncentivesAvailable.GID = ID_TO_BIN(?)
+            AND Incentives.Voided = 0
+            AND Incentives.Date BETWEEN ? AND ?
+            GROUP BY Users.Uname;`, [groupID, from, to]),
+            this.client.query(`SELECT Users.Uname AS uname, SUM(CONVERT_AMOUNT(Purchases.GID, PurchaseSplits.Amount, Purchases.Currency, Purchases.Date)) AS allocated
+            FROM PurchaseSplits
+            LEFT JOIN Purchases ON PurchaseSplits.PID = Purchases.PID
+            LEFT JOIN Users ON PurchaseSplits.UID = Users.UID
+            WHERE Purchases.GID = ID_TO_BIN(?)
+            AND Purchases.Voided = 0
+            AND Purchases.Date BETWEEN ? AND ?
+            GROUP BY Users.Uname;`, [groupID, from, to]),
+            this.client.query(`SELECT SUM_EXPENSES(ID_TO_BIN(?), ?, ?) - (
+                SELECT IFNULL(SUM(CONVERT_AMOUNT(GID, Amount, Currency, Date)), 0) FROM Purchases WHERE GID = ID_TO_BIN(?) AND Voided = 0 AND SplitMethod != 'even' AND Date BETWEEN ? AND ?
+            ) AS evenTotal, COUNT_MEMBERS(ID_TO_BIN(?), ?, ?) AS countMembers, (SELECT ShareMethod FROM Groups WHERE GID = ID_TO_BIN(?)) AS shareMethod;`, [groupID, from, to, groupID, from, to, groupID, from, to, groupID]),
+            this.client.query(`SELECT Users.Uname AS uname, SUM(CASE WHEN Payments.FromUID = Users.UID THEN Payments.Amount ELSE 0 END) AS sent, SUM(CASE WHEN Payments.ToUID = Users.UID THEN Payments.Amount ELSE 0 END) AS received
+            FROM Payments
+            JOIN Users ON Payments.FromUID = Users.UID OR Payments.ToUID = Users.UID
+            WHERE Payments.GID = ID_TO_BIN(?)
+            AND Payments.Date BETWEEN ? AND ?
+            GROUP BY Users.Uname;`, [groupID, from, to]),
+            this.client.query(`SELECT Users.Uname AS uname, PeriodBalances.Balance AS balance
+            FROM PeriodBalances
+            LEFT JOIN Users ON PeriodBalances.UID = Users.UID
+            WHERE PeriodBalances.PeriodID = (SELECT PeriodID FROM Periods WHERE GID = ID_TO_BIN(?) AND Reopened IS NULL AND PeriodTo < ? ORDER BY PeriodTo DESC LIMIT 1);`, [groupID, from]),
+            this.client.query(`SELECT Users.Uname AS uname, SUM(ChoreAssignments.Penalty) AS penalties
+            FROM ChoreAssignments
+            LEFT JOIN Chores ON ChoreAssignments.ChoreID = Chores.ChoreID
+            LEFT JOIN Users ON ChoreAssignments.UID = Users.UID
+            WHERE Chores.GID = ID_TO_BIN(?)
+            AND ChoreAssignments.Missed = 1
+            AND ChoreAssignments.Penalty > 0
+            AND ChoreAssignments.DueDate BETWEEN ? AND ?
+            GROUP BY Users.Uname;`, [groupID, from, to])
         ])
         .then(async data => {
+            // a member that left and rejoined during the range is only counted once per day
+            const rangeDays = Math.round((Date.parse(to) - Date.parse(from)) / 86400000) + 1;
+            const days = new Map<string, number>(data[0].map((x: any) => [x.uname, Math.min(Number(x.days), rangeDays)]));
+            const members: Array<string> = [...days.keys()];
+            const purchases = new Map<string, any>(data[1].map((x: any) => [x.uname, x]));
+            const incentives = new Map<string, any>(data[2].map((x: any) => [x.uname, x]));
+            const allocated = new Map<string, number>(data[3].map((x: any) => [x.uname, Number(x.allocated)]));
+            const payments = new Map<string, any>(data[5].map((x: any) => [x.uname, x]));
+            const carried = new Map<string, number>(data[6].map((x: any) => [x.uname, Number(x.balance)]));
+            const penalties = new Map<string, number>(data[7].map((x: any) => [x.uname, Number(x.penalties)]));
+            const penaltyTotal = [...penalties.values()].reduce((sum, x) => sum + x, 0);
+            const evenPool = Number(data[4][0].evenTotal) - penaltyTotal;
+            const totalDays = [...days.values()].reduce((sum, x) => sum + x, 0);
+            const evenShare = (uname: string): number => {
+                if(!days.has(uname)) return 0;
+                if(data[4][0].shareMethod == 'prorated') return (totalDays > 0) ? evenPool * days.get(uname)! / totalDays : 0;
+                return (Number(data[4][0].countMembers) > 0) ? evenPool / Number(data[4][0].countMembers) : 0;
+            }
+
+            // anyone with records or an outstanding balance in the period is settled, even if they were not a member for it
+            const unames = new Set([...members, ...purchases.keys(), ...incentives.keys(), ...allocated.keys(), ...payments.keys(), ...carried.keys(), ...penalties.keys()]);
+
             let res: Array<Settlement> = [];
-            for(let i = 0; i < data[0].length; i++) {
+            for(const uname of [...unames].sort()) {
+                const p = purchases.get(uname);
+                const i = incentives.get(uname);
+                const totalPurchases = (typeof p === 'undefined') ? 0 : Number(p.totalPurchases);
+                const totalIncentives = (typeof i === 'undefined') ? 0 : Number(i.totalIncentives);
+                const share = roundCents(evenShare(uname) + (allocated.get(uname) ?? 0));
+                const penalty = penalties.get(uname) ?? 0;
+                const carriedForward = carried.get(uname) ?? 0;
+                const paymentsSent = Number(payments.get(uname)?.sent ?? 0);
+                const paymentsReceived = Number(payments.get(uname)?.received ?? 0);
+
                 res.push({
-                    uname: String(await data[0][i].uname),
-                    totalPurchases: Number(await data[0][i].totalPurchases),
-                    countPurchases: Number(await data[0][i].countPurchases),
-                    totalIncentives: Number(await data[1][i].totalIncentives),
-                    countIncentives: Number(await data[1][i].countIncentives),
-                    totalContribution: Number(await data[0][i].totalPurchases) + Number(await data[1][i].totalIncentives),
-                    owes: Number(await data[0][0].groupShare) - (Number(await data[0][i].totalPurchases) + Number(await data[1][i].totalIncentives))
+                    uname: uname,
+                    totalPurchases: totalPurchases,
+                    countPurchases: (typeof p === 'undefined') ? 0 : Number(p.countPurchases),
+                    totalIncentives: totalIncentives,
+                    countIncentives: (typeof i === 'undefined') ? 0 : Number(i.countIncentives),
+                    totalContribution: roundCents(totalPurchases + totalIncentives),
+                    daysActive: days.get(uname) ?? 0,
+                    share: share,
+                    penalties: penalty,
+                    carriedForward: carriedForward,
+                    paymentsSent: paymentsSent,
+                    paymentsReceived: paymentsReceived,
+                    owes: roundCents(share + penalty - (totalPurchases + totalIncentives) + carriedForward - paymentsSent + paymentsReceived)
                 });
             }
             return res;
@@ -215,10 +800,12 @@ export class API {
      */
     public async getGroupTransactions(groupID: string, fromDate: Date, toDate: Date): Promise<GroupTransactions> {
         return await Promise.all([
-            this.client.query("SELECT COUNT(*) AS countPurchases, IFNULL(SUM(Amount), 0) AS purchaseTotal, SUM_EXPENSES(ID_TO_BIN(?), STR_TO_DATE(?, '%m/%d/%Y'), STR_TO_DATE(?, '%m/%d/%Y')) AS total FROM Purchases WHERE GID = ID_TO_BIN(?) AND Date BETWEEN ? AND ?;", [groupID, fromDate.toLocaleDateString(), toDate.toLocaleDateString(), groupID, fromDate.toISOString(), toDate.toISOString()]),
-            this.client.query('SELECT COUNT(*) AS countIncentives, IFNULL(SUM(IncentivesAvailable.Amount), 0) AS incentiveTotal FROM Incentives RIGHT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID WHERE IncentivesAvailable.GID = ID_TO_BIN(?) AND Incentives.Date BETWEEN ? AND ?;', [groupID, fromDate.toISOString(), toDate.toISOString()]),
+            this.client.query("SELECT COUNT(*) AS countPurchases, IFNULL(SUM(CONVERT_AMOUNT(GID, Amount, Currency, Date)), 0) AS purchaseTotal, SUM_EXPENSES(ID_TO_BIN(?), ?, ?) AS total FROM Purchases WHERE GID = ID_TO_BIN(?) AND Voided = 0 AND Date BETWEEN ? AND ?;", [groupID, toSQLDate(fromDate), toSQLDate(toDate), groupID, toSQLDate(fromDate), toSQLDate(toDate)]),
+            this.client.query('SELECT COUNT(*) AS countIncentives, IFNULL(SUM(IncentivesAvailable.Amount), 0) AS incentiveTotal FROM Incentives RIGHT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID WHERE IncentivesAvailable.GID = ID_TO_BIN(?) AND Incentives.Voided = 0 AND Incentives.Date BETWEEN ? AND ?;', [groupID, toSQLDate(fromDate), toSQLDate(toDate)]),
             this.getTransactionRecords(groupID, fromDate, toDate),
-            this.calculateSettlements(groupID, fromDate, toDate)
+            this.calculateSettlements(groupID, fromDate, toDate),
+            this.listPayments(groupID, fromDate, toDate),
+            this.getCategoryTotals(groupID, fromDate, toDate)
         ]).then(async data => {
             return {
                 periodFrom: fromDate,
@@ -230,162 +817,718 @@ export class API {
                 total: Number(await data[0][0].total),
                 countRecords: await data[0][0].countPurchases + await data[1][0].countIncentives,
                 records: data[2],
-                settlements: data[3]
+                categories: data[5],
+                payments: data[4],
+                settlements: data[3],
+                transfers: planTransfers(data[3])
             }
         })
     }
 
     /**
-     * Retrieves all information about a specified group including transaction records for the current month
+     * Works out who should pay whom to settle up a group's balances within a specified time range
      * @param groupID Unique group ID of requested group
-     * @returns Object containing all information about a given group
+     * @param fromDate Settle transactions from date
+     * @param toDate Settle transactions until date
+     * @returns Object containing each member's settlement and the transfers that zero them out
      */
-    public async getGroup(groupID: string): Promise<Group | undefined> {
+    public async getSettlementPlan(groupID: string, fromDate: Date, toDate: Date): Promise<SettlementPlan> {
+        return await this.calculateSettlements(groupID, fromDate, toDate)
+        .then(async settlements => {
+            return {
+                periodFrom: fromDate,
+                periodTo: toDate,
+                settlements: settlements,
+                transfers: planTransfers(settlements)
+            }
+        });
+    }
+
+    /**
+     * Summarises a group's spending within a specified time range month by month
+     * Monthly totals and member contributions are worked out the same way as the dashboard totals and settlements
+     * @param groupID Unique group ID of requested group
+     * @param fromDate Summarise transactions from date, defaults to the start of the month a year before toDate
+     * @param toDate Summarise transactions until date, defaults to the end of the current month
+     * @returns Promise of the group's monthly totals, member contributions, categories, top stores and incentive counts
+     */
+    public async getGroupStats(groupID: string, fromDate?: Date, toDate?: Date): Promise<GroupStats> {
         const today = new Date();
-        const from = new Date(today.getFullYear(), today.getMonth(), 1);
-        const to = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+        const to = toDate ?? new Date(today.getFullYear(), today.getMonth() + 1, 0);
+        const from = fromDate ?? new Date(to.getFullYear(), to.getMonth() - 11, 1);
+        if(from > to) throw new InputError('Invalid Date Range', 'The start of the range must be before its end.', `${ toSQLDate(from) } -> ${ toSQLDate(to) }`);
+        const months = monthsBetween(from, to);
+        if(months.length > MaxStatsMonths) throw new InputError('Invalid Date Range', `Statistics can cover at most ${ MaxStatsMonths } months.`, `${ toSQLDate(from) } -> ${ toSQLDate(to) }`);
 
         return await Promise.all([
-            this.client.query('SELECT Name AS groupName, Created AS created, Description AS description, Status AS status, MaxUsers AS maxMembers FROM Groups WHERE GID = ID_TO_BIN(?) LIMIT 1;', [groupID]),
-            this.listGroupMembers(groupID),
-            this.listGroupIncentives(groupID),
-            this.getGroupTransactions(groupID, from, to)
+            Promise.all(months.map(x => this.client.query('SELECT SUM_EXPENSES(ID_TO_BIN(?), ?, ?) AS total;', [groupID, toSQLDate(x.from), toSQLDate(x.to)]))),
+            Promise.all(months.map(x => this.calculateSettlements(groupID, x.from, x.to))),
+            this.getCategoryTotals(groupID, from, to),
+            this.client.query(`SELECT Store AS store, SUM(CONVERT_AMOUNT(GID, Amount, Currency, Date)) AS total, COUNT(*) AS countPurchases
+            FROM Purchases
+            WHERE GID = ID_TO_BIN(?)
+            AND Voided = 0
+            AND Store IS NOT NULL AND Store != ''
+            AND Date BETWEEN ? AND ?
+            GROUP BY Store
+            ORDER BY total DESC, store
+            LIMIT ?;`, [groupID, toSQLDate(from), toSQLDate(to), TopStoreCount]),
+            this.client.query(`SELECT BIN_TO_ID(IncentivesAvailable.IID) AS incentiveID, IncentivesAvailable.Name AS incentiveName, SUM(IncentivesAvailable.Amount) AS total, COUNT(*) AS countIncentives
+            FROM Incentives
+            LEFT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID
+            WHERE IncentivesAvailable.GID = ID_TO_BIN(?)
+            AND Incentives.Voided = 0
+            AND Incentives.Date BETWEEN ? AND ?
+            GROUP BY IncentivesAvailable.IID, IncentivesAvailable.Name
+            ORDER BY countIncentives DESC, incentiveName;`, [groupID, toSQLDate(from), toSQLDate(to)])
         ]).then(async data => {
-            if(data[0].length == 0) {
-                return;
-            } else {
+            const totals: Array<number> = data[0].map((x: any) => Number(x[0].total));
+            const averages = rollingAverages(totals, RollingWindow);
+
+            // members are listed if they were in the group or had records in any month of the range
+            const unames = [...new Set(data[1].flatMap(x => x.map(y => y.uname)))].sort();
+            const members: Array<MemberStats> = unames.map(uname => {
+                const history = months.map((x, i) => {
+                    const s = data[1][i].find(y => y.uname == uname);
+                    return { month: x.month, totalPurchases: s?.totalPurchases ?? 0, totalIncentives: s?.totalIncentives ?? 0, countIncentives: s?.countIncentives ?? 0, totalContribution: s?.totalContribution ?? 0 };
+                });
                 return {
-                    groupName: await data[0][0].groupName,
-                    groupID: groupID,
-                    created: await data[0][0].created,
-                    description: await data[0][0].description,
-                    status: await data[0][0].status,
-                    maxMembers: Number(await data[0][0].maxMembers),
-                    countMembers: data[1].length,
-                    members: data[1],
-                    countIncentivesAvailable: data[2].length,
-                    incentivesAvailable: data[2],
-                    transactions: data[3]
+                    uname: uname,
+                    totalPurchases: roundCents(history.reduce((sum, x) => sum + x.totalPurchases, 0)),
+                    totalIncentives: roundCents(history.reduce((sum, x) => sum + x.totalIncentives, 0)),
+                    countIncentives: history.reduce((sum, x) => sum + x.countIncentives, 0),
+                    totalContribution: roundCents(history.reduce((sum, x) => sum + x.totalContribution, 0)),
+                    history: history
                 }
+            });
+
+            return {
+                periodFrom: from,
+                periodTo: to,
+                total: roundCents(totals.reduce((sum, x) => sum + x, 0)),
+                months: months.map((x, i) => ({ month: x.month, from: x.from, to: x.to, total: totals[i], change: changeFrom(totals[i - 1], totals[i]), rollingAverage: averages[i] })),
+                members: members,
+                categories: data[2],
+                stores: data[3].map((x: any) => ({ store: x.store, total: Number(x.total), countPurchases: Number(x.countPurchases) })),
+                incentives: data[4].map((x: any) => ({ incentiveID: x.incentiveID, incentiveName: x.incentiveName, total: Number(x.total), countIncentives: Number(x.countIncentives) }))
             }
         });
     }
 
     /**
-     * Gets all information about about a user and the groups they are part of identified by a session token
-     * @param sessionToken A valid session token that references the desired user
-     * @returns Object containing all all information about a given user groups they are in
+     * Gathers a group's records, settlements and totals within a specified time range for exporting
+     * @param groupID Unique group ID of requested group
+     * @param fromDate Export transactions from date
+     * @param toDate Export transactions until date
+     * @returns Promise of the group's ledger for the range
      */
-    public async getDashboard(sessionToken: string): Promise<Dashboard> {
+    public async getLedger(groupID: string, fromDate: Date, toDate: Date): Promise<Ledger> {
         return await Promise.all([
-            this.getFullUser(sessionToken),
-            this.client.query('SELECT BIN_TO_ID(Memberships.GID) AS groupID FROM Memberships RIGHT JOIN Sessions ON Memberships.UID = Sessions.UID WHERE Sessions.Token = ID_TO_BIN(?) AND Sessions.Expires > NOW() AND Sessions.Active = 1;', [sessionToken])
-            .then(async groups => {
-                return await Promise.all(await groups.map(async (x: { groupID: string }) => {
-                    return await this.getGroup(x.groupID);
-                }))
-            })
+            this.client.query('SELECT Name AS groupName FROM Groups WHERE GID = ID_TO_BIN(?) LIMIT 1;', [groupID]),
+            this.getGroupTransactions(groupID, fromDate, toDate)
         ]).then(async data => {
+            if(data[0].length == 0) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
             return {
-                user: data[0],
-                memberships: data[1].length,
-                groups: data[1]
+                groupID: groupID,
+                groupName: await data[0][0].groupName,
+                generated: new Date(),
+                ...data[1]
             }
         });
     }
 
-    /* Action Methods */
-
     /**
-     * Validates a username and password combination and starts a new user session if it is valid
-     * @param uname Username or email address of user signing in
-     * @param password User password to check
-     * @returns Dashboard object if login is successful
+     * Queries the database for the settle-up payments recorded in a group within a specified date range
+     * @param groupID Unique group ID of requested group
+     * @param fromDate List payments from date
+     * @param toDate List payments until date
+     * @returns Promise of an array containing every payment in the range
      */
-    public async login(uname: string, password: string): Promise<Dashboard> {
-        return await this.client.query('SELECT Uname AS uname, PwdHash AS hash, FailedLoginAttempts AS attempts FROM Users WHERE Uname = ? OR Email = ? LIMIT 1;', [uname, uname]).then(async res => {
-            if(await res.length < 1) throw new InputError('User Not Found', `'${ uname }' does not match any users.`, uname);
-            if(await res[0].attempts >= 5) throw new InputError('Account Locked', 'You have exceeded the maximum login attempts.', uname);
-            if(!(await bcrypt.compare(password, await res[0].hash))) {
-                await this.client.execute('UPDATE Users SET FailedLoginAttempts = FailedLoginAttempts + 1 WHERE Uname = ? OR Email = ?;', [uname, uname]).then(() => {
-                    throw new InputError('Incorrect Password', `The password you ented for '${ uname }' is incorrect.`, uname );
-                });
-            }
-        }).then(async () => {
-            await this.client.execute('UPDATE Users SET FailedLoginAttempts = 0 WHERE Uname = ? OR Email = ?;', [uname, uname]);
-            return await this.client.execute('INSERT INTO Sessions (Token, UID) VALUES(ID_TO_BIN(UUID()), (SELECT UID FROM Users WHERE Uname = ? OR Email = ? LIMIT 1));', [uname, uname]).then(async () => {
-                return await this.client.query('SELECT BIN_TO_ID(Token) AS session FROM Sessions WHERE UID = (SELECT UID FROM Users WHERE Uname = ? OR Email = ? LIMIT 1) ORDER BY Expires DESC LIMIT 1;', [uname, uname]).then(async res => {
-                    return this.getDashboard(await res[0].session);
-                });
+    public async listPayments(groupID: string, fromDate: Date, toDate: Date): Promise<Array<Payment>> {
+        return await this.client.query(`SELECT BIN_TO_ID(Payments.PayID) AS paymentID, Payer.Uname AS \`from\`, Payee.Uname AS \`to\`, Payments.Amount AS amount, Payments.Date AS date, Payments.Notes AS notes, Recorder.Uname AS recordedBy
+        FROM Payments
+        LEFT JOIN Users AS Payer ON Payments.FromUID = Payer.UID
+        LEFT JOIN Users AS Payee ON Payments.ToUID = Payee.UID
+        LEFT JOIN Users AS Recorder ON Payments.RecordedBy = Recorder.UID
+        WHERE Payments.GID = ID_TO_BIN(?)
+        AND Payments.Date BETWEEN ? AND ?
+        ORDER BY Payments.Date;`, [groupID, toSQLDate(fromDate), toSQLDate(toDate)]).then(async res => {
+            return await res.map((x: any) => {
+                x.amount = Number(x.amount);
+                return x;
             });
         });
     }
 
     /**
-     * Validates a username and password combination
-     * @param uname Username of user to validate
-     * @param password Password to check
-     * @returns true/false whether the username-password combination is valid
+     * Queries the database for every reconciliation period that has been closed in a group
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array of closed periods with their settlement snapshots, newest first
      */
-    public async validateCreds(uname: string, password: string): Promise<boolean> {
-        return await this.client.query('SELECT PwdHash AS hash FROM Users WHERE Uname = ? LIMIT 1;', [uname])
-        .then(async res => {
-            if(await res.length === 0) return false;
-            return await bcrypt.compare(password, await res[0].hash);
+    public async listPeriods(groupID: string): Promise<Array<ClosedPeriod>> {
+        return await this.client.query(`SELECT BIN_TO_ID(Periods.PeriodID) AS periodID, Periods.PeriodFrom AS periodFrom, Periods.PeriodTo AS periodTo, Closer.Uname AS closedBy, Periods.Closed AS closed, Periods.Reopened AS reopened, Reopener.Uname AS reopenedBy, Periods.Snapshot AS snapshot
+        FROM Periods
+        LEFT JOIN Users AS Closer ON Periods.ClosedBy = Closer.UID
+        LEFT JOIN Users AS Reopener ON Periods.ReopenedBy = Reopener.UID
+        WHERE Periods.GID = ID_TO_BIN(?)
+        ORDER BY Periods.PeriodTo DESC, Periods.Closed DESC;`, [groupID]).then(async res => {
+            // Snapshots are stored as JSON strings
+            return await res.map((x: any) => {
+                const snapshot = JSON.parse(x.snapshot);
+                delete x.snapshot;
+                x.reopenedBy = x.reopenedBy ?? null;
+                x.settlements = snapshot.settlements;
+                x.transfers = snapshot.transfers;
+                return x;
+            });
         });
     }
 
     /**
-     * Closes an active session and creates a new one for the same user
-     * @param sessionToken An active session ID
-     * @returns A new session ID
+     * Finds the first day after the most recent closed period of a group
+     * @param groupID Unique group ID of requested group
+     * @returns The first unreconciled date, or undefined if no period has been closed
      */
-    private async refreshSession(sessionToken: string): Promise<string> {
-        return await this.client.query('SELECT BIN_TO_ID(UID) AS uid FROM Sessions WHERE Token = ID_TO_BIN(?) AND Expires > NOW() AND Active = 1;', [sessionToken])
+    private async getOpenPeriodStart(groupID: string): Promise<Date | undefined> {
+        return await this.client.query('SELECT MAX(PeriodTo) AS periodTo FROM Periods WHERE GID = ID_TO_BIN(?) AND Reopened IS NULL;', [groupID])
         .then(async res => {
-            await this.client.execute('UPDATE Sessions SET Active = 0 WHERE Token = ID_TO_BIN(?);', [sessionToken]);
-            return await this.client.execute('INSERT INTO Sessions (Token, UID) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?));', [await res[0].uid])
-            .then(async () => {
-                return await this.client.query('SELECT BIN_TO_ID(Token) AS session FROM Sessions WHERE UID = ID_TO_BIN(?) ORDER BY Expires DESC LIMIT 1;', [await res[0].uid])
-                .then(async token => await token[0].session);
-            });
+            if(await res[0].periodTo == null) return;
+            const last = fromSQLDate(await res[0].periodTo);
+            return new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1);
         });
     }
 
     /**
-     * Validates username and session token combination and generates a new token if it is more than a week old
-     * @param uname A valid username
-     * @param sessionToken A session token associated with the provided username
-     * @returns A session ID
+     * Works out the range of records shown for a group, from the end of its last closed period (or the start of the month if none were closed) to the end of the month
+     * @param groupID Unique group ID of requested group
+     * @returns First and last day of the range
      */
-    public async validateSession(uname: string, sessionToken: string): Promise<string> {
-        return await this.client.query('SELECT Sessions.Expires AS expires FROM Sessions RIGHT JOIN Users ON Sessions.UID = Users.UID WHERE Users.Uname = ? AND Sessions.Token = ID_TO_BIN(?) AND Sessions.Expires > NOW() AND Sessions.Active = 1 LIMIT 1;', [uname, sessionToken])
-        .then(async res => {
-            if(await res.length < 1) throw new InputError('Invalid Session', 'The provided username and token combination are invalid.', `${ uname } -> ${ sessionToken }`);
-
-            // if there is less than 3 weeks until expiration (been active a week), generate a new session token
-            const today = new Date();
-            const threeWeeks = new Date(today.getTime() + 1814400000);
-            if(await res[0].expires < threeWeeks) {
-                return await this.refreshSession(sessionToken);
-            } else {
-                return sessionToken;
-            }
-        })
+    private async getCurrentRange(groupID: string): Promise<{ from: Date, to: Date }> {
+        const today = new Date();
+        const openFrom = await this.getOpenPeriodStart(groupID);
+        const from = (typeof openFrom !== 'undefined' && openFrom <= today) ? openFrom : new Date(today.getFullYear(), today.getMonth(), 1);
+        return { from: from, to: new Date(today.getFullYear(), today.getMonth() + 1, 0) };
     }
 
     /**
-     * Updates a specified user's password
-     * @param uname Username of the selected user
-     * @param oldPassword Current password for user
-     * @param newPassword New password to set for user
+     * Retrieves all information about a specified group including transaction records since the last closed period (or for the current month if none were closed)
+     * @param groupID Unique group ID of requested group
+     * @returns Object containing all information about a given group
      */
-    public async changePassword(uname: string, oldPassword: string, newPassword: string): Promise<void> {
-        await this.client.query('SELECT PwdHash AS oldHash FROM Users WHERE Uname = ? LIMIT 1;', [uname])
+    public async getGroup(groupID: string): Promise<Group | undefined> {
+        const { from, to } = await this.getCurrentRange(groupID);
+
+        return await Promise.all([
+            this.client.query('SELECT Name AS groupName, Created AS created, Description AS description, Status AS status, Currency AS currency, ShareMethod AS shareMethod, MaxUsers AS maxMembers FROM Groups WHERE GID = ID_TO_BIN(?) LIMIT 1;', [groupID]),
+            this.listGroupMembers(groupID),
+            this.listGroupIncentives(groupID),
+            this.getGroupTransactions(groupID, from, to),
+            this.listRecurringExpenses(groupID),
+            this.listChores(groupID)
+        ]).then(async data => {
+            if(data[0].length == 0) {
+                return;
+            } else {
+                return {
+                    groupName: await data[0][0].groupName,
+                    groupID: groupID,
+                    created: await data[0][0].created,
+                    description: await data[0][0].description,
+                    status: await data[0][0].status,
+                    currency: await data[0][0].currency,
+                    shareMethod: await data[0][0].shareMethod,
+                    maxMembers: Number(await data[0][0].maxMembers),
+                    countMembers: data[1].length,
+                    members: data[1],
+                    countIncentivesAvailable: data[2].length,
+                    incentivesAvailable: data[2],
+                    countRecurringExpenses: data[4].length,
+                    recurringExpenses: data[4],
+                    countChores: data[5].length,
+                    chores: data[5],
+                    transactions: data[3]
+                }
+            }
+        });
+    }
+
+    /**
+     * Queries the database for the recurring expense templates of a group
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array containing each recurring expense and the last date it was posted
+     */
+    public async listRecurringExpenses(groupID: string): Promise<Array<RecurringExpense>> {
+        return await this.client.query(`SELECT BIN_TO_ID(RecurringExpenses.RecID) AS recurringID, BIN_TO_ID(RecurringExpenses.GID) AS groupID, Users.Uname AS uname, RecurringExpenses.Amount AS amount, RecurringExpenses.Store AS store, RecurringExpenses.Notes AS notes, RecurringExpenses.Cadence AS cadence, RecurringExpenses.Every AS every, RecurringExpenses.DayOfMonth AS dayOfMonth, RecurringExpenses.StartDate AS startDate, RecurringExpenses.EndDate AS endDate, (SELECT MAX(Occurrence) FROM RecurringPostings WHERE RecurringPostings.RecID = RecurringExpenses.RecID) AS lastPosted
+        FROM RecurringExpenses
+        LEFT JOIN Users ON RecurringExpenses.UID = Users.UID
+        WHERE RecurringExpenses.GID = ID_TO_BIN(?)
+        ORDER BY RecurringExpenses.Created;`, [groupID]).then(async res => {
+            return await res.map((x: any) => {
+                x.amount = Number(x.amount);
+                x.every = Number(x.every);
+                x.dayOfMonth = (x.dayOfMonth === null) ? null : Number(x.dayOfMonth);
+                return x;
+            });
+        });
+    }
+
+    /**
+     * Queries the database for a single recurring expense template by its ID
+     * @param recurringID Unique ID of the recurring expense
+     * @returns Object containing all stored information about the recurring expense
+     */
+    public async getRecurringExpense(recurringID: string): Promise<RecurringExpense> {
+        return await this.client.query('SELECT BIN_TO_ID(GID) AS groupID FROM RecurringExpenses WHERE RecID = ID_TO_BIN(?) LIMIT 1;', [recurringID])
         .then(async res => {
-            if(await res.length < 1) throw new InputError('User Not Found', `Could not update password for user '${uname}' because the user could not be found.`, uname);
-            if(!(await bcrypt.compare(oldPassword, await res[0].oldHash))) throw new InputError('Incorrect Password', `Incorrect password for '${uname}'`, uname);
-            if(await bcrypt.compare(newPassword, await res[0].oldHash)) throw new InputError('Cannot Reuse Password', 'Your new password cannot be the same as your old password.', newPassword);
+            if(await res.length < 1) throw new InputError('Recurring Expense Not Found', 'The recurring expense ID provided could not be found.', recurringID);
+            return (await this.listRecurringExpenses(await res[0].groupID)).filter(x => x.recurringID == recurringID)[0];
+        });
+    }
+
+    /**
+     * Queries the database for the chores that rotate through a group's members
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array containing each chore and the incentive it rewards
+     */
+    public async listChores(groupID: string): Promise<Array<Chore>> {
+        return await this.client.query(`SELECT BIN_TO_ID(Chores.ChoreID) AS choreID, BIN_TO_ID(Chores.IID) AS incentiveID, IncentivesAvailable.Name AS incentiveName, IncentivesAvailable.Amount AS amount, Chores.Cadence AS cadence, Chores.Every AS every, Chores.StartDate AS startDate, Chores.Penalty AS penalty, Chores.Active AS active
+        FROM Chores
+        LEFT JOIN IncentivesAvailable ON Chores.IID = IncentivesAvailable.IID
+        WHERE Chores.GID = ID_TO_BIN(?)
+        ORDER BY Chores.Created;`, [groupID]).then(async res => {
+            return await res.map((x: any) => {
+                x.amount = Number(x.amount);
+                x.every = Number(x.every);
+                x.penalty = Number(x.penalty);
+                x.active = Boolean(x.active);
+                return x;
+            });
+        });
+    }
+
+    /**
+     * Queries the database for the chore assignments of a group that are due within a specified date range
+     * @param groupID Unique group ID of requested group
+     * @param fromDate List assignments due from date
+     * @param toDate List assignments due until date
+     * @returns Promise of an array containing each assignment, whether it was completed or missed
+     */
+    public async listChoreAssignments(groupID: string, fromDate: Date, toDate: Date): Promise<Array<ChoreAssignment>> {
+        return await this.client.query(`SELECT BIN_TO_ID(ChoreAssignments.AssignID) AS assignmentID, BIN_TO_ID(ChoreAssignments.ChoreID) AS choreID, IncentivesAvailable.Name AS incentiveName, Users.Uname AS uname, ChoreAssignments.StartDate AS startDate, ChoreAssignments.DueDate AS dueDate, ChoreAssignments.Completed AS completed, BIN_TO_ID(ChoreAssignments.RID) AS recordID, ChoreAssignments.Missed AS missed, ChoreAssignments.Penalty AS penalty
+        FROM ChoreAssignments
+        LEFT JOIN Chores ON ChoreAssignments.ChoreID = Chores.ChoreID
+        LEFT JOIN IncentivesAvailable ON Chores.IID = IncentivesAvailable.IID
+        LEFT JOIN Users ON ChoreAssignments.UID = Users.UID
+        WHERE Chores.GID = ID_TO_BIN(?)
+        AND ChoreAssignments.DueDate BETWEEN ? AND ?
+        ORDER BY ChoreAssignments.DueDate, IncentivesAvailable.Name;`, [groupID, toSQLDate(fromDate), toSQLDate(toDate)]).then(async res => {
+            return await res.map((x: any) => {
+                x.missed = Boolean(x.missed);
+                x.penalty = Number(x.penalty);
+                return x;
+            });
+        });
+    }
+
+    /**
+     * Queries the database for the purchase categories of a group and their store rules
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array of categories by name
+     */
+    public async listCategories(groupID: string): Promise<Array<Category>> {
+        return await Promise.all([
+            this.client.query('SELECT BIN_TO_ID(CategoryID) AS categoryID, Name AS name, Budget AS budget FROM Categories WHERE GID = ID_TO_BIN(?) ORDER BY Name;', [groupID]),
+            this.listCategoryRules(groupID)
+        ]).then(async data => {
+            return await data[0].map((x: any) => {
+                x.budget = (x.budget === null) ? null : Number(x.budget);
+                x.rules = data[1].filter(y => y.categoryID == x.categoryID).map(y => ({ ruleID: y.ruleID, pattern: y.pattern }));
+                return x;
+            });
+        });
+    }
+
+    /**
+     * Queries the database for the store rules of a group's categories
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array of rules with the category each one picks
+     */
+    private async listCategoryRules(groupID: string): Promise<Array<{ ruleID: string, categoryID: string, pattern: string }>> {
+        return await this.client.query(`SELECT BIN_TO_ID(CategoryRules.RuleID) AS ruleID, BIN_TO_ID(CategoryRules.CategoryID) AS categoryID, CategoryRules.Pattern AS pattern
+        FROM CategoryRules
+        LEFT JOIN Categories ON CategoryRules.CategoryID = Categories.CategoryID
+        WHERE Categories.GID = ID_TO_BIN(?)
+        ORDER BY CategoryRules.Created;`, [groupID]);
+    }
+
+    /**
+     * Totals the purchases of each category of a group within a specified date range and compares them to the category budgets
+     * Monthly budgets are scaled to the range, purchases without a category are totalled last with a null categoryID
+     * @param groupID Unique group ID of requested group
+     * @param fromDate Total purchases from date
+     * @param toDate Total purchases until date
+     * @returns Promise of an array containing each category's total, budget and the warning threshold it reached
+     */
+    public async getCategoryTotals(groupID: string, fromDate: Date, toDate: Date): Promise<Array<CategoryTotal>> {
+        const from = toSQLDate(fromDate);
+        const to = toSQLDate(toDate);
+        return await Promise.all([
+            this.client.query(`SELECT BIN_TO_ID(Categories.CategoryID) AS categoryID, Categories.Name AS name, Categories.Budget AS budget, (
+                SELECT IFNULL(SUM(CONVERT_AMOUNT(Purchases.GID, Purchases.Amount, Purchases.Currency, Purchases.Date)), 0) FROM Purchases WHERE Purchases.CategoryID = Categories.CategoryID AND Purchases.Voided = 0 AND Purchases.Date BETWEEN ? AND ?
+            ) AS total
+            FROM Categories
+            WHERE Categories.GID = ID_TO_BIN(?)
+            ORDER BY Categories.Name;`, [from, to, groupID]),
+            this.client.query('SELECT COUNT(*) AS countPurchases, IFNULL(SUM(CONVERT_AMOUNT(GID, Amount, Currency, Date)), 0) AS total FROM Purchases WHERE GID = ID_TO_BIN(?) AND CategoryID IS NULL AND Voided = 0 AND Date BETWEEN ? AND ?;', [groupID, from, to])
+        ]).then(async data => {
+            const totals: Array<CategoryTotal> = data[0].map((x: any) => {
+                const budget = (x.budget === null) ? null : budgetForRange(Number(x.budget), fromDate, toDate);
+                return { categoryID: x.categoryID, name: x.name, total: Number(x.total), budget: budget, threshold: reachedThreshold(Number(x.total), budget) };
+            });
+            if(Number(await data[1][0].countPurchases) > 0) totals.push({ categoryID: null, name: null, total: Number(await data[1][0].total), budget: null, threshold: null });
+            return totals;
+        });
+    }
+
+    /**
+     * Lists the categories of a group whose spending in a month has reached a budget warning threshold
+     * @param groupID Unique group ID of requested group
+     * @param date Any day of the month to check
+     * @param categoryID Only check this category
+     * @returns Promise of an array of warnings, one for each category over a threshold
+     */
+    public async getBudgetWarnings(groupID: string, date: Date, categoryID?: string): Promise<Array<BudgetWarning>> {
+        const fromDate = new Date(date.getFullYear(), date.getMonth(), 1);
+        const toDate = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+        return await this.getCategoryTotals(groupID, fromDate, toDate)
+        .then(async totals => {
+            return totals.filter(x => x.threshold !== null && (typeof categoryID === 'undefined' || x.categoryID == categoryID)).map(x => ({
+                groupID: groupID,
+                categoryID: x.categoryID!,
+                name: x.name!,
+                month: toSQLDate(fromDate).substring(0, 7),
+                total: x.total,
+                budget: x.budget!,
+                threshold: x.threshold!
+            }));
+        });
+    }
+
+    /**
+     * Lists the budget warnings for the category and month of a purchase
+     * @param purchaseID Purchase to check
+     * @returns Promise of an array containing the warning for the purchase's category, empty if it has no category or is within budget
+     */
+    public async getPurchaseBudgetWarnings(purchaseID: string): Promise<Array<BudgetWarning>> {
+        const purchase = await this.getPurchase(purchaseID);
+        if(purchase.categoryID === null) return [];
+        return await this.getBudgetWarnings(purchase.groupID, parseDate(new Date(purchase.date).toISOString().split('T')[0]), purchase.categoryID);
+    }
+
+    /**
+     * Queries the database for a single purchase by its ID
+     * @param purchaseID Unique ID of the purchase
+     * @returns Object containing all stored information about the purchase
+     */
+    public async getPurchase(purchaseID: string): Promise<PurchaseRecord> {
+        return await this.client.query('SELECT BIN_TO_ID(Purchases.PID) AS purchaseID, BIN_TO_ID(Purchases.GID) AS groupID, Users.Uname AS uname, Purchases.Date AS date, Purchases.Store AS store, Purchases.Amount AS amount, Purchases.Currency AS currency, BIN_TO_ID(Purchases.CategoryID) AS categoryID, Purchases.Notes AS notes, Purchases.Voided AS voided, Purchases.SplitMethod AS splitMethod FROM Purchases LEFT JOIN Users ON Purchases.UID = Users.UID WHERE Purchases.PID = ID_TO_BIN(?) LIMIT 1;', [purchaseID])
+        .then(async res => {
+            if(await res.length < 1) throw new InputError('Purchase Not Found', 'The purchase ID provided could not be found.', purchaseID);
+            res[0].amount = Number(res[0].amount);
+            res[0].voided = Boolean(res[0].voided);
+
+            const splits = await this.client.query('SELECT Users.Uname AS uname, PurchaseSplits.Value AS value, PurchaseSplits.Amount AS amount FROM PurchaseSplits LEFT JOIN Users ON PurchaseSplits.UID = Users.UID WHERE PurchaseSplits.PID = ID_TO_BIN(?) ORDER BY Users.Uname ASC;', [purchaseID]);
+            res[0].split = (res[0].splitMethod == 'even') ? null : { method: res[0].splitMethod, parts: splits.map((x: any) => ({ uname: x.uname, value: Number(x.value) })) };
+            res[0].allocations = splits.map((x: any) => ({ uname: x.uname, amount: Number(x.amount) }));
+            delete res[0].splitMethod;
+            return await res[0];
+        });
+    }
+
+    /**
+     * Queries the database for the receipts attached to purchases of a group made within a specified time range
+     * @param groupID Unique group ID of requested group
+     * @param fromDate List attachments of purchases from date
+     * @param toDate List attachments of purchases until date
+     * @returns Promise of an array containing each attachment's metadata
+     */
+    private async listGroupAttachments(groupID: string, fromDate: Date, toDate: Date): Promise<Array<Attachment>> {
+        return await this.client.query('SELECT BIN_TO_ID(Attachments.AttachID) AS attachmentID, BIN_TO_ID(Attachments.PID) AS purchaseID, BIN_TO_ID(Purchases.GID) AS groupID, Users.Uname AS uname, Attachments.FileName AS fileName, Attachments.MimeType AS mimeType, Attachments.Size AS size, Attachments.Uploaded AS uploaded FROM Attachments LEFT JOIN Purchases ON Attachments.PID = Purchases.PID LEFT JOIN Users ON Attachments.UID = Users.UID WHERE Purchases.GID = ID_TO_BIN(?) AND Purchases.Date BETWEEN ? AND ? ORDER BY Attachments.Uploaded ASC;', [groupID, toSQLDate(fromDate), toSQLDate(toDate)]);
+    }
+
+    /**
+     * Queries the database for the receipts attached to a purchase
+     * @param purchaseID Unique ID of the purchase
+     * @returns Promise of an array containing each attachment's metadata
+     */
+    public async listAttachments(purchaseID: string): Promise<Array<Attachment>> {
+        return await this.client.query('SELECT BIN_TO_ID(Attachments.AttachID) AS attachmentID, BIN_TO_ID(Attachments.PID) AS purchaseID, BIN_TO_ID(Purchases.GID) AS groupID, Users.Uname AS uname, Attachments.FileName AS fileName, Attachments.MimeType AS mimeType, Attachments.Size AS size, Attachments.Uploaded AS uploaded FROM Attachments LEFT JOIN Purchases ON Attachments.PID = Purchases.PID LEFT JOIN Users ON Attachments.UID = Users.UID WHERE Attachments.PID = ID_TO_BIN(?) ORDER BY Attachments.Uploaded ASC;', [purchaseID]);
+    }
+
+    /**
+     * Queries the database for a single attachment by its ID
+     * @param attachmentID Unique ID of the attachment
+     * @returns Object containing the attachment's metadata
+     */
+    public async getAttachment(attachmentID: string): Promise<Attachment> {
+        return await this.client.query('SELECT BIN_TO_ID(Attachments.AttachID) AS attachmentID, BIN_TO_ID(Attachments.PID) AS purchaseID, BIN_TO_ID(Purchases.GID) AS groupID, Users.Uname AS uname, Attachments.FileName AS fileName, Attachments.MimeType AS mimeType, Attachments.Size AS size, Attachments.Uploaded AS uploaded FROM Attachments LEFT JOIN Purchases ON Attachments.PID = Purchases.PID LEFT JOIN Users ON Attachments.UID = Users.UID WHERE Attachments.AttachID = ID_TO_BIN(?) LIMIT 1;', [attachmentID])
+        .then(async res => {
+            if(await res.length < 1) throw new InputError('Attachment Not Found', 'The attachment ID provided could not be found.', attachmentID);
+            return await res[0];
+        });
+    }
+
+    /**
+     * Reads the stored file of an attachment
+     * @param attachmentID Unique ID of the attachment
+     * @returns The attachment's metadata and file contents
+     */
+    public async readAttachment(attachmentID: string): Promise<{ attachment: Attachment, content: Uint8Array }> {
+        const attachment = await this.getAttachment(attachmentID);
+        return { attachment: attachment, content: await this.attachments.read(attachment.attachmentID) };
+    }
+
+    /**
+     * Queries the database for a single incentive record (a claimed incentive) by its ID
+     * @param recordID Unique ID of the incentive record
+     * @returns Object containing all stored information about the incentive record
+     */
+    public async getIncentiveRecord(recordID: string): Promise<IncentiveRecord> {
+        return await this.client.query('SELECT BIN_TO_ID(Incentives.RID) AS recordID, BIN_TO_ID(IncentivesAvailable.GID) AS groupID, Users.Uname AS uname, BIN_TO_ID(Incentives.IID) AS incentiveID, Incentives.Date AS date, Incentives.Notes AS notes, Incentives.Voided AS voided FROM Incentives LEFT JOIN Users ON Incentives.UID = Users.UID LEFT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID WHERE Incentives.RID = ID_TO_BIN(?) LIMIT 1;', [recordID])
+        .then(async res => {
+            if(await res.length < 1) throw new InputError('Incentive Record Not Found', 'The incentive record ID provided could not be found.', recordID);
+            res[0].voided = Boolean(res[0].voided);
+            return await res[0];
+        });
+    }
+
+    /**
+     * Queries the database for the edit history of every purchase and incentive record in a group
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array of revisions, newest first
+     */
+    public async listRevisions(groupID: string): Promise<Array<Revision>> {
+        return await this.client.query('SELECT BIN_TO_ID(Revisions.RevID) AS revisionID, BIN_TO_ID(Revisions.RecordID) AS recordID, Revisions.RecordType AS recordType, Users.Uname AS uname, Revisions.Action AS action, Revisions.Changed AS changed, Revisions.OldValue AS oldValue, Revisions.NewValue AS newValue FROM Revisions LEFT JOIN Users ON Revisions.UID = Users.UID WHERE Revisions.GID = ID_TO_BIN(?) ORDER BY Revisions.Changed DESC;', [groupID])
+        .then(async res => {
+            // Snapshots are stored as JSON strings
+            return await res.map((x: any) => {
+                x.oldValue = (x.oldValue === null) ? null : JSON.parse(x.oldValue);
+                x.newValue = (x.newValue === null) ? null : JSON.parse(x.newValue);
+                return x;
+            });
+        });
+    }
+
+    /**
+     * Gets all information about about a user and the groups they are part of identified by a session token
+     * @param sessionToken A valid session token that references the desired user
+     * @returns Object containing all all information about a given user groups they are in
+     */
+    public async getDashboard(sessionToken: string): Promise<Dashboard> {
+        const user = await this.getFullUser(sessionToken);
+        return await Promise.all([
+            user,
+            this.client.query('SELECT BIN_TO_ID(Memberships.GID) AS groupID FROM Memberships RIGHT JOIN Sessions ON Memberships.UID = Sessions.UID WHERE Sessions.Token = ID_TO_BIN(?) AND Sessions.Expires > NOW() AND Sessions.Active = 1;', [sessionToken])
+            .then(async groups => {
+                return await Promise.all(await groups.map(async (x: { groupID: string }) => {
+                    return await this.getGroup(x.groupID);
+                }))
+            }),
+            this.listInvitations(user.uname),
+            this.listUserJoinRequests(user.uname)
+        ]).then(async data => {
+            const warnings = await Promise.all(data[1].filter(x => typeof x !== 'undefined').map(async x => await this.getBudgetWarnings(x!.groupID, new Date())));
+            return {
+                user: data[0],
+                memberships: data[1].length,
+                groups: data[1],
+                invitations: data[2],
+                joinRequests: data[3],
+                budgetWarnings: warnings.flat()
+            }
+        });
+    }
+
+    /* Action Methods */
+
+    /**
+     * Validates a username and password combination and starts a new user session if it is valid
+     * @param uname Username or email address of user signing in
+     * @param password User password to check
+     * @param device IP address and user agent the user is signing in from
+     * @returns Dashboard object if login is successful
+     */
+    public async login(uname: string, password: string, device?: { ip: string, userAgent: string }): Promise<Dashboard> {
+        return await this.client.query('SELECT Uname AS uname, PwdHash AS hash, FailedLoginAttempts AS attempts, LockedUntil AS lockedUntil FROM Users WHERE Uname = ? OR Email = ? LIMIT 1;', [uname, uname]).then(async res => {
+            if(await res.length < 1) throw new InputError('User Not Found', `'${ uname }' does not match any users.`, uname);
+            this.assertNotLocked(uname, await res[0].lockedUntil);
+            if(!(await bcrypt.compare(password, await res[0].hash))) {
+                await this.recordFailedLogin(await res[0].uname, await res[0].attempts).then(() => {
+                    throw new InputError('Incorrect Password', `The password you ented for '${ uname }' is incorrect.`, uname );
+                });
+            }
+        }).then(async () => {
+            await this.client.execute('UPDATE Users SET FailedLoginAttempts = 0, LockedUntil = NULL WHERE Uname = ? OR Email = ?;', [uname, uname]);
+            const session = crypto.randomUUID();
+            return await this.client.execute('INSERT INTO Sessions (Token, SessionID, UID, LastSeen, IP, UserAgent) VALUES(ID_TO_BIN(?), ID_TO_BIN(UUID()), (SELECT UID FROM Users WHERE Uname = ? OR Email = ? LIMIT 1), NOW(), ?, ?);', [session, uname, uname, device?.ip ?? null, device?.userAgent.substring(0, 255) ?? null]).then(async () => {
+                return this.getDashboard(session);
+            });
+        });
+    }
+
+    /**
+     * Validates a username and password combination
+     * @param uname Username of user to validate
+     * @param password Password to check
+     * @returns true/false whether the username-password combination is valid
+     */
+    public async validateCreds(uname: string, password: string): Promise<boolean> {
+        return await this.client.query('SELECT PwdHash AS hash, FailedLoginAttempts AS attempts, LockedUntil AS lockedUntil FROM Users WHERE Uname = ? LIMIT 1;', [uname])
+        .then(async res => {
+            if(await res.length === 0) return false;
+            this.assertNotLocked(uname, await res[0].lockedUntil);
+            const valid = await bcrypt.compare(password, await res[0].hash);
+            if(!valid) await this.recordFailedLogin(uname, await res[0].attempts);
+            return valid;
+        });
+    }
+
+    /**
+     * Throws a RateLimitError if an account is locked after too many failed login attempts
+     * @param uname Username or email address of user signing in
+     * @param lockedUntil Time the account's lockout ends, null if it is not locked
+     */
+    private assertNotLocked(uname: string, lockedUntil: Date | null): void {
+        if(lockedUntil === null || new Date(lockedUntil) <= new Date()) return;
+
+        const wait = Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000);
+        throw new RateLimitError('Account Locked', `Too many failed login attempts, try again in ${ describeWait(wait) }.`, uname, wait);
+    }
+
+    /**
+     * Counts a failed login attempt and locks the account once the limit is reached
+     * The lockout doubles with every failure past the limit, the count only resets on a successful login or password reset
+     * @param uname Username of user
+     * @param attempts Failed attempts before this one
+     */
+    private async recordFailedLogin(uname: string, attempts: number): Promise<void> {
+        attempts = Math.min(Number(attempts) + 1, 255);
+        const lockedUntil = (lockoutDuration(attempts) > 0) ? new Date(Date.now() + lockoutDuration(attempts)) : null;
+        await this.client.execute('UPDATE Users SET FailedLoginAttempts = ?, LockedUntil = ? WHERE Uname = ?;', [attempts, lockedUntil, uname]);
+    }
+
+    /**
+     * Closes an active session and creates a new one for the same user, the new session keeps the device's session ID so it shows as the same device
+     * @param sessionToken An active session ID
+     * @returns A new session ID
+     */
+    private async refreshSession(sessionToken: string): Promise<string> {
+        return await this.client.query('SELECT BIN_TO_ID(UID) AS uid, BIN_TO_ID(SessionID) AS sessionID, IP AS ip, UserAgent AS userAgent FROM Sessions WHERE Token = ID_TO_BIN(?) AND Expires > NOW() AND Active = 1;', [sessionToken])
+        .then(async res => {
+            const session = crypto.randomUUID();
+            await this.client.execute('UPDATE Sessions SET Active = 0 WHERE Token = ID_TO_BIN(?);', [sessionToken]);
+            return await this.client.execute('INSERT INTO Sessions (Token, SessionID, UID, LastSeen, IP, UserAgent) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), ID_TO_BIN(?), NOW(), ?, ?);', [session, await res[0].sessionID, await res[0].uid, await res[0].ip, await res[0].userAgent])
+            .then(() => session);
+        });
+    }
+
+    /**
+     * Records that a session was just used, at most once a minute to avoid a write on every request
+     * @param sessionToken An active session ID
+     */
+    private async touchSession(sessionToken: string): Promise<void> {
+        await this.client.execute('UPDATE Sessions SET LastSeen = NOW() WHERE Token = ID_TO_BIN(?) AND (LastSeen IS NULL OR LastSeen < ?);', [sessionToken, new Date(Date.now() - 60000)]);
+    }
+
+    /**
+     * Queries the database for a user's active sessions (signed in devices)
+     * @param uname User to list sessions of
+     * @param currentToken Session token of the request, its session is flagged as current
+     * @returns Promise of an array containing each active session, most recently used first
+     */
+    public async listSessions(uname: string, currentToken: string): Promise<Array<Session>> {
+        return await this.client.query('SELECT BIN_TO_ID(Sessions.SessionID) AS sessionID, Sessions.Created AS created, Sessions.Expires AS expires, Sessions.LastSeen AS lastSeen, Sessions.IP AS ip, Sessions.UserAgent AS userAgent, Sessions.Token = ID_TO_BIN(?) AS current FROM Sessions RIGHT JOIN Users ON Sessions.UID = Users.UID WHERE Users.Uname = ? AND Sessions.Active = 1 AND Sessions.Expires > NOW() ORDER BY Sessions.LastSeen DESC;', [currentToken, uname])
+        .then(async res => await res.map((x: any) => {
+            x.current = Boolean(x.current);
+            return x;
+        }));
+    }
+
+    /**
+     * Signs out a single session
+     * @param sessionToken Session token to close
+     */
+    public async logout(sessionToken: string): Promise<void> {
+        await this.client.execute('UPDATE Sessions SET Active = 0 WHERE Token = ID_TO_BIN(?);', [sessionToken]);
+        await this.closeStaleStreams();
+    }
+
+    /**
+     * Signs a user out of every session on every device
+     * @param uname User to sign out
+     */
+    public async logoutEverywhere(uname: string): Promise<void> {
+        await this.client.execute('UPDATE Sessions SET Active = 0 WHERE UID = (SELECT UID FROM Users WHERE Uname = ?) AND Active = 1;', [uname]);
+        await this.closeStaleStreams();
+    }
+
+    /**
+     * Signs out one of a user's devices by its session ID
+     * @param uname User the session belongs to
+     * @param sessionID Session ID from the user's session list
+     */
+    public async revokeSession(uname: string, sessionID: string): Promise<void> {
+        const res = await this.client.execute('UPDATE Sessions SET Active = 0 WHERE SessionID = ID_TO_BIN(?) AND UID = (SELECT UID FROM Users WHERE Uname = ?) AND Active = 1;', [sessionID, uname]);
+        if(res.affectedRows == 0) throw new InputError('Session Not Found', 'The session ID provided is not an active session of this user.', sessionID);
+        await this.closeStaleStreams();
+    }
+
+    /**
+     * Deletes sessions that have expired or were signed out
+     * @returns Number of sessions deleted
+     */
+    public async purgeSessions(): Promise<number> {
+        const res = await this.client.execute('DELETE FROM Sessions WHERE Expires < NOW() OR Active = 0;');
+        return res.affectedRows ?? 0;
+    }
+
+    /**
+     * Validates username and session token combination and generates a new token if it is more than a week old
+     * Only refresh where the new token is sent back to the client (in a dashboard), the old token stops working
+     * @param uname A valid username
+     * @param sessionToken A session token associated with the provided username
+     * @param refresh Whether a token more than a week old is replaced
+     * @returns A session ID
+     */
+    public async validateSession(uname: string, sessionToken: string, refresh = true): Promise<string> {
+        return await this.client.query('SELECT Sessions.Expires AS expires FROM Sessions RIGHT JOIN Users ON Sessions.UID = Users.UID WHERE Users.Uname = ? AND Sessions.Token = ID_TO_BIN(?) AND Sessions.Expires > NOW() AND Sessions.Active = 1 LIMIT 1;', [uname, sessionToken])
+        .then(async res => {
+            if(await res.length < 1) throw new AuthenticationError('Invalid Session', 'The provided username and token combination are invalid.', `${ uname } -> ${ sessionToken }`);
+            await this.touchSession(sessionToken);
+
+            // if there is less than 3 weeks until expiration (been active a week), generate a new session token
+            const today = new Date();
+            const threeWeeks = new Date(today.getTime() + 1814400000);
+            if(refresh && await res[0].expires < threeWeeks) {
+                return await this.refreshSession(sessionToken);
+            } else {
+                return sessionToken;
+            }
+        })
+    }
+
+    /**
+     * Updates a specified user's password
+     * @param uname Username of the selected user
+     * @param oldPassword Current password for user
+     * @param newPassword New password to set for user
+     */
+    public async changePassword(uname: string, oldPassword: string, newPassword: string): Promise<void> {
+        await this.client.query('SELECT PwdHash AS oldHash FROM Users WHERE Uname = ? LIMIT 1;', [uname])
+        .then(async res => {
+            if(await res.length < 1) throw new InputError('User Not Found', `Could not update password for user '${uname}' because the user could not be found.`, uname);
+            if(!(await bcrypt.compare(oldPassword, await res[0].oldHash))) throw new InputError('Incorrect Password', `Incorrect password for '${uname}'`, uname);
+            if(await bcrypt.compare(newPassword, await res[0].oldHash)) throw new InputError('Cannot Reuse Password', 'Your new password cannot be the same as your old password.', newPassword);
         })
         .then(async () => {
             const salt = await bcrypt.genSalt(8);
@@ -395,209 +1538,1643 @@ export class API {
     }
 
     /**
-     * Changes a user's username
-     * @param oldUname The current username of the specified user
-     * @param newUname New username to set for user
+     * Changes a user's username
+     * @param oldUname The current username of the specified user
+     * @param newUname New username to set for user
+     */
+    public async changeUsername(oldUname: string, newUname: string): Promise<void> {
+        await this.client.execute('UPDATE Users SET Uname = ? WHERE Uname = ?;', [newUname, oldUname]);
+    }
+
+    /**
+     * Changes a user's email address
+     * @param uname Username of the selected user
+     * @param email New email address to set
+     */
+    public async changeEmail(uname: string, email: string): Promise<void> {
+        await this.client.execute('UPDATE Users SET Email = ?, EmailVerified = 0 WHERE Uname = ?;', [email, uname]);
+        await this.sendEmailVerification(uname).catch(e => console.error(`Could not send verification email to ${ uname }: ${ e }`));
+    }
+
+    /**
+     * Stores the hash of a new single-use token for a user
+     * @param uname User the token is for
+     * @param purpose What the token allows (reset | verify)
+     * @param hours Number of hours until the token expires
+     * @returns The token along with the email address it was issued for and the user's first name
+     */
+    private async issueUserToken(uname: string, purpose: string, hours: number): Promise<{ token: string, email: string, firstName: string }> {
+        const user = await this.client.query('SELECT Email AS email, Fname AS firstName FROM Users WHERE Uname = ? LIMIT 1;', [uname])
+        .then(async res => {
+            if(res.length == 0) throw new InputError('User Not Found', `Could not find user '${ uname }'.`, uname);
+            return await res[0];
+        });
+
+        // only the latest token of each purpose can be used
+        await this.client.execute('UPDATE UserTokens SET Used = NOW() WHERE UID = (SELECT UID FROM Users WHERE Uname = ?) AND Purpose = ? AND Used IS NULL;', [uname, purpose]);
+        const token = generateSecret();
+        await this.client.execute('INSERT INTO UserTokens (TokenHash, UID, Purpose, Email, Expires) VALUES(?, (SELECT UID FROM Users WHERE Uname = ?), ?, ?, ?);', [await hashSecret(token), uname, purpose, user.email, new Date(Date.now() + hours * 3600000)]);
+        return { token: token, email: user.email, firstName: user.firstName };
+    }
+
+    /**
+     * Marks a token as used if it is valid, so it cannot be used again
+     * @param token Token from the link the user followed
+     * @param purpose What the token is being used for (reset | verify)
+     * @returns Username of the token's user and the email address it was issued for
+     */
+    private async consumeUserToken(token: string, purpose: string): Promise<{ uname: string, email: string }> {
+        const hash = await hashSecret(token);
+        const res = await this.client.execute('UPDATE UserTokens SET Used = NOW() WHERE TokenHash = ? AND Purpose = ? AND Used IS NULL AND Expires > NOW();', [hash, purpose]);
+        if(res.affectedRows == 0) throw new InputError('Invalid Token', 'This link has expired or has already been used.', '');
+
+        return await this.client.query('SELECT Users.Uname AS uname, UserTokens.Email AS email FROM UserTokens LEFT JOIN Users ON UserTokens.UID = Users.UID WHERE UserTokens.TokenHash = ? LIMIT 1;', [hash])
+        .then(async res => await res[0]);
+    }
+
+    /**
+     * Emails a password reset link to the user with a given email address, does nothing if no user has the address so addresses cannot be probed
+     * @param email Email address of the user
+     */
+    public async requestPasswordReset(email: string): Promise<void> {
+        const uname = await this.client.query('SELECT Uname AS uname FROM Users WHERE Email = ? LIMIT 1;', [email])
+        .then(async res => (res.length == 0) ? undefined : await res[0].uname);
+        if(typeof uname === 'undefined') return;
+
+        const issued = await this.issueUserToken(uname, 'reset', 1);
+        await this.mailer.send({
+            to: issued.email,
+            subject: 'Reset your Roommate Portal password',
+            text: `Hi ${ issued.firstName },\n\nSomeone asked to reset the password for your Roommate Portal account '${ uname }'. Use the link below within the next hour to choose a new password:\n\n${ this.mailer.baseURL }/reset-password?token=${ issued.token }\n\nIf you did not ask for this you can ignore this email, your password has not been changed.`
+        });
+    }
+
+    /**
+     * Sets a new password using a password reset token and signs the user out everywhere
+     * @param token Token from the password reset link
+     * @param newPassword New password to set for user
+     */
+    public async resetPassword(token: string, newPassword: string): Promise<void> {
+        const user = await this.consumeUserToken(token, 'reset');
+
+        const hash = await bcrypt.hash(newPassword, await bcrypt.genSalt(8));
+        await this.client.execute('UPDATE Users SET PwdHash = ?, FailedLoginAttempts = 0, LockedUntil = NULL WHERE Uname = ?;', [hash, user.uname]);
+        await this.client.execute('UPDATE Sessions SET Active = 0 WHERE UID = (SELECT UID FROM Users WHERE Uname = ?) AND Active = 1;', [user.uname]);
+        await this.closeStaleStreams();
+    }
+
+    /**
+     * Emails a link that confirms the user owns their email address
+     * @param uname User to verify
+     */
+    public async sendEmailVerification(uname: string): Promise<void> {
+        const issued = await this.issueUserToken(uname, 'verify', 48);
+        await this.mailer.send({
+            to: issued.email,
+            subject: 'Verify your Roommate Portal email address',
+            text: `Hi ${ issued.firstName },\n\nPlease confirm that this is the email address for your Roommate Portal account '${ uname }' by opening the link below within the next 48 hours:\n\n${ this.mailer.baseURL }/verify-email?token=${ issued.token }`
+        });
+    }
+
+    /**
+     * Marks a user's email address as verified using an email verification token
+     * @param token Token from the verification link
+     */
+    public async verifyEmail(token: string): Promise<void> {
+        const user = await this.consumeUserToken(token, 'verify');
+
+        const res = await this.client.execute('UPDATE Users SET EmailVerified = 1 WHERE Uname = ? AND Email = ?;', [user.uname, user.email]);
+        if(res.affectedRows == 0) throw new InputError('Email Address Changed', 'The email address on this account has changed since this link was sent.', '');
+    }
+
+    /**
+     * Determines whether a specified username exists
+     * @param uname Username to validate
+     * @returns true/false if the user exists
+     */
+    public async userExists(uname: string): Promise<boolean> {
+        return await this.client.query('SELECT EXISTS(SELECT * FROM Users WHERE Uname = ?) AS present;', [uname])
+        .then(async res => Boolean(await res[0].present));
+    }
+
+    /**
+     * Determines whether a specified email address is in use
+     * @param email Email address to validate
+     * @returns true/false if the email address exists
+     */
+    public async emailExists(email: string): Promise<boolean> {
+        return await this.client.query('SELECT EXISTS(SELECT * FROM Users WHERE Email = ?) AS present;', [email])
+        .then(async res => Boolean(await res[0].present));
+    }
+
+    /**
+     * Creates a new user account and logs them in
+     * @param uname New account username
+     * @param password New account password
+     * @param firstname User's first name
+     * @param lastname User's last name
+     * @param email User's email address
+     * @param device IP address and user agent the user is signing up from
+     * @returns Dashboard object
+     */
+    public async createUser(uname: string, password: string, firstname: string, lastname: string, email: string, device?: { ip: string, userAgent: string }): Promise<Dashboard> {
+        if(await this.userExists(uname)) throw new InputError('Username Taken', `The username '${ uname }' is already in use by another user.`, uname);
+        if(await this.emailExists(email)) throw new InputError('Email Address Taken', `The email address '${ email }' is already in use by other user.`, email);
+
+        const hash = bcrypt.hash(password, await bcrypt.genSalt(8));
+        return await this.client.execute('INSERT INTO Users (UID, Uname, PwdHash, Fname, Lname, Email) VALUES(ID_TO_BIN(UUID()), ?, ?, ?, ?, ?);', [uname, await hash, firstname, lastname, email])
+        .then(async () => await this.sendEmailVerification(uname).catch(e => console.error(`Could not send verification email to ${ uname }: ${ e }`)))
+        .then(async () => await this.login(uname, password, device));
+    }
+
+    /**
+     * Determines whether a user is a member of a specified group
+     * @param uname Username of user
+     * @param gid Group ID of group to check
+     * @returns true/false if the user is a member of the group
+     */
+    public async isInGroup(uname: string, gid: string): Promise<boolean> {
+        return await this.client.query('SELECT EXISTS(SELECT * FROM Memberships RIGHT JOIN Users ON Memberships.UID = Users.UID WHERE Users.Uname = ? AND Memberships.GID = ID_TO_BIN(?) AND Memberships.LeftGroup IS NULL) AS inGroup;', [uname, gid])
+        .then(async res => Boolean(await res[0].inGroup));
+    }
+
+    /**
+     * Looks up the role of a current member of a group
+     * @param uname Username of user
+     * @param groupID Group ID of group to check
+     * @returns The member's role (owner | admin | member) or undefined if the user is not a member
+     */
+    public async getRole(uname: string, groupID: string): Promise<string | undefined> {
+        return await this.client.query('SELECT Memberships.Role AS role FROM Memberships RIGHT JOIN Users ON Memberships.UID = Users.UID WHERE Users.Uname = ? AND Memberships.GID = ID_TO_BIN(?) AND Memberships.LeftGroup IS NULL LIMIT 1;', [uname, groupID])
+        .then(async res => (res.length == 0) ? undefined : await res[0].role);
+    }
+
+    /**
+     * Determines whether a user is an owner or admin of a group
+     * @param uname Username of user
+     * @param groupID Group ID of group to check
+     * @returns true/false if the user can manage the group
+     */
+    public async isGroupAdmin(uname: string, groupID: string): Promise<boolean> {
+        const role = await this.getRole(uname, groupID);
+        return role === 'owner' || role === 'admin';
+    }
+
+    /**
+     * Throws an AuthorizationError unless a user is an owner or admin of a group
+     * @param uname Username of user
+     * @param groupID Group ID of group to check
+     * @param title Title of the error thrown
+     */
+    private async assertGroupAdmin(uname: string, groupID: string, title: string): Promise<void> {
+        if(!(await this.isGroupAdmin(uname, groupID))) throw new AuthorizationError(title, 'Only owners and admins of this group can perform this action.', uname);
+    }
+
+    /**
+     * Determines whether a group exists by its ID
+     * @param gid Group ID of group to check
+     * @returns true/false if the group exists
+     */
+    private async groupExists(gid: string): Promise<boolean> {
+        return await this.client.query('SELECT EXISTS(SELECT * FROM Groups WHERE GID = ID_TO_BIN(?)) AS present;', [gid])
+        .then(async res => Boolean(await res[0].present));
+    }
+
+    /**
+     * Adds a specified user to a group, users join through invite codes, invitations or approved join requests
+     * @param uname Username of user to add
+     * @param gid Group ID of group to add user to
+     */
+    private async joinGroup(uname: string, gid: string): Promise<void> {
+        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Could not find user '${ uname }'.`, uname)
+        if(!(await this.groupExists(gid))) throw new InputError('Group Not Found', `Could not find group identified by '${ gid }'`, gid);
+        if(await this.isInGroup(uname, gid)) throw new InputError('Already In Group', `${ uname } is already a member of this group.`, uname);
+
+        const group = await this.client.query('SELECT MaxUsers as max, Status as status, Name as name FROM Groups WHERE GID = ID_TO_BIN(?);', [gid]).then(async res => await res[0]);
+        if(await group.max != null && (await this.listGroupMembers(gid)).length >= await group.max) throw new InputError('Group Full', `The group '${ await group.name }' is at its maximum member capacity.`, gid);
+        if(await group.status == 'locked') throw new InputError('Group Locked', `The group '${ await group.name }' is locked.`, gid);
+
+        await this.client.execute('INSERT INTO Memberships (UID, GID, JoinedGroup) VALUES((SELECT UID FROM Users WHERE Uname = ? LIMIT 1), ID_TO_BIN(?), CURDATE());', [uname, gid]);
+
+        // invitations and requests for a group the user has now joined are no longer needed
+        await this.client.execute("UPDATE Invitations SET Status = 'accepted', Responded = NOW() WHERE GID = ID_TO_BIN(?) AND UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND Status = 'pending';", [gid, uname]);
+        await this.client.execute("UPDATE JoinRequests SET Status = 'cancelled' WHERE GID = ID_TO_BIN(?) AND UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND Status = 'pending';", [gid, uname]);
+        await this.emitEvent(gid, 'member.joined', { uname: uname });
+    }
+
+    public async lockGroup(uname: string, groupID: string): Promise<void> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Lock Group');
+
+        await this.client.execute("UPDATE Groups SET Status = 'locked' WHERE GID = ID_TO_BIN(?);", [groupID]);
+        await this.emitEvent(groupID, 'group.locked', { lockedBy: uname });
+    }
+
+    public async unlockGroup(uname: string, groupID: string): Promise<void> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Unlock Group');
+
+        await this.client.execute("UPDATE Groups SET Status = 'open' WHERE GID = ID_TO_BIN(?);", [groupID]);
+    }
+
+    /**
+     * Changes the name, description, member limit, currency or share method of a group
+     * The currency can only be changed before anything has been recorded in the group, recorded amounts are kept in the group's currency
+     * @param uname User making the change, must be an owner or admin
+     * @param groupID Group to change
+     * @param changes New values for the group, omitted properties are left unchanged
+     */
+    public async updateGroup(uname: string, groupID: string, changes: { name?: string, description?: string, maxMembers?: number | null, currency?: string, shareMethod?: string }): Promise<void> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Edit Group');
+        if(typeof changes.maxMembers === 'number' && (isNaN(changes.maxMembers) || changes.maxMembers < 1 || changes.maxMembers > 255)) throw new InputError('Invalid Member Limit', 'The member limit must be between 1 and 255.', String(changes.maxMembers));
+        if(typeof changes.shareMethod === 'string' && !ShareMethods.includes(changes.shareMethod)) throw new InputError('Invalid Share Method', `"${ changes.shareMethod }" is not a valid share method, must be ${ ShareMethods.join(' or ') }.`, changes.shareMethod);
+        if(typeof changes.maxMembers === 'number' && changes.maxMembers < (await this.listGroupMembers(groupID)).length) throw new InputError('Invalid Member Limit', 'The member limit cannot be lower than the current number of members.', String(changes.maxMembers));
+
+        const old = await this.client.query('SELECT Name AS name, Description AS description, MaxUsers AS maxMembers, Currency AS currency, ShareMethod AS shareMethod FROM Groups WHERE GID = ID_TO_BIN(?) LIMIT 1;', [groupID]).then(async res => await res[0]);
+        if(typeof changes.currency === 'string' && changes.currency != old.currency) {
+            const recorded = await this.client.query(`SELECT (EXISTS(SELECT * FROM Purchases WHERE GID = ID_TO_BIN(?))
+                OR EXISTS(SELECT * FROM IncentivesAvailable WHERE GID = ID_TO_BIN(?))
+                OR EXISTS(SELECT * FROM Payments WHERE GID = ID_TO_BIN(?))
+                OR EXISTS(SELECT * FROM RecurringExpenses WHERE GID = ID_TO_BIN(?))) AS recorded;`, [groupID, groupID, groupID, groupID])
+            .then(async res => Boolean(await res[0].recorded));
+            if(recorded) throw new InputError('Cannot Change Currency', 'The currency of a group cannot be changed once purchases, incentives or payments have been recorded in it.', changes.currency);
+        }
+        await this.client.execute('UPDATE Groups SET Name = ?, Description = ?, MaxUsers = ?, Currency = ?, ShareMethod = ? WHERE GID = ID_TO_BIN(?);', [changes.name ?? old.name, changes.description ?? old.description, (typeof changes.maxMembers === 'undefined') ? old.maxMembers : changes.maxMembers, changes.currency ?? old.currency, changes.shareMethod ?? old.shareMethod, groupID]);
+    }
+
+    /**
+     * Changes the role of a group member
+     * Owners and admins can promote members to admin and demote admins, only the owner can hand ownership to another member (becoming an admin themselves)
+     * @param uname User making the change
+     * @param groupID Group the member belongs to
+     * @param member Member whose role is changed
+     * @param role New role (owner | admin | member)
+     */
+    public async setRole(uname: string, groupID: string, member: string, role: string): Promise<void> {
+        if(!['owner', 'admin', 'member'].includes(role)) throw new InputError('Invalid Role', `"${ role }" is not a valid role, must be owner, admin or member.`, role);
+        const callerRole = await this.getRole(uname, groupID);
+        const memberRole = await this.getRole(member, groupID);
+        if(typeof memberRole === 'undefined') throw new InputError('Not In Group', `${ member } is not a member of the specified group.`, member);
+        if(callerRole !== 'owner' && callerRole !== 'admin') throw new AuthorizationError('Cannot Change Role', 'Only owners and admins of this group can change roles.', member);
+        if(memberRole === 'owner') throw new AuthorizationError('Cannot Change Role', 'The owner\'s role can only change by handing ownership to another member.', member);
+
+        if(role === 'owner') {
+            if(callerRole !== 'owner') throw new AuthorizationError('Cannot Change Role', 'Only the owner can hand ownership to another member.', member);
+            await this.client.execute("UPDATE Memberships SET Role = 'admin' WHERE UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND GID = ID_TO_BIN(?) AND LeftGroup IS NULL;", [uname, groupID]);
+        }
+        await this.client.execute('UPDATE Memberships SET Role = ? WHERE UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND GID = ID_TO_BIN(?) AND LeftGroup IS NULL;', [role, member, groupID]);
+    }
+
+    /**
+     * Removes another member from a group (e.g. a roommate that moved out), their past records are kept
+     * Admins can remove members, only the owner can remove admins and the owner cannot be removed
+     * @param uname User removing the member
+     * @param groupID Group to remove the member from
+     * @param member Member to remove
+     */
+    public async removeMember(uname: string, groupID: string, member: string): Promise<void> {
+        const callerRole = await this.getRole(uname, groupID);
+        const memberRole = await this.getRole(member, groupID);
+        if(typeof memberRole === 'undefined') throw new InputError('Not In Group', `${ member } is not a member of the specified group.`, member);
+        if(callerRole !== 'owner' && callerRole !== 'admin') throw new AuthorizationError('Cannot Remove Member', 'Only owners and admins of this group can remove members.', member);
+        if(memberRole === 'owner') throw new AuthorizationError('Cannot Remove Member', 'The owner of a group cannot be removed.', member);
+        if(memberRole === 'admin' && callerRole !== 'owner') throw new AuthorizationError('Cannot Remove Member', 'Only the owner can remove admins.', member);
+
+        await this.leaveGroup(member, groupID);
+    }
+
+    /**
+     * Generates an invite code that lets users join a group without approval until it expires, is used up or is revoked
+     * @param uname User creating the invite, must be an owner or admin
+     * @param groupID Group the invite is for
+     * @param hours Number of hours until the invite expires
+     * @param maxUses Number of times the invite can be used, null for unlimited
+     * @returns The new invite
+     */
+    public async createInvite(uname: string, groupID: string, hours: number, maxUses: number | null): Promise<Invite> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Create Invite');
+        if(!Number.isInteger(hours) || hours < 1 || hours > 720) throw new InputError('Invalid Expiry', 'Invites must expire within 1 to 720 hours (30 days).', String(hours));
+        if(maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > 100)) throw new InputError('Invalid Use Limit', 'Invites can be used 1 to 100 times.', String(maxUses));
+
+        const inviteID = crypto.randomUUID();
+        await this.client.execute('INSERT INTO Invites (InviteID, GID, Code, CreatedBy, Expires, MaxUses) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), ?, (SELECT UID FROM Users WHERE Uname = ?), ?, ?);', [inviteID, groupID, generateInviteCode(), uname, new Date(Date.now() + hours * 3600000), maxUses]);
+        return (await this.listInvites(uname, groupID)).filter(x => x.inviteID == inviteID)[0];
+    }
+
+    /**
+     * Queries the database for the invite codes of a group that can still be used
+     * @param uname User listing the invites, must be an owner or admin
+     * @param groupID Group to list invites of
+     * @returns Promise of an array containing each usable invite
+     */
+    public async listInvites(uname: string, groupID: string): Promise<Array<Invite>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot List Invites');
+
+        return await this.client.query('SELECT BIN_TO_ID(Invites.InviteID) AS inviteID, BIN_TO_ID(Invites.GID) AS groupID, Invites.Code AS code, Users.Uname AS createdBy, Invites.Created AS created, Invites.Expires AS expires, Invites.MaxUses AS maxUses, Invites.Uses AS uses, Invites.Revoked AS revoked FROM Invites LEFT JOIN Users ON Invites.CreatedBy = Users.UID WHERE Invites.GID = ID_TO_BIN(?) AND Invites.Revoked = 0 AND Invites.Expires > NOW() AND (Invites.MaxUses IS NULL OR Invites.Uses < Invites.MaxUses) ORDER BY Invites.Created DESC;', [groupID])
+        .then(async res => await res.map((x: any) => {
+            x.revoked = Boolean(x.revoked);
+            return x;
+        }));
+    }
+
+    /**
+     * Stops an invite code from being used
+     * @param uname User revoking the invite, must be an owner or admin
+     * @param groupID Group the invite is for
+     * @param inviteID Invite to revoke
+     */
+    public async revokeInvite(uname: string, groupID: string, inviteID: string): Promise<void> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Revoke Invite');
+
+        const res = await this.client.execute('UPDATE Invites SET Revoked = 1 WHERE InviteID = ID_TO_BIN(?) AND GID = ID_TO_BIN(?);', [inviteID, groupID]);
+        if(res.affectedRows == 0) throw new InputError('Invite Not Found', 'The invite ID provided is not an invite of this group.', inviteID);
+    }
+
+    /**
+     * Joins a group using an invite code, the group's lock and member limit are checked when the code is used
+     * @param uname User joining the group
+     * @param code Invite code
+     * @returns Group ID of the group joined
+     */
+    public async joinWithInvite(uname: string, code: string): Promise<string> {
+        const invite = await this.client.query('SELECT BIN_TO_ID(InviteID) AS inviteID, BIN_TO_ID(GID) AS groupID, Expires AS expires, MaxUses AS maxUses, Uses AS uses, Revoked AS revoked FROM Invites WHERE Code = ? LIMIT 1;', [code])
+        .then(async res => {
+            if(res.length == 0) throw new InputError('Invite Not Found', 'The invite code provided does not exist.', code);
+            return await res[0];
+        });
+        if(Boolean(invite.revoked) || new Date(invite.expires) <= new Date()) throw new InputError('Invite Expired', 'This invite code has expired or was revoked.', code);
+
+        // claim a use first so concurrent joins cannot exceed the limit, and give it back if joining fails
+        const claimed = await this.client.execute('UPDATE Invites SET Uses = Uses + 1 WHERE InviteID = ID_TO_BIN(?) AND (MaxUses IS NULL OR Uses < MaxUses);', [invite.inviteID]);
+        if(claimed.affectedRows == 0) throw new InputError('Invite Used Up', 'This invite code has reached its maximum number of uses.', code);
+        await this.joinGroup(uname, invite.groupID).catch(async e => {
+            await this.client.execute('UPDATE Invites SET Uses = Uses - 1 WHERE InviteID = ID_TO_BIN(?);', [invite.inviteID]);
+            throw e;
+        });
+
+        return invite.groupID;
+    }
+
+    /**
+     * Invites a specific user to a group, the invitation shows on their dashboard until they accept or decline it
+     * @param uname User sending the invitation, must be an owner or admin
+     * @param groupID Group the invitation is for
+     * @param invitee User being invited
+     */
+    public async inviteUser(uname: string, groupID: string, invitee: string): Promise<void> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Invite User');
+        if(!(await this.userExists(invitee))) throw new InputError('User Not Found', `Could not find user '${ invitee }'.`, invitee);
+        if(await this.isInGroup(invitee, groupID)) throw new InputError('Already In Group', `${ invitee } is already a member of this group.`, invitee);
+        const pending = await this.client.query("SELECT EXISTS(SELECT * FROM Invitations WHERE GID = ID_TO_BIN(?) AND UID = (SELECT UID FROM Users WHERE Uname = ?) AND Status = 'pending') AS pending;", [groupID, invitee])
+        .then(async res => Boolean(await res[0].pending));
+        if(pending) throw new InputError('Already Invited', `${ invitee } already has a pending invitation to this group.`, invitee);
+
+        await this.client.execute('INSERT INTO Invitations (InvitationID, GID, UID, InvitedBy) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), (SELECT UID FROM Users WHERE Uname = ?));', [groupID, invitee, uname]);
+    }
+
+    /**
+     * Queries the database for a user's pending invitations
+     * @param uname User to list invitations of
+     * @returns Promise of an array containing each pending invitation
+     */
+    public async listInvitations(uname: string): Promise<Array<Invitation>> {
+        return await this.client.query(`SELECT BIN_TO_ID(Invitations.InvitationID) AS invitationID, BIN_TO_ID(Invitations.GID) AS groupID, Groups.Name AS groupName, Invitee.Uname AS uname, Inviter.Uname AS invitedBy, Invitations.Created AS created, Invitations.Status AS status
+        FROM Invitations
+        LEFT JOIN Groups ON Invitations.GID = Groups.GID
+        LEFT JOIN Users AS Invitee ON Invitations.UID = Invitee.UID
+        LEFT JOIN Users AS Inviter ON Invitations.InvitedBy = Inviter.UID
+        WHERE Invitee.Uname = ? AND Invitations.Status = 'pending'
+        ORDER BY Invitations.Created DESC;`, [uname]);
+    }
+
+    /**
+     * Accepts or declines an invitation, the group's lock and member limit are checked on acceptance
+     * @param uname User responding, must be the invited user
+     * @param invitationID Invitation to respond to
+     * @param accept Whether to join the group
+     * @returns Group ID of the group the invitation was for
+     */
+    public async respondToInvitation(uname: string, invitationID: string, accept: boolean): Promise<string> {
+        const invitation = (await this.listInvitations(uname)).filter(x => x.invitationID == invitationID)[0];
+        if(typeof invitation === 'undefined') throw new InputError('Invitation Not Found', 'The invitation ID provided is not a pending invitation for this user.', invitationID);
+
+        if(accept) await this.joinGroup(uname, invitation.groupID);
+        await this.client.execute('UPDATE Invitations SET Status = ?, Responded = NOW() WHERE InvitationID = ID_TO_BIN(?);', [accept ? 'accepted' : 'declined', invitationID]);
+        return invitation.groupID;
+    }
+
+    /**
+     * Asks the admins of a group to let a user join
+     * @param uname User requesting to join
+     * @param groupID Group to join
+     * @param message Note to the group's admins
+     */
+    public async requestToJoin(uname: string, groupID: string, message?: string): Promise<void> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        if(await this.isInGroup(uname, groupID)) throw new InputError('Already In Group', `${ uname } is already a member of this group.`, uname);
+        if((await this.listUserJoinRequests(uname)).some(x => x.groupID == groupID)) throw new InputError('Already Requested', 'You already have a pending request to join this group.', groupID);
+        message = (typeof message == 'undefined') ? '' : message.substring(0, 255);
+
+        await this.client.execute('INSERT INTO JoinRequests (RequestID, GID, UID, Message) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ?);', [groupID, uname, message]);
+    }
+
+    /**
+     * Queries the database for the pending join requests of a group or a user
+     * @param column Column to filter on (GID | Uname)
+     * @param value Group ID or username to filter by
+     * @returns Promise of an array containing each pending join request
+     */
+    private async listPendingJoinRequests(column: 'GID' | 'Uname', value: string): Promise<Array<JoinRequest>> {
+        return await this.client.query(`SELECT BIN_TO_ID(JoinRequests.RequestID) AS requestID, BIN_TO_ID(JoinRequests.GID) AS groupID, Groups.Name AS groupName, Users.Uname AS uname, Users.Fname AS firstName, Users.Lname AS lastName, JoinRequests.Message AS message, JoinRequests.Requested AS requested, JoinRequests.Status AS status
+        FROM JoinRequests
+        LEFT JOIN Groups ON JoinRequests.GID = Groups.GID
+        LEFT JOIN Users ON JoinRequests.UID = Users.UID
+        WHERE ${ (column == 'GID') ? 'JoinRequests.GID = ID_TO_BIN(?)' : 'Users.Uname = ?' } AND JoinRequests.Status = 'pending'
+        ORDER BY JoinRequests.Requested ASC;`, [value]);
+    }
+
+    /**
+     * Queries the database for the pending requests to join a group
+     * @param uname User listing the requests, must be an owner or admin
+     * @param groupID Group to list requests of
+     * @returns Promise of an array containing each pending join request
+     */
+    public async listJoinRequests(uname: string, groupID: string): Promise<Array<JoinRequest>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot List Join Requests');
+        return await this.listPendingJoinRequests('GID', groupID);
+    }
+
+    /**
+     * Queries the database for a user's own pending requests to join groups
+     * @param uname User to list requests of
+     * @returns Promise of an array containing each pending join request
+     */
+    public async listUserJoinRequests(uname: string): Promise<Array<JoinRequest>> {
+        return await this.listPendingJoinRequests('Uname', uname);
+    }
+
+    /**
+     * Approves or rejects a request to join a group, the group's lock and member limit are checked on approval
+     * @param uname User deciding, must be an owner or admin
+     * @param groupID Group the request is for
+     * @param requestID Join request to decide
+     * @param approve Whether to let the user join
+     */
+    public async decideJoinRequest(uname: string, groupID: string, requestID: string, approve: boolean): Promise<void> {
+        const request = (await this.listJoinRequests(uname, groupID)).filter(x => x.requestID == requestID)[0];
+        if(typeof request === 'undefined') throw new InputError('Join Request Not Found', 'The request ID provided is not a pending request to join this group.', requestID);
+
+        if(approve) await this.joinGroup(request.uname, groupID);
+        await this.client.execute('UPDATE JoinRequests SET Status = ?, DecidedBy = (SELECT UID FROM Users WHERE Uname = ?), Decided = NOW() WHERE RequestID = ID_TO_BIN(?);', [approve ? 'approved' : 'rejected', uname, requestID]);
+    }
+
+    /**
+     * Withdraws a user's own pending request to join a group
+     * @param uname User withdrawing the request
+     * @param requestID Join request to withdraw
+     */
+    public async cancelJoinRequest(uname: string, requestID: string): Promise<void> {
+        if(!(await this.listUserJoinRequests(uname)).some(x => x.requestID == requestID)) throw new InputError('Join Request Not Found', 'The request ID provided is not a pending request of this user.', requestID);
+
+        await this.client.execute("UPDATE JoinRequests SET Status = 'cancelled' WHERE RequestID = ID_TO_BIN(?);", [requestID]);
+    }
+
+    /**
+     * Removes a user from a group
+     * @param uname Username of user to remove
+     * @param gid Group ID of group to remove user from
+     */
+    public async leaveGroup(uname: string, gid: string) {
+        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Could not find user '${uname}'.`, uname);
+        if(!(await this.groupExists(gid))) throw new InputError('Group Not Found', `Could not find group identified by '${ gid }'`, gid);
+        if(!(await this.isInGroup(uname, gid))) throw new InputError('Not In Group', `${ uname } is not a member of the specified group.`, uname);
+        if(await this.getRole(uname, gid) === 'owner' && (await this.listGroupMembers(gid)).length > 1) throw new InputError('Owner Cannot Leave', 'The owner must hand ownership to another member before leaving the group.', uname);
+
+        await this.client.execute('UPDATE Memberships SET LeftGroup = CURDATE() WHERE UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND GID = ID_TO_BIN(?) AND LeftGroup IS NULL;', [uname, gid]);
+        await this.emitEvent(gid, 'member.left', { uname: uname });
+        this.live.disconnect(x => x.groupID == gid && x.uname == uname, 'You are no longer a member of this group.');
+    }
+
+    /**
+     * Creates a new user groups
+     * @param owner User creating the group, added as a member with the owner role
+     * @param name Group name to assign
+     * @param description Breif description to assign
+     * @param status Indicates whether new members can join after the group has been created (open | locked)
+     * @param maxMembers Maximum members allowed in the group
+     * @param members List of users to invite to the group, they become members once they accept (a locked group cannot be joined, so it is created without invitations)
+     * @param currency Currency the group's records are kept and settled in
+     * @returns Object containing information about the new group
+     */
+    public async createGroup(owner: string, name: string, description: string, status: string, maxMembers: number | undefined, members: Array<string>, currency = 'USD'): Promise<Group | undefined> {
+        if(!members.includes(owner)) members = [owner, ...members];
+        if(typeof maxMembers === 'number' && members.length > maxMembers) maxMembers = members.length;
+        if(status != 'open' && status != 'locked') throw new InputError('Invalid Group Status', `"${ status }" is not a valid group status.`, status);
+        if(status == 'locked' && members.some(x => x != owner)) throw new InputError('Group Locked', 'Members cannot be invited to a locked group, create the group open or unlock it before inviting members.', status);
+
+        const groupID = crypto.randomUUID();
+        await this.client.execute('INSERT INTO Groups (GID, Name, Description, Status, MaxUsers, Currency) VALUES(ID_TO_BIN(?), ?, ?, ?, ?, ?)', [groupID, name, description, 'open', maxMembers, currency]);
+        await this.joinGroup(owner, groupID);
+        await this.client.execute("UPDATE Memberships SET Role = 'owner' WHERE UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND GID = ID_TO_BIN(?) AND LeftGroup IS NULL;", [owner, groupID]);
+        for(const uname of members.filter(x => x != owner)) await this.inviteUser(owner, groupID, uname);
+        if(status == 'locked') await this.lockGroup(owner, groupID);
+        return await this.getGroup(groupID);
+    }
+
+    /**
+     * Adds a user's purchase to a group's records
+     * @param uname User that made the purchase
+     * @param groupID Group ID to apply the purchase to
+     * @param amount Purchase recipt total
+     * @param store Store where purchase was made
+     * @param date Date that the purchase was made
+     * @param notes Additional comments to tag with purchase
+     * @param split How the purchase is divided between members, split evenly across the group if omitted
+     * @param currency Currency the purchase was paid in, the group's currency if omitted
+     * @param categoryID Category of the purchase, picked by the group's store rules if omitted or left uncategorized if null
+     * @returns ID of the new purchase
+     */
+    public async addPurchase(uname: string, groupID: string, amount: number, store?: string, date?: Date, notes?: string, split?: SplitRule, currency?: string, categoryID?: string | null): Promise<string> {
+        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Purchase could not be added because '${ uname }' could not be found.`, uname);
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Purchase coudl not be added because the group '${ groupID }' could not be found.`, groupID);
+        if(!(await this.isInGroup(uname, groupID))) throw new InputError('User Not In Group', `${ uname } is not a member of the group ${ groupID }.`, `${uname} -> ${groupID}`);
+        store = (typeof store == 'undefined') ? '' : store;
+        date = (typeof date == 'undefined') ? new Date() : date;
+        notes = (typeof notes == 'undefined') ? '' : notes;
+        currency = (typeof currency == 'undefined') ? await this.getGroupCurrency(groupID) : currency;
+        categoryID = (typeof categoryID == 'undefined') ? matchCategory(store, await this.listCategoryRules(groupID)) ?? null : categoryID;
+        if(categoryID !== null) await this.assertCategoryInGroup(groupID, categoryID);
+        if(isNaN(amount)) throw new InputError('Invalid Amount', 'The purchase amount must be a number.', String(amount));
+        if(Math.abs(await this.convertAmount(groupID, amount, currency, date)) >= 1000) throw new InputError('Amount Too Large', 'Purchases must be less than 1000.00, split larger purchases into several.', String(amount));
+        if(typeof split !== 'undefined') await this.validateSplit(groupID, amount, split);
+        await this.assertPeriodOpen(groupID, date);
+
+        // add incentives if applicable
+        await this.client.query('SELECT BIN_TO_ID(IID) AS incentiveID FROM IncentivesAvailable WHERE GID = ID_TO_BIN(?) AND Begin < NOW() AND (End IS NULL OR End > NOW()) AND OnPurchase = 1;', [groupID])
+        .then(async res => await Promise.all(await res.map(async (incentive: { incentiveID: string }) => await this.addIncentive(uname, incentive.incentiveID, `Added by purchase on ${ date?.toLocaleDateString() }.`))));
+        const purchaseID = crypto.randomUUID();
+        await this.client.transaction(async storage => {
+            await storage.execute('INSERT INTO Purchases (PID, UID, GID, Date, Store, Amount, Currency, CategoryID, Notes) VALUES(ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ID_TO_BIN(?), ?, ?, ?, ?, ID_TO_BIN(?), ?);', [purchaseID, uname, groupID, toSQLDate(date), store, amount, currency, categoryID, notes]);
+            await this.setPurchaseSplit(storage, purchaseID, amount, split);
+        });
+        await this.emitEvent(groupID, 'purchase.added', await this.getPurchase(purchaseID));
+        return purchaseID;
+    }
+
+    /**
+     * Looks up the currency a group's records are kept in
+     * @param groupID Group to look up
+     * @returns Three letter currency code
+     */
+    private async getGroupCurrency(groupID: string): Promise<string> {
+        return await this.client.query('SELECT Currency AS currency FROM Groups WHERE GID = ID_TO_BIN(?) LIMIT 1;', [groupID])
+        .then(async res => {
+            if(await res.length < 1) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+            return await res[0].currency;
+        });
+    }
+
+    /**
+     * Converts an amount to a group's currency with the exchange rate in effect on a given day
+     * @param groupID Group to convert for
+     * @param amount Amount to convert
+     * @param currency Currency of the amount
+     * @param date Day the amount was spent
+     * @returns The amount in the group's currency
+     */
+    private async convertAmount(groupID: string, amount: number, currency: string, date: Date): Promise<number> {
+        return await this.client.query('SELECT CONVERT_AMOUNT(ID_TO_BIN(?), ?, ?, ?) AS amount;', [groupID, amount, currency, toSQLDate(date)])
+        .then(async res => {
+            if(await res[0].amount == null) throw new InputError('No Exchange Rate', `The group has no exchange rate for ${ currency } on or before ${ toSQLDate(date) }.`, currency);
+            return Number(await res[0].amount);
+        });
+    }
+
+    /**
+     * Checks that a split rule only names current group members and divides the amount cleanly
+     * @param groupID Group the purchase belongs to
+     * @param amount Purchase total
+     * @param split Split rule to check
+     */
+    private async validateSplit(groupID: string, amount: number, split: SplitRule): Promise<void> {
+        allocateSplit(amount, split);
+        for(const part of split.parts) {
+            if(!(await this.isInGroup(part.uname, groupID))) throw new InputError('Split Member Not In Group', `${ part.uname } is not a member of this group.`, part.uname);
+        }
+    }
+
+    /**
+     * Replaces the stored allocations of a purchase
+     * @param storage Storage to write with, the transaction the purchase is being saved in
+     * @param purchaseID Purchase to update
+     * @param amount Purchase total to divide
+     * @param split Split rule to apply, or undefined to split the purchase evenly across the group
+     */
+    private async setPurchaseSplit(storage: Storage, purchaseID: string, amount: number, split?: SplitRule): Promise<void> {
+        await storage.execute('DELETE FROM PurchaseSplits WHERE PID = ID_TO_BIN(?);', [purchaseID]);
+        if(typeof split === 'undefined') {
+            await storage.execute("UPDATE Purchases SET SplitMethod = 'even' WHERE PID = ID_TO_BIN(?);", [purchaseID]);
+            return;
+        }
+
+        const allocations = allocateSplit(amount, split);
+        await storage.execute('UPDATE Purchases SET SplitMethod = ? WHERE PID = ID_TO_BIN(?);', [split.method, purchaseID]);
+        for(let i = 0; i < split.parts.length; i++) {
+            await storage.execute('INSERT INTO PurchaseSplits (PID, UID, Value, Amount) VALUES(ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ?, ?);', [purchaseID, split.parts[i].uname, (split.method == 'equal') ? 1 : split.parts[i].value, allocations[i].amount]);
+        }
+    }
+
+    /**
+     * Turns the transactions of a bank or card statement into candidate purchases and flags likely re-imports
+     * A candidate is a duplicate when the user already logged a purchase in the group (or an earlier statement row) with the same date, amount and store
+     * @param uname User importing the statement
+     * @param groupID Group the purchases would be added to
+     * @param rows Transactions parsed from the statement
+     * @returns Candidate purchases for the user to pick from, credits (refunds, payments) are flagged
+     */
+    public async previewImport(uname: string, groupID: string, rows: Array<StatementRow>): Promise<Array<ImportCandidate>> {
+        if(rows.length == 0) return [];
+        const dates = rows.map(x => x.date).sort();
+        const key = (date: string, amount: number, store: string) => `${ date }|${ amount.toFixed(2) }|${ store.toLowerCase() }`;
+
+        const existing = await this.client.query('SELECT Date AS date, Amount AS amount, Store AS store FROM Purchases WHERE GID = ID_TO_BIN(?) AND UID = (SELECT UID FROM Users WHERE Uname = ?) AND Voided = 0 AND Date BETWEEN ? AND ?;', [groupID, uname, dates[0], dates[dates.length - 1]])
+        .then(async res => new Set(res.map((x: any) => key(new Date(x.date).toISOString().split('T')[0], Number(x.amount), String(x.store ?? '')))));
+
+        return rows.map(x => {
+            const store = toStoreName(x.description);
+            const candidate = key(x.date, x.amount, store);
+            const duplicate = existing.has(candidate);
+            existing.add(candidate);
+
+            return {
+                row: x.row,
+                date: x.date,
+                amount: x.amount,
+                store: store,
+                notes: [x.description, x.memo].filter(y => y != '' && y != store).join(' - ').substring(0, 1024),
+                credit: x.amount <= 0,
+                duplicate: duplicate
+            }
+        });
+    }
+
+    /**
+     * Adds the statement rows a user confirmed as purchases, rows that fail validation are reported instead of stopping the import
+     * @param uname User importing the purchases
+     * @param groupID Group to add the purchases to
+     * @param rows Confirmed rows with their (possibly edited) values
+     * @returns Outcome of each row, the new purchase ID or the error that prevented it
+     */
+    public async importPurchases(uname: string, groupID: string, rows: Array<{ row: number, date: Date, amount: number, store: string, notes: string }>): Promise<Array<ImportResult>> {
+        const res: Array<ImportResult> = [];
+        for(const row of rows) {
+            try {
+                res.push({ row: row.row, purchaseID: await this.addPurchase(uname, groupID, row.amount, row.store, row.date, row.notes), error: null });
+            } catch (e) {
+                if(!(e instanceof InputError)) throw e;
+                res.push({ row: row.row, purchaseID: null, error: e.report() });
+            }
+        }
+        return res;
+    }
+
+    /**
+     * Determines whether an incentive exists by its ID
+     * @param incentiveID Incentive to validate
+     * @returns true/false if the incentive exists
+     */
+    public async incentiveExists(incentiveID: string): Promise<boolean> {
+        return await this.client.query('SELECT EXISTS(SELECT * FROM IncentivesAvailable WHERE IID = ID_TO_BIN(?)) AS present;', [incentiveID])
+        .then(async res => Boolean(await res[0].present));
+    }
+
+    /**
+     * Looks up the group that an incentive belongs to
+     * @param incentiveID Incentive to look up
+     * @returns Group ID of the group offering the incentive
+     */
+    public async getIncentiveGroup(incentiveID: string): Promise<string> {
+        return await this.client.query('SELECT BIN_TO_ID(GID) AS groupID FROM IncentivesAvailable WHERE IID = ID_TO_BIN(?) LIMIT 1;', [incentiveID])
+        .then(async res => {
+            if(await res.length < 1) throw new InputError('Incentive Not Found', 'The incentive ID provided could not be found.', incentiveID);
+            return await res[0].groupID;
+        });
+    }
+
+    /**
+     * Creates a new group incentive
+     * @param uname User creating the incentive, must be an owner or admin
+     * @param groupID Group to assign incentive to
+     * @param name Name of the incentive
+     * @param amount Value of the incentive
+     * @param onPurchase Whether the incentive should be invoked by a purchase
+     * @param description Description of the incentive
+     */
+    public async createNewIncentive(uname: string, groupID: string, name: string, amount: number, onPurchase: boolean, description?: string): Promise<void> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', 'Could not create incentive because the group could not be found.', groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Create Incentive');
+        description = (typeof description == 'undefined') ? '' : description;
+
+        await this.client.execute('INSERT INTO IncentivesAvailable (IID, GID, Name, Description, Amount, Begin, OnPurchase) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), ?, ?, ?, CURDATE(), ?);', [groupID, name, description, amount, onPurchase]);
+        await this.emitEvent(groupID, 'incentive.updated', { incentives: await this.listGroupIncentives(groupID) });
+    }
+
+    /**
+     * Changes the details of a group incentive, incentives already claimed keep counting at the new amount
+     * @param uname User making the change, must be an owner or admin
+     * @param incentiveID Incentive to change
+     * @param changes New values for the incentive, omitted properties are left unchanged
+     */
+    public async updateIncentive(uname: string, incentiveID: string, changes: { name?: string, amount?: number, onPurchase?: boolean, description?: string }): Promise<void> {
+        const groupID = await this.getIncentiveGroup(incentiveID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Edit Incentive');
+        if(typeof changes.amount !== 'undefined' && isNaN(changes.amount)) throw new InputError('Invalid Amount', 'The incentive amount must be a number.', String(changes.amount));
+
+        const old = (await this.listGroupIncentives(groupID)).filter(x => x.incentiveID == incentiveID)[0];
+        if(typeof old === 'undefined') throw new InputError('Incentive Not Available', 'Incentives that have ended cannot be changed.', incentiveID);
+        await this.client.execute('UPDATE IncentivesAvailable SET Name = ?, Description = ?, Amount = ?, OnPurchase = ? WHERE IID = ID_TO_BIN(?);', [changes.name ?? old.incentiveName, changes.description ?? old.description, changes.amount ?? old.amount, changes.onPurchase ?? old.onPurchase, incentiveID]);
+        await this.emitEvent(groupID, 'incentive.updated', { incentives: await this.listGroupIncentives(groupID) });
+    }
+
+    /**
+     * Stops an incentive from being offered, records already claimed are kept
+     * @param uname User ending the incentive, must be an owner or admin
+     * @param incentiveID Incentive to end
+     */
+    public async endIncentive(uname: string, incentiveID: string): Promise<void> {
+        const groupID = await this.getIncentiveGroup(incentiveID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot End Incentive');
+
+        await this.client.execute('UPDATE IncentivesAvailable SET End = CURDATE() WHERE IID = ID_TO_BIN(?) AND End IS NULL;', [incentiveID]);
+        await this.emitEvent(groupID, 'incentive.updated', { incentives: await this.listGroupIncentives(groupID) });
+    }
+
+    /**
+     * Add's a user's incentive action to a group's records
+     * @param uname User that performed incentive
+     * @param incentiveID Incentive that was performed
+     * @param notes Additional comments on the action
+     * @param date Date that the incentive was performed
+     * @returns ID of the new incentive record
+     */
+    public async addIncentive(uname: string, incentiveID: string, notes?: string, date?: Date): Promise<string> {
+        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Incentive could not be added because '${ uname }' could not be found.`, uname);
+        if(!(await this.incentiveExists(incentiveID))) throw new InputError('Incentive Not Found', 'Incentive could not be added because the ID provided could not be found.', incentiveID);
+        notes = (typeof notes == 'undefined') ? '' : notes;
+        date  = (typeof date == 'undefined') ? new Date() : date;
+        await this.assertPeriodOpen(await this.getIncentiveGroup(incentiveID), date);
+
+        const recordID = crypto.randomUUID();
+        await this.client.execute('INSERT INTO Incentives (RID, UID, IID, Date, Notes) VALUES(ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ID_TO_BIN(?), ?, ?);', [recordID, uname, incentiveID, toSQLDate(date), notes]);
+        const record = await this.getIncentiveRecord(recordID);
+        await this.emitEvent(record.groupID, 'incentive.claimed', record);
+        return recordID;
+    }
+
+    /**
+     * Determines whether a user may edit, void or delete a record in a group
+     * Members may change their own records, owners and admins may change any record in the group
+     * @param uname User attempting the change
+     * @param author User that created the record
+     * @param groupID Group the record belongs to
+     * @returns true/false if the user may modify the record
+     */
+    private async canModifyRecord(uname: string, author: string, groupID: string): Promise<boolean> {
+        return (uname === author && await this.isInGroup(uname, groupID)) || await this.isGroupAdmin(uname, groupID);
+    }
+
+    /**
+     * Stores a before/after snapshot of a change made to a purchase or incentive record
+     * @param uname User that made the change
+     * @param groupID Group the record belongs to
+     * @param recordID ID of the changed record
+     * @param recordType Type of record (purchase | incentive)
+     * @param action Kind of change (edit | void | restore | delete)
+     * @param oldValue Record before the change
+     * @param newValue Record after the change, null if deleted
+     */
+    private async recordRevision(uname: string, groupID: string, recordID: string, recordType: string, action: string, oldValue: object, newValue: object | null): Promise<void> {
+        await this.client.execute('INSERT INTO Revisions (RevID, GID, RecordID, RecordType, UID, Action, OldValue, NewValue) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), ID_TO_BIN(?), ?, (SELECT UID FROM Users WHERE Uname = ?), ?, ?, ?);', [groupID, recordID, recordType, uname, action, JSON.stringify(oldValue), (newValue === null) ? null : JSON.stringify(newValue)]);
+    }
+
+    /**
+     * Edits, voids or restores a purchase and records the change in the group's revision history
+     * @param uname User making the change
+     * @param purchaseID Purchase to change
+     * @param changes New values for the purchase, omitted properties are left unchanged
+     * @returns The updated purchase
+     */
+    public async editPurchase(uname: string, purchaseID: string, changes: { amount?: number, currency?: string, store?: string, categoryID?: string | null, date?: Date, notes?: string, voided?: boolean, split?: SplitRule | null }): Promise<PurchaseRecord> {
+        const old = await this.getPurchase(purchaseID);
+        if(!(await this.canModifyRecord(uname, old.uname, old.groupID))) throw new AuthorizationError('Cannot Modify Purchase', 'Only the user that logged this purchase or a group admin can change it.', purchaseID);
+        if(typeof changes.amount !== 'undefined' && isNaN(changes.amount)) throw new InputError('Invalid Amount', 'The purchase amount must be a number.', String(changes.amount));
+
+        const updated = {
+            amount: (typeof changes.amount === 'undefined') ? old.amount : changes.amount,
+            currency: (typeof changes.currency === 'undefined') ? old.currency : changes.currency,
+            store: (typeof changes.store === 'undefined') ? old.store : changes.store,
+            categoryID: (typeof changes.categoryID === 'undefined') ? old.categoryID : changes.categoryID,
+            date: (typeof changes.date === 'undefined') ? fromSQLDate(old.date) : changes.date,
+            notes: (typeof changes.notes === 'undefined') ? old.notes : changes.notes,
+            voided: (typeof changes.voided === 'undefined') ? old.voided : changes.voided,
+            split: (typeof changes.split === 'undefined') ? old.split : changes.split
+        }
+        const action = (updated.voided == old.voided) ? 'edit' : (updated.voided ? 'void' : 'restore');
+        if(updated.split !== null) await this.validateSplit(old.groupID, updated.amount, updated.split);
+        await this.convertAmount(old.groupID, updated.amount, updated.currency, updated.date);
+        if(updated.categoryID !== null) await this.assertCategoryInGroup(old.groupID, updated.categoryID);
+        await this.assertPeriodOpen(old.groupID, fromSQLDate(old.date));
+        await this.assertPeriodOpen(old.groupID, updated.date);
+
+        await this.client.transaction(async storage => {
+            await storage.execute('UPDATE Purchases SET Amount = ?, Currency = ?, Store = ?, CategoryID = ID_TO_BIN(?), Date = ?, Notes = ?, Voided = ? WHERE PID = ID_TO_BIN(?);', [updated.amount, updated.currency, updated.store, updated.categoryID, toSQLDate(updated.date), updated.notes, updated.voided, purchaseID]);
+            await this.setPurchaseSplit(storage, purchaseID, updated.amount, updated.split ?? undefined);
+        });
+        if(action == 'void') await this.removeAttachments(purchaseID);
+        const current = await this.getPurchase(purchaseID);
+        await this.recordRevision(uname, old.groupID, purchaseID, 'purchase', action, old, current);
+        await this.emitEvent(old.groupID, 'purchase.edited', { ...current, action: action, editedBy: uname });
+        return current;
+    }
+
+    /**
+     * Permanently deletes a purchase, keeping a copy of it in the group's revision history
+     * @param uname User deleting the purchase
+     * @param purchaseID Purchase to delete
+     */
+    public async deletePurchase(uname: string, purchaseID: string): Promise<void> {
+        const old = await this.getPurchase(purchaseID);
+        if(!(await this.canModifyRecord(uname, old.uname, old.groupID))) throw new AuthorizationError('Cannot Delete Purchase', 'Only the user that logged this purchase or a group admin can delete it.', purchaseID);
+        await this.assertPeriodOpen(old.groupID, fromSQLDate(old.date));
+
+        await this.removeAttachments(purchaseID);
+        await this.client.execute('DELETE FROM Purchases WHERE PID = ID_TO_BIN(?);', [purchaseID]);
+        await this.recordRevision(uname, old.groupID, purchaseID, 'purchase', 'delete', old, null);
+        await this.emitEvent(old.groupID, 'purchase.deleted', { purchaseID: purchaseID, deletedBy: uname });
+    }
+
+    /**
+     * Attaches a receipt (JPEG, PNG or PDF) to a purchase, the file type is detected from its contents
+     * @param uname User uploading the receipt
+     * @param purchaseID Purchase the receipt belongs to
+     * @param fileName Original name of the uploaded file
+     * @param content File contents
+     * @returns Metadata of the new attachment
+     */
+    public async addAttachment(uname: string, purchaseID: string, fileName: string, content: Uint8Array): Promise<Attachment> {
+        const purchase = await this.getPurchase(purchaseID);
+        if(!(await this.canModifyRecord(uname, purchase.uname, purchase.groupID))) throw new AuthorizationError('Cannot Modify Purchase', 'Only the user that logged this purchase or a group admin can attach receipts to it.', purchaseID);
+        if(purchase.voided) throw new InputError('Purchase Voided', 'Receipts cannot be attached to a voided purchase.', purchaseID);
+        if((await this.listAttachments(purchaseID)).length >= MaxAttachmentsPerPurchase) throw new InputError('Too Many Attachments', `A purchase cannot have more than ${ MaxAttachmentsPerPurchase } attachments.`, purchaseID);
+        const mimeType = this.attachments.validate(content);
+
+        const attachmentID = crypto.randomUUID();
+        await this.attachments.save(attachmentID, content);
+        await this.client.execute('INSERT INTO Attachments (AttachID, PID, UID, FileName, MimeType, Size) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ?, ?, ?);', [attachmentID, purchaseID, uname, fileName.substring(0, 100), mimeType, content.length])
+        .catch(async e => {
+            await this.attachments.remove(attachmentID);
+            throw e;
+        });
+        return await this.getAttachment(attachmentID);
+    }
+
+    /**
+     * Deletes a receipt attached to a purchase along with its stored file
+     * @param uname User deleting the receipt
+     * @param attachmentID Attachment to delete
      */
-    public async changeUsername(oldUname: string, newUname: string): Promise<void> {
-        await this.client.execute('UPDATE Users SET Uname = ? WHERE Uname = ?;', [newUname, oldUname]);
+    public async deleteAttachment(uname: string, attachmentID: string): Promise<void> {
+        const attachment = await this.getAttachment(attachmentID);
+        const purchase = await this.getPurchase(attachment.purchaseID);
+        if(!(await this.canModifyRecord(uname, purchase.uname, purchase.groupID))) throw new AuthorizationError('Cannot Delete Attachment', 'Only the user that logged this purchase or a group admin can delete its attachments.', attachmentID);
+
+        await this.client.execute('DELETE FROM Attachments WHERE AttachID = ID_TO_BIN(?);', [attachmentID]);
+        await this.attachments.remove(attachmentID);
     }
 
     /**
-     * Changes a user's email address
-     * @param uname Username of the selected user
-     * @param email New email address to set
+     * Deletes every receipt attached to a purchase along with their stored files
+     * @param purchaseID Purchase to clear
      */
-    public async changeEmail(uname: string, email: string): Promise<void> {
-        await this.client.execute('UPDATE Users SET Email = ? WHERE Uname = ?;', [email, uname]);
+    private async removeAttachments(purchaseID: string): Promise<void> {
+        const attachments = await this.listAttachments(purchaseID);
+        await this.client.execute('DELETE FROM Attachments WHERE PID = ID_TO_BIN(?);', [purchaseID]);
+        await Promise.all(attachments.map(x => this.attachments.remove(x.attachmentID)));
     }
 
     /**
-     * Determines whether a specified username exists
-     * @param uname Username to validate
-     * @returns true/false if the user exists
+     * Edits, voids or restores a claimed incentive and records the change in the group's revision history
+     * @param uname User making the change
+     * @param recordID Incentive record to change
+     * @param changes New values for the record, omitted properties are left unchanged
+     * @returns The updated incentive record
      */
-    public async userExists(uname: string): Promise<boolean> {
-        return await this.client.query('SELECT EXISTS(SELECT * FROM Users WHERE Uname = ?) AS present;', [uname])
-        .then(async res => Boolean(await res[0].present));
+    public async editIncentiveRecord(uname: string, recordID: string, changes: { date?: Date, notes?: string, voided?: boolean }): Promise<IncentiveRecord> {
+        const old = await this.getIncentiveRecord(recordID);
+        if(!(await this.canModifyRecord(uname, old.uname, old.groupID))) throw new AuthorizationError('Cannot Modify Incentive Record', 'Only the user that claimed this incentive or a group admin can change it.', recordID);
+
+        const updated = {
+            date: (typeof changes.date === 'undefined') ? fromSQLDate(old.date) : changes.date,
+            notes: (typeof changes.notes === 'undefined') ? old.notes : changes.notes,
+            voided: (typeof changes.voided === 'undefined') ? old.voided : changes.voided
+        }
+        const action = (updated.voided == old.voided) ? 'edit' : (updated.voided ? 'void' : 'restore');
+        await this.assertPeriodOpen(old.groupID, fromSQLDate(old.date));
+        await this.assertPeriodOpen(old.groupID, updated.date);
+
+        await this.client.execute('UPDATE Incentives SET Date = ?, Notes = ?, Voided = ? WHERE RID = ID_TO_BIN(?);', [toSQLDate(updated.date), updated.notes, updated.voided, recordID]);
+        const current = await this.getIncentiveRecord(recordID);
+        await this.recordRevision(uname, old.groupID, recordID, 'incentive', action, old, current);
+        await this.emitEvent(old.groupID, 'incentive.edited', { ...current, action: action, editedBy: uname });
+        return current;
     }
 
     /**
-     * Determines whether a specified email address is in use
-     * @param email Email address to validate
-     * @returns true/false if the email address exists
+     * Permanently deletes a claimed incentive, keeping a copy of it in the group's revision history
+     * @param uname User deleting the record
+     * @param recordID Incentive record to delete
      */
-    public async emailExists(email: string): Promise<boolean> {
-        return await this.client.query('SELECT EXISTS(SELECT * FROM Users WHERE Email = ?) AS present;', [email])
-        .then(async res => Boolean(await res[0].present));
+    public async deleteIncentiveRecord(uname: string, recordID: string): Promise<void> {
+        const old = await this.getIncentiveRecord(recordID);
+        if(!(await this.canModifyRecord(uname, old.uname, old.groupID))) throw new AuthorizationError('Cannot Delete Incentive Record', 'Only the user that claimed this incentive or a group admin can delete it.', recordID);
+        await this.assertPeriodOpen(old.groupID, fromSQLDate(old.date));
+
+        await this.client.execute('DELETE FROM Incentives WHERE RID = ID_TO_BIN(?);', [recordID]);
+        await this.recordRevision(uname, old.groupID, recordID, 'incentive', 'delete', old, null);
+        await this.emitEvent(old.groupID, 'incentive.deleted', { recordID: recordID, deletedBy: uname });
     }
 
     /**
-     * Creates a new user account and logs them in
-     * @param uname New account username
-     * @param password New account password
-     * @param firstname User's first name
-     * @param lastname User's last name
-     * @param email User's email address
-     * @returns Dashboard object
+     * Creates a recurring expense template that is posted as a purchase on a schedule
+     * @param uname User that pays the expense
+     * @param groupID Group to post the expense to
+     * @param amount Amount of each posted purchase
+     * @param schedule When the expense is posted
+     * @param store Store or label to post the expense under
+     * @param notes Additional comments to tag each posted purchase with
+     * @returns The new recurring expense
      */
-    public async createUser(uname: string, password: string, firstname: string, lastname: string, email: string): Promise<Dashboard> {
-        if(await this.userExists(uname)) throw new InputError('Username Taken', `The username '${ uname }' is already in use by another user.`, uname);
-        if(await this.emailExists(email)) throw new InputError('Email Address Taken', `The email address '${ email }' is already in use by other user.`, email);
+    public async createRecurringExpense(uname: string, groupID: string, amount: number, schedule: Schedule, store?: string, notes?: string): Promise<RecurringExpense> {
+        if(!(await this.isInGroup(uname, groupID))) throw new InputError('User Not In Group', `${ uname } is not a member of the group ${ groupID }.`, `${uname} -> ${groupID}`);
+        if(isNaN(amount)) throw new InputError('Invalid Amount', 'The expense amount must be a number.', String(amount));
+        if(Math.abs(amount) >= 1000) throw new InputError('Amount Too Large', 'Recurring expenses must be less than 1000.00 like the purchases they post, split larger expenses into several.', String(amount));
+        validateSchedule(schedule);
+        store = (typeof store == 'undefined') ? '' : store;
+        notes = (typeof notes == 'undefined') ? '' : notes;
 
-        const hash = bcrypt.hash(password, await bcrypt.genSalt(8));
-        return await this.client.execute('INSERT INTO Users (UID, Uname, PwdHash, Fname, Lname, Email) VALUES(ID_TO_BIN(UUID()), ?, ?, ?, ?, ?);', [uname, await hash, firstname, lastname, email])
-        .then(async () => await this.login(uname, password));
+        const recurringID = crypto.randomUUID();
+        await this.client.execute('INSERT INTO RecurringExpenses (RecID, GID, UID, Store, Amount, Notes, Cadence, Every, DayOfMonth, StartDate, EndDate) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ?, ?, ?, ?, ?, ?, ?, ?);', [recurringID, groupID, uname, store, amount, notes, schedule.cadence, schedule.every, schedule.dayOfMonth, toSQLDate(schedule.startDate), (schedule.endDate === null) ? null : toSQLDate(schedule.endDate)]);
+        return await this.getRecurringExpense(recurringID);
     }
 
     /**
-     * Determines whether a user is a member of a specified group
-     * @param uname Username of user
-     * @param gid Group ID of group to check
-     * @returns true/false if the user is a member of the group
+     * Changes a recurring expense template, occurrences that were already posted are left as they are
+     * @param uname User making the change, must be the user that pays the expense or a group admin
+     * @param groupID Group the expense belongs to
+     * @param recurringID Recurring expense to change
+     * @param changes New values for the template, omitted properties are left unchanged
+     * @returns The updated recurring expense
      */
-    private async isInGroup(uname: string, gid: string): Promise<boolean> {
-        return await this.client.query('SELECT EXISTS(SELECT * FROM Memberships RIGHT JOIN Users ON Memberships.UID = Users.UID WHERE Users.Uname = ? AND Memberships.GID = ID_TO_BIN(?) AND Memberships.LeftGroup IS NULL) AS inGroup;', [uname, gid])
-        .then(async res => Boolean(await res[0].inGroup));
+    public async updateRecurringExpense(uname: string, groupID: string, recurringID: string, changes: { amount?: number, store?: string, notes?: string, cadence?: string, every?: number, dayOfMonth?: number | null, startDate?: Date, endDate?: Date | null }): Promise<RecurringExpense> {
+        const old = await this.getRecurringExpense(recurringID);
+        if(old.groupID != groupID) throw new InputError('Recurring Expense Not Found', 'The recurring expense does not belong to this group.', recurringID);
+        if(old.uname !== uname && !(await this.isGroupAdmin(uname, groupID))) throw new AuthorizationError('Cannot Modify Recurring Expense', 'Only the member that pays this expense or a group admin can change it.', recurringID);
+        if(typeof changes.amount !== 'undefined' && isNaN(changes.amount)) throw new InputError('Invalid Amount', 'The expense amount must be a number.', String(changes.amount));
+        if(typeof changes.amount !== 'undefined' && Math.abs(changes.amount) >= 1000) throw new InputError('Amount Too Large', 'Recurring expenses must be less than 1000.00 like the purchases they post, split larger expenses into several.', String(changes.amount));
+
+        const schedule: Schedule = {
+            cadence: changes.cadence ?? old.cadence,
+            every: changes.every ?? old.every,
+            dayOfMonth: (typeof changes.dayOfMonth === 'undefined') ? old.dayOfMonth : changes.dayOfMonth,
+            startDate: changes.startDate ?? fromSQLDate(old.startDate),
+            endDate: (typeof changes.endDate === 'undefined') ? ((old.endDate === null) ? null : fromSQLDate(old.endDate)) : changes.endDate
+        }
+        validateSchedule(schedule);
+
+        await this.client.execute('UPDATE RecurringExpenses SET Store = ?, Amount = ?, Notes = ?, Cadence = ?, Every = ?, DayOfMonth = ?, StartDate = ?, EndDate = ? WHERE RecID = ID_TO_BIN(?);', [changes.store ?? old.store, changes.amount ?? old.amount, changes.notes ?? old.notes, schedule.cadence, schedule.every, schedule.dayOfMonth, toSQLDate(schedule.startDate), (schedule.endDate === null) ? null : toSQLDate(schedule.endDate), recurringID]);
+        return await this.getRecurringExpense(recurringID);
     }
 
     /**
-     * Determines whether a group exists by its ID
-     * @param gid Group ID of group to check
-     * @returns true/false if the group exists
+     * Deletes a recurring expense template, purchases it already posted are kept
+     * @param uname User deleting the template, must be the user that pays the expense or a group admin
+     * @param groupID Group the expense belongs to
+     * @param recurringID Recurring expense to delete
      */
-    private async groupExists(gid: string): Promise<boolean> {
-        return await this.client.query('SELECT EXISTS(SELECT * FROM Groups WHERE GID = ID_TO_BIN(?)) AS present;', [gid])
-        .then(async res => Boolean(await res[0].present));
+    public async deleteRecurringExpense(uname: string, groupID: string, recurringID: string): Promise<void> {
+        const old = await this.getRecurringExpense(recurringID);
+        if(old.groupID != groupID) throw new InputError('Recurring Expense Not Found', 'The recurring expense does not belong to this group.', recurringID);
+        if(old.uname !== uname && !(await this.isGroupAdmin(uname, groupID))) throw new AuthorizationError('Cannot Delete Recurring Expense', 'Only the member that pays this expense or a group admin can delete it.', recurringID);
+
+        await this.client.execute('DELETE FROM RecurringPostings WHERE RecID = ID_TO_BIN(?);', [recurringID]);
+        await this.client.execute('DELETE FROM RecurringExpenses WHERE RecID = ID_TO_BIN(?);', [recurringID]);
     }
 
     /**
-     * Adds a specified user to a group
-     * @param uname Username of user to add
-     * @param gid Group ID of group to add user to
+     * Posts every occurrence of every recurring expense that is due up to a given date
+     * Each occurrence is claimed in RecurringPostings before it is posted, so running this again (e.g. after a restart) never posts an occurrence twice
+     * The claim is released if the purchase could not be added for an unexpected reason (e.g. a database error), so the occurrence is posted on the next run
+     * @param today Post occurrences up to and including this date
+     * @returns Number of purchases posted
      */
-    public async joinGroup(uname: string, gid: string): Promise<void> {
-        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Could not find user '${ uname }'.`, uname)
-        if(!(await this.groupExists(gid))) throw new InputError('Group Not Found', `Could not find group identified by '${ gid }'`, gid);
-        if(await this.isInGroup(uname, gid)) throw new InputError('Already In Group', `${ uname } is already a member of this group.`, uname);
+    public async postRecurringExpenses(today: Date = new Date()): Promise<number> {
+        const templates = await this.client.query('SELECT BIN_TO_ID(GID) AS groupID FROM RecurringExpenses WHERE StartDate <= ? GROUP BY GID;', [toSQLDate(today)])
+        .then(async res => (await Promise.all(res.map(async (x: { groupID: string }) => await this.listRecurringExpenses(x.groupID)))).flat());
+        let posted = 0;
 
-        const group = await this.client.query('SELECT MaxUsers as max, Status as status, Name as name FROM Groups WHERE GID = ID_TO_BIN(?);', [gid]).then(async res => await res[0]);
-        if(await group.max != null && (await this.listGroupMembers(gid)).length >= await group.max) throw new InputError('Group Full', `The group '${ await group.name }' is at its maximum member capacity.`, gid);
-        if(await group.status == 'locked') throw new InputError('Group Locked', `The group '${ await group.name }' is locked.`, gid);
+        for(const template of templates) {
+            const schedule: Schedule = {
+                cadence: template.cadence,
+                every: template.every,
+                dayOfMonth: template.dayOfMonth,
+                startDate: fromSQLDate(template.startDate),
+                endDate: (template.endDate === null) ? null : fromSQLDate(template.endDate)
+            }
+            const after = (template.lastPosted === null) ? new Date(0) : fromSQLDate(template.lastPosted);
+
+            for(const occurrence of occurrencesBetween(schedule, after, today)) {
+                const claimed = await this.client.execute('INSERT INTO RecurringPostings (RecID, Occurrence) VALUES(ID_TO_BIN(?), ?);', [template.recurringID, toSQLDate(occurrence)])
+                .then(() => true, () => false);
+                if(!claimed) continue;
+
+                let purchaseID: string | undefined;
+                try {
+                    purchaseID = await this.addPurchase(template.uname, template.groupID, template.amount, (template.store == '') ? undefined : template.store, occurrence, template.notes);
+                    await this.client.execute('UPDATE RecurringPostings SET PID = ID_TO_BIN(?) WHERE RecID = ID_TO_BIN(?) AND Occurrence = ?;', [purchaseID, template.recurringID, toSQLDate(occurrence)]);
+                    posted++;
+                } catch (e) {
+                    // the occurrence stays claimed when the purchase is refused (e.g. the payer left or the period is closed) so it is not retried forever
+                    if(!(e instanceof InputError) && typeof purchaseID === 'undefined') await this.client.execute('DELETE FROM RecurringPostings WHERE RecID = ID_TO_BIN(?) AND Occurrence = ?;', [template.recurringID, toSQLDate(occurrence)]);
+                    console.error(`Could not post recurring expense ${ template.recurringID } for ${ toSQLDate(occurrence) }: ${ e }`);
+                }
+            }
+        }
 
-        await this.client.execute('INSERT INTO Memberships (UID, GID, JoinedGroup) VALUES((SELECT UID FROM Users WHERE Uname = ? LIMIT 1), ID_TO_BIN(?), NOW());', [uname, gid]);
+        return posted;
     }
 
-    public async lockGroup(groupID: string): Promise<void> {
-        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+    /**
+     * Creates a chore that rotates an incentive through the group's members on a schedule
+     * @param uname User creating the chore, must be an owner or admin
+     * @param groupID Group the chore belongs to
+     * @param incentiveID Incentive recorded when an assignment is completed
+     * @param schedule How often the chore rotates (daily | weekly) and when the first turn starts
+     * @param penalty Amount charged to a member that misses their turn
+     * @returns The new chore
+     */
+    public async createChore(uname: string, groupID: string, incentiveID: string, schedule: Schedule, penalty?: number): Promise<Chore> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Create Chore');
+        if(await this.getIncentiveGroup(incentiveID) != groupID) throw new InputError('Incentive Not In Group', 'The incentive a chore rewards must belong to the same group.', incentiveID);
+        validateSchedule(schedule, ChoreCadences);
+        penalty = (typeof penalty == 'undefined') ? 0 : penalty;
+        if(isNaN(penalty) || penalty < 0) throw new InputError('Invalid Penalty', 'The penalty for missing a chore must be zero or more.', String(penalty));
 
-        await this.client.execute("UPDATE Groups SET Status = 'locked' WHERE GID = ID_TO_BIN(?);", [groupID]);
+        const choreID = crypto.randomUUID();
+        await this.client.execute('INSERT INTO Chores (ChoreID, GID, IID, Cadence, Every, StartDate, Penalty) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), ID_TO_BIN(?), ?, ?, ?, ?);', [choreID, groupID, incentiveID, schedule.cadence, schedule.every, toSQLDate(schedule.startDate), penalty]);
+        return (await this.listChores(groupID)).filter(x => x.choreID == choreID)[0];
+    }
+
+    /**
+     * Stops a chore from rotating, existing assignments are kept
+     * @param uname User stopping the chore, must be an owner or admin
+     * @param groupID Group the chore belongs to
+     * @param choreID Chore to stop
+     */
+    public async deactivateChore(uname: string, groupID: string, choreID: string): Promise<void> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Stop Chore');
+        if(!(await this.listChores(groupID)).some(x => x.choreID == choreID)) throw new InputError('Chore Not Found', 'The chore ID provided is not a chore of this group.', choreID);
+
+        await this.client.execute('UPDATE Chores SET Active = 0 WHERE ChoreID = ID_TO_BIN(?);', [choreID]);
+    }
+
+    /**
+     * Marks a chore assignment as done and records the chore's incentive for the member
+     * @param uname User completing the assignment, must be the assigned member
+     * @param groupID Group the chore belongs to
+     * @param assignmentID Assignment to complete
+     * @param notes Additional comments on the chore
+     */
+    public async completeChoreAssignment(uname: string, groupID: string, assignmentID: string, notes?: string): Promise<void> {
+        const assignment = await this.client.query('SELECT Users.Uname AS uname, BIN_TO_ID(Chores.GID) AS groupID, BIN_TO_ID(Chores.IID) AS incentiveID, ChoreAssignments.DueDate AS dueDate, ChoreAssignments.Completed AS completed, ChoreAssignments.Missed AS missed FROM ChoreAssignments LEFT JOIN Chores ON ChoreAssignments.ChoreID = Chores.ChoreID LEFT JOIN Users ON ChoreAssignments.UID = Users.UID WHERE ChoreAssignments.AssignID = ID_TO_BIN(?) LIMIT 1;', [assignmentID])
+        .then(async res => await res[0]);
+        if(typeof assignment === 'undefined' || assignment.groupID != groupID) throw new InputError('Assignment Not Found', 'The chore assignment ID provided is not an assignment of this group.', assignmentID);
+        if(assignment.uname !== uname) throw new AuthorizationError('Not Your Turn', 'Only the member assigned to this chore can complete it.', assignmentID);
+        if(assignment.completed !== null) throw new InputError('Assignment Already Completed', 'This chore assignment has already been completed.', assignmentID);
+        if(Boolean(assignment.missed) || toSQLDate(fromSQLDate(assignment.dueDate)) < toSQLDate(new Date())) throw new InputError('Assignment Missed', 'This chore assignment is past its due date.', assignmentID);
+
+        const today = new Date();
+        const recordID = await this.addIncentive(uname, assignment.incentiveID, (typeof notes == 'undefined' || notes == '') ? `Chore assignment due ${ toSQLDate(fromSQLDate(assignment.dueDate)) }.` : notes, today);
+        await this.client.execute('UPDATE ChoreAssignments SET Completed = ?, RID = ID_TO_BIN(?) WHERE AssignID = ID_TO_BIN(?);', [toSQLDate(today), recordID, assignmentID]);
+    }
+
+    /**
+     * Generates the chore assignments that have started up to a given date, passes turns of members that left the group on to the next member and flags overdue assignments as missed
+     * Assignments are unique per chore and start date, so running this again (e.g. after a restart) never assigns a turn twice
+     * @param today Generate and check assignments up to and including this date
+     * @param groupID Only rotate the chores of this group, every group's chores are rotated if omitted
+     * @returns Number of assignments created
+     */
+    public async rotateChores(today: Date = new Date(), groupID?: string): Promise<number> {
+        const only = (typeof groupID === 'undefined') ? [] : [groupID];
+        const chores = await this.client.query(`SELECT BIN_TO_ID(ChoreID) AS choreID, BIN_TO_ID(GID) AS groupID, Cadence AS cadence, Every AS every, StartDate AS startDate, Penalty AS penalty, (SELECT MAX(StartDate) FROM ChoreAssignments WHERE ChoreAssignments.ChoreID = Chores.ChoreID) AS lastStart, (SELECT Users.Uname FROM ChoreAssignments LEFT JOIN Users ON ChoreAssignments.UID = Users.UID WHERE ChoreAssignments.ChoreID = Chores.ChoreID ORDER BY ChoreAssignments.StartDate DESC LIMIT 1) AS lastAssignee FROM Chores WHERE Active = 1 AND StartDate <= ?${ (only.length > 0) ? ' AND GID = ID_TO_BIN(?)' : '' };`, [toSQLDate(today), ...only]);
+        let created = 0;
+
+        for(const chore of chores) {
+            const members = (await this.listGroupMembers(chore.groupID)).map(x => x.uname);
+            const schedule: Schedule = { cadence: chore.cadence, every: Number(chore.every), dayOfMonth: null, startDate: fromSQLDate(chore.startDate), endDate: null };
+            // only the current turn is assigned, turns that passed without one (e.g. while the server was down) are skipped rather than flagged as missed
+            const windowStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((chore.cadence == 'weekly') ? Number(chore.every) * 7 : Number(chore.every)));
+            const after = (chore.lastStart === null || fromSQLDate(chore.lastStart) < windowStart) ? windowStart : fromSQLDate(chore.lastStart);
+            let last: string | null = chore.lastAssignee ?? null;
+
+            // pass open turns of members that left on to the next member
+            const open = await this.client.query('SELECT BIN_TO_ID(ChoreAssignments.AssignID) AS assignmentID, Users.Uname AS uname FROM ChoreAssignments LEFT JOIN Users ON ChoreAssignments.UID = Users.UID WHERE ChoreAssignments.ChoreID = ID_TO_BIN(?) AND ChoreAssignments.Completed IS NULL AND ChoreAssignments.Missed = 0 AND ChoreAssignments.DueDate >= ?;', [chore.choreID, toSQLDate(today)]);
+            for(const assignment of open) {
+                const next = nextInRotation(members, assignment.uname);
+                if(members.includes(assignment.uname) || typeof next === 'undefined') continue;
+                await this.client.execute('UPDATE ChoreAssignments SET UID = (SELECT UID FROM Users WHERE Uname = ?) WHERE AssignID = ID_TO_BIN(?);', [next, assignment.assignmentID]);
+                if(last === assignment.uname) last = next;
+            }
+
+            for(const start of occurrencesBetween(schedule, after, today)) {
+                const assignee = nextInRotation(members, last);
+                if(typeof assignee === 'undefined') break;
+
+                const inserted = await this.client.execute('INSERT INTO ChoreAssignments (AssignID, ChoreID, UID, StartDate, DueDate, Penalty) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ?, ?, ?);', [chore.choreID, assignee, toSQLDate(start), toSQLDate(assignmentDueDate(chore.cadence, Number(chore.every), start)), chore.penalty])
+                .then(() => true, () => false);
+                if(inserted) created++;
+                last = assignee;
+            }
+        }
+
+        await this.client.execute(`UPDATE ChoreAssignments SET Missed = 1 WHERE Completed IS NULL AND Missed = 0 AND DueDate < ?${ (only.length > 0) ? ' AND ChoreID IN (SELECT ChoreID FROM Chores WHERE GID = ID_TO_BIN(?))' : '' };`, [toSQLDate(today), ...only]);
+        return created;
+    }
+
+    /**
+     * Throws unless a category belongs to a group
+     * @param groupID Group the category should belong to
+     * @param categoryID Category to check
+     */
+    private async assertCategoryInGroup(groupID: string, categoryID: string): Promise<void> {
+        const present = await this.client.query('SELECT EXISTS(SELECT * FROM Categories WHERE CategoryID = ID_TO_BIN(?) AND GID = ID_TO_BIN(?)) AS present;', [categoryID, groupID])
+        .then(async res => Boolean(await res[0].present));
+        if(!present) throw new InputError('Category Not Found', 'The category ID provided is not a category of this group.', categoryID);
     }
 
-    public async unlockGroup(groupID: string): Promise<void> {
+    /**
+     * Adds a purchase category to a group
+     * @param uname User adding the category, must be an owner or admin
+     * @param groupID Group to add the category to
+     * @param name Category name, unique within the group
+     * @param budget Monthly budget in the group's currency, null for none
+     * @returns The group's categories
+     */
+    public async createCategory(uname: string, groupID: string, name: string, budget: number | null): Promise<Array<Category>> {
         if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Add Category');
+        if(budget !== null && (isNaN(budget) || budget <= 0)) throw new InputError('Invalid Budget', 'A budget must be greater than zero.', String(budget));
+        if((await this.listCategories(groupID)).some(x => x.name.toLowerCase() == name.toLowerCase())) throw new InputError('Category Exists', `The group already has a category named '${ name }'.`, name);
 
-        await this.client.execute("UPDATE Groups SET Status = 'open' WHERE GID = ID_TO_BIN(?);", [groupID]);
+        await this.client.execute('INSERT INTO Categories (CategoryID, GID, Name, Budget) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), ?, ?);', [groupID, name, budget]);
+        return await this.listCategories(groupID);
     }
 
     /**
-     * Removes a user from a group
-     * @param uname Username of user to remove
-     * @param gid Group ID of group to remove user from
+     * Renames a category or changes its budget
+     * @param uname User making the change, must be an owner or admin
+     * @param groupID Group the category belongs to
+     * @param categoryID Category to change
+     * @param changes New values for the category, omitted properties are left unchanged and a null budget removes it
+     * @returns The group's categories
      */
-    public async leaveGroup(uname: string, gid: string) {
-        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Could not find user '${uname}'.`, uname);
-        if(!(await this.groupExists(gid))) throw new InputError('Group Not Found', `Could not find group identified by '${ gid }'`, gid);
-        if(!(await this.isInGroup(uname, gid))) throw new InputError('Not In Group', `${ uname } is not a member of the specified group.`, uname);
+    public async updateCategory(uname: string, groupID: string, categoryID: string, changes: { name?: string, budget?: number | null }): Promise<Array<Category>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Edit Category');
+        const categories = await this.listCategories(groupID);
+        const old = categories.filter(x => x.categoryID == categoryID)[0];
+        if(typeof old === 'undefined') throw new InputError('Category Not Found', 'The category ID provided is not a category of this group.', categoryID);
+        if(typeof changes.budget === 'number' && (isNaN(changes.budget) || changes.budget <= 0)) throw new InputError('Invalid Budget', 'A budget must be greater than zero.', String(changes.budget));
+        if(typeof changes.name === 'string' && categories.some(x => x.categoryID != categoryID && x.name.toLowerCase() == changes.name!.toLowerCase())) throw new InputError('Category Exists', `The group already has a category named '${ changes.name }'.`, changes.name);
 
-        await this.client.execute('UPDATE Memberships SET LeftGroup = NOW() WHERE UID = (SELECT UID FROM Users WHERE Uname = ? LIMIT 1) AND GID = ID_TO_BIN(?) AND LeftGroup IS NULL;', [uname, gid]);
+        await this.client.execute('UPDATE Categories SET Name = ?, Budget = ? WHERE CategoryID = ID_TO_BIN(?);', [changes.name ?? old.name, (typeof changes.budget === 'undefined') ? old.budget : changes.budget, categoryID]);
+        return await this.listCategories(groupID);
     }
 
     /**
-     * Creates a new user groups
-     * @param name Group name to assign
-     * @param description Breif description to assign
-     * @param status Indicates whether new members can join after the group has been created (open | locked)
-     * @param maxMembers Maximum members allowed in the group
-     * @param members List of initial group members
-     * @returns Object containing information about the new group
+     * Deletes a category and its store rules, its purchases are left uncategorized
+     * @param uname User deleting the category, must be an owner or admin
+     * @param groupID Group the category belongs to
+     * @param categoryID Category to delete
+     * @returns The group's remaining categories
      */
-    public async createGroup(name: string, description: string, status: string, maxMembers: number | undefined, members: Array<string>): Promise<Group | undefined> {
-        if(typeof maxMembers === 'number' && members.length > maxMembers) maxMembers = members.length;
-        if(status != 'open' && status != 'locked') throw new InputError('Invalid Group Status', `"${ status }" is not a valid group status.`, status);
+    public async deleteCategory(uname: string, groupID: string, categoryID: string): Promise<Array<Category>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Delete Category');
+        await this.assertCategoryInGroup(groupID, categoryID);
 
-        return await this.client.execute('INSERT INTO Groups (GID, Name, Description, Status, MaxUsers) VALUES(ID_TO_BIN(UUID()), ?, ?, ?, ?)', [name, description, 'open', maxMembers])
-        .then(async () => await this.client.query('SELECT BIN_TO_ID(GID) AS groupID FROM Groups WHERE Name = ? ORDER BY Created DESC LIMIT 1;', [name]))
-        .then(async res => {
-            return await Promise.all(members.map(async uname => await this.joinGroup(uname, await res[0].groupID)))
-            .then(async () => {
-                if(status == 'locked') await this.lockGroup(await res[0].groupID);
-            })
-            .then(async () => await this.getGroup(await res[0].groupID));
+        await this.client.transaction(async storage => {
+            await storage.execute('UPDATE Purchases SET CategoryID = NULL WHERE CategoryID = ID_TO_BIN(?);', [categoryID]);
+            await storage.execute('DELETE FROM CategoryRules WHERE CategoryID = ID_TO_BIN(?);', [categoryID]);
+            await storage.execute('DELETE FROM Categories WHERE CategoryID = ID_TO_BIN(?);', [categoryID]);
         });
+        return await this.listCategories(groupID);
     }
 
     /**
-     * Adds a user's purchase to a group's records
-     * @param uname User that made the purchase
-     * @param groupID Group ID to apply the purchase to
-     * @param amount Purchase recipt total
-     * @param store Store where purchase was made
-     * @param date Date that the purchase was made
-     * @param notes Additional comments to tag with purchase
+     * Adds a store rule that puts new purchases from matching stores in a category
+     * @param uname User adding the rule, must be an owner or admin
+     * @param groupID Group the category belongs to
+     * @param categoryID Category the rule picks
+     * @param pattern Text the store name must contain (ignoring case)
+     * @returns The group's categories
      */
-    public async addPurchase(uname: string, groupID: string, amount: number, store?: string, date?: Date, notes?: string): Promise<void> {
-        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Purchase could not be added because '${ uname }' could not be found.`, uname);
-        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Purchase coudl not be added because the group '${ groupID }' could not be found.`, groupID);
-        if(!(await this.isInGroup(uname, groupID))) throw new InputError('User Not In Group', `${ uname } is not a member of the group ${ groupID }.`, `${uname} -> ${groupID}`);
-        store = (typeof store == 'undefined') ? '' : store;
+    public async addCategoryRule(uname: string, groupID: string, categoryID: string, pattern: string): Promise<Array<Category>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Add Category Rule');
+        await this.assertCategoryInGroup(groupID, categoryID);
+        const existing = (await this.listCategoryRules(groupID)).filter(x => x.pattern.toLowerCase() == pattern.toLowerCase())[0];
+        if(typeof existing !== 'undefined') throw new InputError('Rule Exists', `Purchases from '${ pattern }' are already put in a category.`, pattern);
+
+        await this.client.execute('INSERT INTO CategoryRules (RuleID, CategoryID, Pattern) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), ?);', [categoryID, pattern]);
+        return await this.listCategories(groupID);
+    }
+
+    /**
+     * Deletes a store rule, purchases it already categorized keep their category
+     * @param uname User deleting the rule, must be an owner or admin
+     * @param groupID Group the rule belongs to
+     * @param ruleID Rule to delete
+     * @returns The group's categories
+     */
+    public async deleteCategoryRule(uname: string, groupID: string, ruleID: string): Promise<Array<Category>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Delete Category Rule');
+        if(!(await this.listCategoryRules(groupID)).some(x => x.ruleID == ruleID)) throw new InputError('Rule Not Found', 'The rule ID provided is not a category rule of this group.', ruleID);
+
+        await this.client.execute('DELETE FROM CategoryRules WHERE RuleID = ID_TO_BIN(?);', [ruleID]);
+        return await this.listCategories(groupID);
+    }
+
+    /**
+     * Queries the database for the exchange rates stored for a group
+     * @param groupID Unique group ID of requested group
+     * @returns Promise of an array of exchange rates by currency, latest first
+     */
+    public async listExchangeRates(groupID: string): Promise<Array<ExchangeRate>> {
+        return await this.client.query(`SELECT BIN_TO_ID(ExchangeRates.RateID) AS rateID, BIN_TO_ID(ExchangeRates.GID) AS groupID, ExchangeRates.FromCurrency AS fromCurrency, ExchangeRates.ToCurrency AS toCurrency, ExchangeRates.EffectiveDate AS effectiveDate, ExchangeRates.Rate AS rate, Users.Uname AS createdBy
+        FROM ExchangeRates
+        LEFT JOIN Users ON ExchangeRates.CreatedBy = Users.UID
+        WHERE ExchangeRates.GID = ID_TO_BIN(?)
+        ORDER BY ExchangeRates.FromCurrency, ExchangeRates.EffectiveDate DESC;`, [groupID]).then(async res => {
+            return await res.map((x: any) => {
+                x.rate = Number(x.rate);
+                return x;
+            });
+        });
+    }
+
+    /**
+     * Stores what one unit of a currency is worth in a group's currency from a given day on, replacing the rate already stored for that day
+     * Rates can only be set after the group's last closed period so settled amounts do not change
+     * @param uname User setting the rate, must be an owner or admin
+     * @param groupID Group the rate is used by
+     * @param currency Currency the rate converts from
+     * @param effectiveDate First day the rate applies to
+     * @param rate Value of one unit of the currency in the group's currency
+     * @returns ID of the stored rate
+     */
+    public async setExchangeRate(uname: string, groupID: string, currency: string, effectiveDate: Date, rate: number): Promise<string> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Set Exchange Rate');
+        if(isNaN(rate) || rate <= 0) throw new InputError('Invalid Exchange Rate', 'Exchange rates must be greater than zero.', String(rate));
+        const groupCurrency = await this.getGroupCurrency(groupID);
+        if(currency == groupCurrency) throw new InputError('Invalid Currency', `The group's records are already kept in ${ currency }.`, currency);
+        await this.assertRatesOpen(groupID, effectiveDate);
+
+        const date = toSQLDate(effectiveDate);
+        const existing = await this.client.query('SELECT BIN_TO_ID(RateID) AS rateID FROM ExchangeRates WHERE GID = ID_TO_BIN(?) AND FromCurrency = ? AND ToCurrency = ? AND EffectiveDate = ? LIMIT 1;', [groupID, currency, groupCurrency, date]);
+        if(existing.length > 0) {
+            await this.client.execute('UPDATE ExchangeRates SET Rate = ? WHERE RateID = ID_TO_BIN(?);', [rate, existing[0].rateID]);
+            return existing[0].rateID;
+        }
+
+        const rateID = crypto.randomUUID();
+        await this.client.execute('INSERT INTO ExchangeRates (RateID, GID, FromCurrency, ToCurrency, EffectiveDate, Rate, CreatedBy) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), ?, ?, ?, ?, (SELECT UID FROM Users WHERE Uname = ?));', [rateID, groupID, currency, groupCurrency, date, rate, uname]);
+        return rateID;
+    }
+
+    /**
+     * Deletes an exchange rate, unless it is the only rate some of the group's purchases can be converted with
+     * @param uname User deleting the rate, must be an owner or admin
+     * @param groupID Group the rate belongs to
+     * @param rateID Rate to delete
+     */
+    public async deleteExchangeRate(uname: string, groupID: string, rateID: string): Promise<void> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Delete Exchange Rate');
+        const rate = (await this.listExchangeRates(groupID)).filter(x => x.rateID == rateID)[0];
+        if(typeof rate === 'undefined') throw new InputError('Exchange Rate Not Found', 'The rate ID provided is not an exchange rate of this group.', rateID);
+        const date = toSQLDate(fromSQLDate(rate.effectiveDate));
+        await this.assertRatesOpen(groupID, fromSQLDate(rate.effectiveDate));
+
+        // purchases dated before the next rate fall back to an earlier rate, if there is none they could no longer be converted
+        const stranded = await this.client.query(`SELECT NOT EXISTS(SELECT * FROM ExchangeRates WHERE GID = ID_TO_BIN(?) AND FromCurrency = ? AND ToCurrency = ? AND EffectiveDate < ?)
+            AND EXISTS(SELECT * FROM Purchases WHERE GID = ID_TO_BIN(?) AND Currency = ? AND Date >= ? AND Date < IFNULL((SELECT MIN(EffectiveDate) FROM ExchangeRates WHERE GID = ID_TO_BIN(?) AND FromCurrency = ? AND ToCurrency = ? AND EffectiveDate > ?), '9999-12-31')) AS stranded;`,
+            [groupID, rate.fromCurrency, rate.toCurrency, date, groupID, rate.fromCurrency, date, groupID, rate.fromCurrency, rate.toCurrency, date])
+        .then(async res => Boolean(await res[0].stranded));
+        if(stranded && rate.toCurrency == await this.getGroupCurrency(groupID)) throw new InputError('Exchange Rate In Use', `Purchases in ${ rate.fromCurrency } from ${ date } on have no other rate to be converted with.`, rateID);
+
+        await this.client.execute('DELETE FROM ExchangeRates WHERE RateID = ID_TO_BIN(?);', [rateID]);
+    }
+
+    /**
+     * Stores exchange rates read from a file, rows that fail validation are reported instead of stopping the import
+     * @param uname User importing the rates, must be an owner or admin
+     * @param groupID Group the rates are used by
+     * @param rows Rates parsed from the file
+     * @returns Outcome of each row, the stored rate ID or the error that prevented it
+     */
+    public async importExchangeRates(uname: string, groupID: string, rows: Array<RateRow>): Promise<Array<RateImportResult>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Set Exchange Rate');
+        const res: Array<RateImportResult> = [];
+        for(const row of rows) {
+            try {
+                res.push({ row: row.row, rateID: await this.setExchangeRate(uname, groupID, row.currency, parseDate(row.date), row.rate), error: null });
+            } catch (e) {
+                if(!(e instanceof InputError)) throw e;
+                res.push({ row: row.row, rateID: null, error: e.report() });
+            }
+        }
+        return res;
+    }
+
+    /**
+     * Throws if rates taking effect on a given day would change amounts in a closed period
+     * @param groupID Group the rate belongs to
+     * @param date Day the rate takes effect
+     */
+    private async assertRatesOpen(groupID: string, date: Date): Promise<void> {
+        const start = await this.getOpenPeriodStart(groupID);
+        if(typeof start !== 'undefined' && toSQLDate(date) < toSQLDate(start)) throw new InputError('Period Closed', `Exchange rates cannot take effect before ${ toSQLDate(start) }, earlier records belong to a closed period.`, toSQLDate(date));
+    }
+
+    /**
+     * Determines whether a date falls inside one of a group's closed periods
+     * @param groupID Group to check
+     * @param date Date to check
+     * @returns true/false if the date has been closed
+     */
+    public async isPeriodClosed(groupID: string, date: Date): Promise<boolean> {
+        return await this.client.query('SELECT EXISTS(SELECT * FROM Periods WHERE GID = ID_TO_BIN(?) AND Reopened IS NULL AND ? BETWEEN PeriodFrom AND PeriodTo) AS closed;', [groupID, toSQLDate(date)])
+        .then(async res => Boolean(await res[0].closed));
+    }
+
+    /**
+     * Throws if a record dated on a given day can no longer be changed because its period was closed
+     * @param groupID Group the record belongs to
+     * @param date Date of the record
+     */
+    private async assertPeriodOpen(groupID: string, date: Date): Promise<void> {
+        if(await this.isPeriodClosed(groupID, date)) throw new InputError('Period Closed', `Records dated ${ toSQLDate(date) } belong to a closed period and can no longer be changed.`, toSQLDate(date));
+    }
+
+    /**
+     * Records a settle-up payment from one group member to another
+     * @param uname User recording the payment, must be the payer or the payee
+     * @param groupID Group the payment settles
+     * @param from User that paid
+     * @param to User that was paid
+     * @param amount Amount paid
+     * @param date Date of the payment
+     * @param notes Additional comments on the payment
+     */
+    public async recordPayment(uname: string, groupID: string, from: string, to: string, amount: number, date?: Date, notes?: string): Promise<void> {
+        if(uname !== from && uname !== to) throw new AuthorizationError('Cannot Record Payment', 'Payments can only be recorded by the member that paid or was paid.', uname);
+        if(from === to) throw new InputError('Invalid Payment', 'A payment must be made to a different member.', from);
+        if(isNaN(amount) || amount <= 0) throw new InputError('Invalid Amount', 'The payment amount must be greater than zero.', String(amount));
+        if(!(await this.isInGroup(from, groupID))) throw new InputError('User Not In Group', `${ from } is not a member of this group.`, from);
+        if(!(await this.isInGroup(to, groupID))) throw new InputError('User Not In Group', `${ to } is not a member of this group.`, to);
         date = (typeof date == 'undefined') ? new Date() : date;
         notes = (typeof notes == 'undefined') ? '' : notes;
+        await this.assertPeriodOpen(groupID, date);
 
-        // add incentives if applicable
-        await this.client.query('SELECT BIN_TO_ID(IID) AS incentiveID FROM IncentivesAvailable WHERE GID = ID_TO_BIN(?) AND Begin < NOW() AND (End IS NULL OR End > NOW()) AND OnPurchase = 1;', [groupID])
-        .then(async res => await Promise.all(await res.map(async (incentive: { incentiveID: string }) => await this.addIncentive(uname, incentive.incentiveID, `Added by purchase on ${ date?.toLocaleDateString() }.`))));
-        await this.client.execute('INSERT INTO Purchases (UID, GID, Date, Store, Amount, Notes) VALUES((SELECT UID FROM Users WHERE Uname = ?), ID_TO_BIN(?), ?, ?, ?, ?);', [uname, groupID, date.toISOString().split('T')[0], store, amount, notes]);
+        await this.client.execute('INSERT INTO Payments (PayID, GID, FromUID, ToUID, Amount, Date, Notes, RecordedBy) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), (SELECT UID FROM Users WHERE Uname = ?), ?, ?, ?, (SELECT UID FROM Users WHERE Uname = ?));', [groupID, from, to, amount, toSQLDate(date), notes, uname]);
+        await this.emitEvent(groupID, 'payment.added', { from: from, to: to, amount: amount, date: date, notes: notes, recordedBy: uname });
     }
 
     /**
-     * Determines whether an incentive exists by its ID
-     * @param incentiveID Incentive to validate
-     * @returns true/false if the incentive exists
+     * Closes a reconciliation period, snapshotting each member's settlement and freezing the records dated inside it
+     * Each member's remaining balance is carried into the settlements of the following period
+     * @param uname User closing the period, any member can close one (only owners and admins can reopen it)
+     * @param groupID Group to close the period for
+     * @param fromDate First day of the period
+     * @param toDate Last day of the period
+     * @returns The closed period
      */
-    public async incentiveExists(incentiveID: string): Promise<boolean> {
-        return await this.client.query('SELECT EXISTS(SELECT * FROM IncentivesAvailable WHERE IID = ID_TO_BIN(?)) AS present;', [incentiveID])
-        .then(async res => Boolean(await res[0].present));
+    public async closePeriod(uname: string, groupID: string, fromDate: Date, toDate: Date): Promise<ClosedPeriod> {
+        if(!(await this.isInGroup(uname, groupID))) throw new InputError('User Not In Group', `${ uname } is not a member of the group ${ groupID }.`, `${uname} -> ${groupID}`);
+        if(fromDate > toDate) throw new InputError('Invalid Date Range', 'The start of the period must be before its end.', `${ toSQLDate(fromDate) } -> ${ toSQLDate(toDate) }`);
+        if(toDate > new Date()) throw new InputError('Period Not Over', 'A period cannot be closed before it has ended.', toSQLDate(toDate));
+        const overlaps = await this.client.query('SELECT EXISTS(SELECT * FROM Periods WHERE GID = ID_TO_BIN(?) AND Reopened IS NULL AND PeriodFrom <= ? AND PeriodTo >= ?) AS overlaps;', [groupID, toSQLDate(toDate), toSQLDate(fromDate)])
+        .then(async res => Boolean(await res[0].overlaps));
+        if(overlaps) throw new InputError('Period Already Closed', 'Part of this period has already been closed.', `${ toSQLDate(fromDate) } -> ${ toSQLDate(toDate) }`);
+
+        const plan = await this.getSettlementPlan(groupID, fromDate, toDate);
+        const periodID = crypto.randomUUID();
+        await this.client.transaction(async storage => {
+            await storage.execute('INSERT INTO Periods (PeriodID, GID, PeriodFrom, PeriodTo, ClosedBy, Snapshot) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), ?, ?, (SELECT UID FROM Users WHERE Uname = ?), ?);', [periodID, groupID, toSQLDate(fromDate), toSQLDate(toDate), uname, JSON.stringify({ settlements: plan.settlements, transfers: plan.transfers })]);
+            for(const settlement of plan.settlements) {
+                await storage.execute('INSERT INTO PeriodBalances (PeriodID, UID, Balance) VALUES(ID_TO_BIN(?), (SELECT UID FROM Users WHERE Uname = ?), ?);', [periodID, settlement.uname, settlement.owes]);
+            }
+        });
+
+        const period = await this.listPeriods(groupID).then(async periods => periods.filter(x => x.periodID == periodID)[0]);
+        await this.emitEvent(groupID, 'period.closed', period);
+        return period;
     }
 
     /**
-     * Creates a new group incentive
-     * @param groupID Group to assign incentive to
-     * @param name Name of the incentive
-     * @param amount Value of the incentive
-     * @param onPurchase Whether the incentive should be invoked by a purchase
-     * @param description Description of the incentive
+     * Reopens the most recent closed period of a group so its records can be changed again
+     * @param uname User reopening the period, must be an owner or admin
+     * @param groupID Group the period belongs to
+     * @param periodID Period to reopen
      */
-    public async createNewIncentive(groupID: string, name: string, amount: number, onPurchase: boolean, description?: string): Promise<void> {
-        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', 'Could not create incentive because the group could not be found.', groupID);
-        description = (typeof description == 'undefined') ? '' : description;
+    public async reopenPeriod(uname: string, groupID: string, periodID: string): Promise<void> {
+        const active = (await this.listPeriods(groupID)).filter(x => x.reopened === null);
+        const period = active.filter(x => x.periodID == periodID)[0];
+        if(typeof period === 'undefined') throw new InputError('Period Not Found', 'The period ID provided is not a closed period of this group.', periodID);
+        if(active[0].periodID != periodID) throw new InputError('Period Not Latest', 'Only the most recent closed period can be reopened.', periodID);
+        if(!(await this.isGroupAdmin(uname, groupID))) throw new AuthorizationError('Cannot Reopen Period', 'Only owners and admins of this group can reopen a period.', periodID);
+
+        await this.client.execute('UPDATE Periods SET Reopened = NOW(), ReopenedBy = (SELECT UID FROM Users WHERE Uname = ?) WHERE PeriodID = ID_TO_BIN(?);', [uname, periodID]);
+    }
+    /**
+     * Queries the database for the webhooks of a group, secrets are only shown when a webhook is created
+     * @param uname User listing the webhooks, must be an owner or admin
+     * @param groupID Group to list webhooks of
+     * @returns Promise of an array of webhooks, oldest first
+     */
+    public async listWebhooks(uname: string, groupID: string): Promise<Array<Webhook>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot List Webhooks');
 
-        await this.client.execute('INSERT INTO IncentivesAvailable (IID, GID, Name, Description, Amount, Begin, OnPurchase) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), ?, ?, ?, NOW(), ?);', [groupID, name, description, amount, onPurchase]);
+        return await this.client.query('SELECT BIN_TO_ID(Webhooks.WebhookID) AS webhookID, BIN_TO_ID(Webhooks.GID) AS groupID, Webhooks.URL AS url, Webhooks.Events AS events, Webhooks.Active AS active, Users.Uname AS createdBy, Webhooks.Created AS created FROM Webhooks LEFT JOIN Users ON Webhooks.CreatedBy = Users.UID WHERE Webhooks.GID = ID_TO_BIN(?) ORDER BY Webhooks.Created;', [groupID])
+        .then(async res => await res.map((x: any) => {
+            x.events = x.events.split(',');
+            x.active = Boolean(x.active);
+            return x;
+        }));
     }
 
     /**
-     * Add's a user's incentive action to a group's records
-     * @param uname User that performed incentive
-     * @param incentiveID Incentive that was performed
-     * @param notes Additional comments on the action
-     * @param date Date that the incentive was performed
+     * Subscribes a URL to a group's events, every delivery to it is signed with a new shared secret
+     * @param uname User adding the webhook, must be an owner or admin
+     * @param groupID Group whose events are sent
+     * @param url http or https URL the events are posted to
+     * @param events Events to send (see WebhookEvents)
+     * @returns The new webhook along with its secret, which cannot be retrieved again
      */
-    public async addIncentive(uname: string, incentiveID: string, notes?: string, date?: Date): Promise<void> {
-        if(!(await this.userExists(uname))) throw new InputError('User Not Found', `Incentive could not be added because '${ uname }' could not be found.`, uname);
-        if(!(await this.incentiveExists(incentiveID))) throw new InputError('Incentive Not Found', 'Incentive could not be added because the ID provided could not be found.', incentiveID);
-        notes = (typeof notes == 'undefined') ? '' : notes;
-        date  = (typeof date == 'undefined') ? new Date() : date;
+    public async createWebhook(uname: string, groupID: string, url: string, events: Array<string>): Promise<Webhook & { secret: string }> {
+        if(!(await this.groupExists(groupID))) throw new InputError('Group Not Found', `Could not find group identified by '${ groupID }'`, groupID);
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Add Webhook');
+        validateWebhookURL(url, this.webhooks.allowPrivateHosts ?? false);
+        events = validateWebhookEvents(events);
+
+        const webhookID = crypto.randomUUID();
+        const secret = generateSecret();
+        await this.client.execute('INSERT INTO Webhooks (WebhookID, GID, URL, Events, Secret, CreatedBy) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), ?, ?, ?, (SELECT UID FROM Users WHERE Uname = ?));', [webhookID, groupID, url, events.join(','), secret, uname]);
+        const webhook = (await this.listWebhooks(uname, groupID)).filter(x => x.webhookID == webhookID)[0];
+        return { ...webhook, secret: secret };
+    }
+
+    /**
+     * Changes the URL or events of a webhook, or pauses it
+     * Deliveries already queued for a paused webhook are held until it is resumed
+     * @param uname User making the change, must be an owner or admin
+     * @param groupID Group the webhook belongs to
+     * @param webhookID Webhook to change
+     * @param changes New values for the webhook, omitted properties are left unchanged
+     * @returns The group's webhooks
+     */
+    public async updateWebhook(uname: string, groupID: string, webhookID: string, changes: { url?: string, events?: Array<string>, active?: boolean }): Promise<Array<Webhook>> {
+        const old = (await this.listWebhooks(uname, groupID)).filter(x => x.webhookID == webhookID)[0];
+        if(typeof old === 'undefined') throw new InputError('Webhook Not Found', 'The webhook ID provided is not a webhook of this group.', webhookID);
+        if(typeof changes.url !== 'undefined') validateWebhookURL(changes.url, this.webhooks.allowPrivateHosts ?? false);
+        if(typeof changes.events !== 'undefined') changes.events = validateWebhookEvents(changes.events);
+
+        await this.client.execute('UPDATE Webhooks SET URL = ?, Events = ?, Active = ? WHERE WebhookID = ID_TO_BIN(?);', [changes.url ?? old.url, (changes.events ?? old.events).join(','), changes.active ?? old.active, webhookID]);
+        return await this.listWebhooks(uname, groupID);
+    }
+
+    /**
+     * Deletes a webhook along with its queued and logged deliveries
+     * @param uname User deleting the webhook, must be an owner or admin
+     * @param groupID Group the webhook belongs to
+     * @param webhookID Webhook to delete
+     * @returns The group's remaining webhooks
+     */
+    public async deleteWebhook(uname: string, groupID: string, webhookID: string): Promise<Array<Webhook>> {
+        await this.assertGroupAdmin(uname, groupID, 'Cannot Delete Webhook');
+
+        const res = await this.client.execute('DELETE FROM Webhooks WHERE WebhookID = ID_TO_BIN(?) AND GID = ID_TO_BIN(?);', [webhookID, groupID]);
+        if(res.affectedRows == 0) throw new InputError('Webhook Not Found', 'The webhook ID provided is not a webhook of this group.', webhookID);
+        return await this.listWebhooks(uname, groupID);
+    }
+
+    /**
+     * Queries the database for the delivery log of a webhook
+     * @param uname User viewing the log, must be an owner or admin
+     * @param groupID Group the webhook belongs to
+     * @param webhookID Webhook to list deliveries of
+     * @returns Promise of an array of the webhook's 100 latest deliveries, newest first
+     */
+    public async listWebhookDeliveries(uname: string, groupID: string, webhookID: string): Promise<Array<WebhookDelivery>> {
+        if(!(await this.listWebhooks(uname, groupID)).some(x => x.webhookID == webhookID)) throw new InputError('Webhook Not Found', 'The webhook ID provided is not a webhook of this group.', webhookID);
+
+        return await this.client.query('SELECT BIN_TO_ID(DeliveryID) AS deliveryID, BIN_TO_ID(WebhookID) AS webhookID, Event AS event, Payload AS payload, Status AS status, Attempts AS attempts, NextAttempt AS nextAttempt, LastAttempt AS lastAttempt, ResponseStatus AS responseStatus, Error AS error, Created AS created FROM WebhookDeliveries WHERE WebhookID = ID_TO_BIN(?) ORDER BY Created DESC, NextAttempt DESC LIMIT 100;', [webhookID])
+        .then(async res => await res.map((x: any) => {
+            x.attempts = Number(x.attempts);
+            x.responseStatus = (x.responseStatus === null) ? null : Number(x.responseStatus);
+            return x;
+        }));
+    }
+
+    /**
+     * Pushes an event to the group's live update streams and queues a delivery of it to every active webhook of the group subscribed to it
+     * Events that change balances are followed by a settlements.updated event on the live update streams
+     * @param groupID Group the event happened in
+     * @param event Event that happened (see WebhookEvents)
+     * @param data Details of the event sent in the delivery
+     */
+    private async emitEvent(groupID: string, event: string, data: object): Promise<void> {
+        this.live.publish(groupID, event, data);
+        if(SettlementEvents.includes(event) && this.live.isWatched(groupID)) {
+            const { from, to } = await this.getCurrentRange(groupID);
+            this.live.publish(groupID, 'settlements.updated', await this.getSettlementPlan(groupID, from, to));
+        }
+
+        const webhooks = await this.client.query('SELECT BIN_TO_ID(WebhookID) AS webhookID, Events AS events FROM Webhooks WHERE GID = ID_TO_BIN(?) AND Active = 1;', [groupID])
+        .then(async res => await res.filter((x: { events: string }) => x.events.split(',').includes(event)));
+        if(webhooks.length == 0) return;
+
+        const payload = JSON.stringify({ event: event, groupID: groupID, occurred: new Date().toISOString(), data: data });
+        for(const webhook of webhooks) {
+            await this.client.execute('INSERT INTO WebhookDeliveries (DeliveryID, WebhookID, Event, Payload, NextAttempt) VALUES(ID_TO_BIN(UUID()), ID_TO_BIN(?), ?, ?, NOW());', [webhook.webhookID, event, payload]);
+        }
+    }
+
+    /**
+     * Sends the queued webhook deliveries that are due, failed deliveries are retried with a growing delay until MaxDeliveryAttempts is reached
+     * Only endpoints responding with a 2xx status count as delivered
+     * @param now Time to send deliveries due by, defaults to the current time
+     * @returns Number of deliveries that succeeded
+     */
+    public async deliverWebhooks(now: Date = new Date()): Promise<number> {
+        const due = await this.client.query("SELECT BIN_TO_ID(WebhookDeliveries.DeliveryID) AS deliveryID, WebhookDeliveries.Event AS event, WebhookDeliveries.Payload AS payload, WebhookDeliveries.Attempts AS attempts, Webhooks.URL AS url, Webhooks.Secret AS secret FROM WebhookDeliveries INNER JOIN Webhooks ON WebhookDeliveries.WebhookID = Webhooks.WebhookID WHERE WebhookDeliveries.Status = 'pending' AND WebhookDeliveries.NextAttempt <= ? AND Webhooks.Active = 1 ORDER BY WebhookDeliveries.NextAttempt LIMIT 100;", [now]);
+
+        let delivered = 0;
+        for(const delivery of due) {
+            const attempts = Number(delivery.attempts) + 1;
+            const result = await sendWebhook(delivery.url, delivery.secret, delivery, this.webhooks.allowPrivateHosts ?? false)
+            .then(status => ({ status: status, error: (status >= 200 && status < 300) ? null : `Endpoint responded with HTTP ${ status }` }), e => ({ status: null, error: String(e?.message ?? e).substring(0, 255) }));
+
+            const status = (result.error === null) ? 'delivered' : ((attempts >= MaxDeliveryAttempts) ? 'failed' : 'pending');
+            await this.client.execute('UPDATE WebhookDeliveries SET Status = ?, Attempts = ?, NextAttempt = ?, LastAttempt = ?, ResponseStatus = ?, Error = ? WHERE DeliveryID = ID_TO_BIN(?);', [status, attempts, new Date(now.getTime() + retryDelay(attempts)), now, result.status, result.error, delivery.deliveryID]);
+            if(status == 'delivered') delivered++;
+        }
+        return delivered;
+    }
+    /**
+     * Opens a stream of a group's events (text/event-stream) for one of its members
+     * @param uname Member opening the stream
+     * @param sessionToken Session the stream belongs to, the stream is closed once the session is signed out
+     * @param groupID Group to stream events of
+     * @param lastEventID ID of the last event received by a reconnecting client, the events it missed are sent first
+     * @returns Stream of server-sent events
+     */
+    public async openLiveUpdates(uname: string, sessionToken: string, groupID: string, lastEventID?: string | null): Promise<ReadableStream<Uint8Array>> {
+        if(!(await this.isInGroup(uname, groupID))) throw new AuthorizationError('Not A Group Member', 'You must be a member of this group to follow its updates.', groupID);
+        const sessionID = await this.client.query('SELECT BIN_TO_ID(SessionID) AS sessionID FROM Sessions WHERE Token = ID_TO_BIN(?) AND Active = 1 LIMIT 1;', [sessionToken])
+        .then(async res => {
+            if(await res.length < 1) throw new AuthenticationError('Invalid Session', 'The provided session token is invalid.', '');
+            return await res[0].sessionID;
+        });
+
+        return this.live.connect({ groupID: groupID, uname: uname, sessionID: sessionID }, lastEventID);
+    }
 
-        await this.client.execute('INSERT INTO Incentives (UID, IID, Date, Notes) VALUES((SELECT UID FROM Users WHERE Uname = ?), ID_TO_BIN(?), ?, ?);', [uname, incentiveID, date.toISOString().split('T')[0], notes]);
+    /**
+     * Closes the live update streams of sessions that were signed out or expired and of users that left the group they follow
+     * Sessions keep their session ID when their token is refreshed, so refreshed sessions keep their streams
+     * @returns Number of streams closed
+     */
+    public async closeStaleStreams(): Promise<number> {
+        let closed = 0;
+        for(const connection of this.live.listConnections()) {
+            const active = await this.client.query('SELECT EXISTS(SELECT * FROM Sessions WHERE SessionID = ID_TO_BIN(?) AND Active = 1 AND Expires > NOW()) AS active;', [connection.sessionID])
+            .then(async res => Boolean(await res[0].active));
+            if(!active) {
+                closed += this.live.disconnect(x => x.sessionID == connection.sessionID, 'Your session has ended, sign in again.');
+            } else if(!(await this.isInGroup(connection.uname, connection.groupID))) {
+                closed += this.live.disconnect(x => x.groupID == connection.groupID && x.uname == connection.uname, 'You are no longer a member of this group.');
+            }
+        }
+        return closed;
     }
 }
\ No newline at end of file
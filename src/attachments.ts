@@ -0,0 +1,82 @@
+import { InputError } from "./security.ts";
+
+export const AttachmentTypes = ['image/jpeg', 'image/png', 'application/pdf'];
+export const MaxAttachmentsPerPurchase = 5;
+
+/**
+ * Works out the type of a file from its first bytes instead of trusting the name or declared content type
+ * @param bytes File contents
+ * @returns The detected mime type or undefined if it is not an allowed type
+ */
+export function sniffType(bytes: Uint8Array): string | undefined {
+    const startsWith = (signature: Array<number>) => bytes.length >= signature.length && signature.every((x, i) => bytes[i] == x);
+
+    if(startsWith([0xFF, 0xD8, 0xFF])) return 'image/jpeg';
+    if(startsWith([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'image/png';
+    if(startsWith([0x25, 0x50, 0x44, 0x46, 0x2D])) return 'application/pdf';
+}
+
+/**
+ * Stores receipt files on local disk, each file is named after its attachment ID
+ */
+export class AttachmentStore {
+    private directory: string;
+    public readonly maxSize: number;
+
+    private constructor(directory: string, maxSize: number) {
+        this.directory = directory;
+        this.maxSize = maxSize;
+    }
+
+    public static async open(settings: { directory: string, maxSize: number }): Promise<AttachmentStore> {
+        await Deno.mkdir(settings.directory, { recursive: true });
+        return new AttachmentStore(settings.directory, settings.maxSize);
+    }
+
+    /**
+     * Checks an uploaded file against the size and type limits
+     * @param bytes File contents
+     * @returns The mime type of the file
+     */
+    public validate(bytes: Uint8Array): string {
+        if(bytes.length == 0) throw new InputError('Empty Attachment', 'The uploaded file is empty.', '');
+        if(bytes.length > this.maxSize) throw new InputError('Attachment Too Large', `Attachments cannot be larger than ${ Math.floor(this.maxSize / 1048576) }MB.`, String(bytes.length));
+
+        const type = sniffType(bytes);
+        if(typeof type === 'undefined') throw new InputError('Invalid Attachment Type', 'Attachments must be JPEG, PNG or PDF files.', '');
+        return type;
+    }
+
+    /**
+     * Writes a file to disk
+     * @param attachmentID Unique attachment ID the file is stored under
+     * @param bytes File contents
+     */
+    public async save(attachmentID: string, bytes: Uint8Array): Promise<void> {
+        await Deno.writeFile(this.path(attachmentID), bytes, { createNew: true });
+    }
+
+    /**
+     * Reads a stored file
+     * @param attachmentID Unique attachment ID the file is stored under
+     * @returns File contents
+     */
+    public async read(attachmentID: string): Promise<Uint8Array> {
+        return await Deno.readFile(this.path(attachmentID));
+    }
+
+    /**
+     * Deletes a stored file, files that are already gone are ignored
+     * @param attachmentID Unique attachment ID the file is stored under
+     */
+    public async remove(attachmentID: string): Promise<void> {
+        await Deno.remove(this.path(attachmentID)).catch(e => {
+            if(!(e instanceof Deno.errors.NotFound)) throw e;
+        });
+    }
+
+    private path(attachmentID: string): string {
+        if(!/^[\w\-]+$/.test(attachmentID)) throw new InputError('Invalid Attachment ID', 'The attachment ID provided is not valid.', attachmentID);
+        return `${ this.directory }/${ attachmentID }`;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+/** Shares of a monthly budget that trigger a warning once a category's spending reaches them */
+export const BudgetThresholds = [0.8, 1];
+
+/**
+ * Works out how much of a monthly budget is available for a date range, months only partly covered by the range count for the share of their days it covers
+ * @param monthly Budget for a whole month
+ * @param fromDate First day of the range
+ * @param toDate Last day of the range
+ * @returns Budget for the range rounded to cents
+ */
+export function budgetForRange(monthly: number, fromDate: Date, toDate: Date): number {
+    let months = 0;
+    let day = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate());
+    const last = new Date(toDate.getFullYear(), toDate.getMonth(), toDate.getDate());
+    while(day <= last) {
+        const daysInMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+        const monthEnd = new Date(day.getFullYear(), day.getMonth(), daysInMonth);
+        const end = (monthEnd < last) ? monthEnd : last;
+        months += (end.getDate() - day.getDate() + 1) / daysInMonth;
+        day = new Date(day.getFullYear(), day.getMonth() + 1, 1);
+    }
+    return Math.round(monthly * months * 100) / 100;
+}
+
+/**
+ * Finds the highest warning threshold that spending has reached
+ * @param total Amount spent
+ * @param budget Budget for the same range, null if there is none
+ * @returns Threshold reached (e.g. 0.8 for 80%), or null if no threshold was reached
+ */
+export function reachedThreshold(total: number, budget: number | null): number | null {
+    if(budget === null || budget <= 0) return null;
+    const reached = BudgetThresholds.filter(x => Math.round(total * 100) >= Math.round(budget * x * 100));
+    return (reached.length == 0) ? null : Math.max(...reached);
+}
+
+/**
+ * Picks the category for a purchase from a group's store rules, a rule matches when its pattern appears in the store name (ignoring case) and the longest matching pattern wins
+ * @param store Store name of the purchase
+ * @param rules Store rules of the group
+ * @returns ID of the matching category, or undefined if no rule matches
+ */
+export function matchCategory(store: string, rules: Array<{ categoryID: string, pattern: string }>): string | undefined {
+    const name = store.toLowerCase();
+    return rules.filter(x => x.pattern != '' && name.includes(x.pattern.toLowerCase()))
+    .sort((a, b) => b.pattern.length - a.pattern.length)[0]?.categoryID;
+}
\ No newline at end of file
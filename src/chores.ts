@@ -0,0 +1,26 @@
+export const ChoreCadences = ['daily', 'weekly'];
+
+/**
+ * Picks the member whose turn is next in a chore rotation
+ * Members take turns in alphabetical order, so members that left are skipped and new members join the rotation without reshuffling it
+ * @param members Usernames of the current group members
+ * @param last Username of the member that had the previous turn, null if there was none
+ * @returns Username of the next member, undefined if the group has no members
+ */
+export function nextInRotation(members: Array<string>, last: string | null): string | undefined {
+    const order = [...members].sort();
+    if(last === null) return order[0];
+    return order.find(x => x > last) ?? order[0];
+}
+
+/**
+ * Finds the last day of the window a chore assignment has to be completed in
+ * @param cadence How often the chore repeats (daily | weekly)
+ * @param every Number of days or weeks between turns
+ * @param start First day of the assignment
+ * @returns The day before the next turn starts
+ */
+export function assignmentDueDate(cadence: string, every: number, start: Date): Date {
+    const days = (cadence == 'weekly') ? every * 7 : every;
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + days - 1);
+}
\ No newline at end of file
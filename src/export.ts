@@ -0,0 +1,136 @@
+export interface Ledger {
+    groupID: string,
+    groupName: string,
+    generated: Date,
+    periodFrom: Date,
+    periodTo: Date,
+    countPurchases: number,
+    countIncentives: number,
+    purchaseTotal: number,
+    incentiveTotal: number,
+    total: number,
+    records: Array<{ date: Date, type: string, uname: string, incentiveName: string | null, store: string | null, amount: number, originalAmount: number, currency: string, category: string | null, notes: string, splitMethod: string | null }>,
+    settlements: Array<{ uname: string, totalPurchases: number, totalIncentives: number, penalties: number, share: number, carriedForward: number, paymentsSent: number, paymentsReceived: number, owes: number }>,
+    transfers: Array<{ from: string, to: string, amount: number }>
+}
+
+export const ExportFormats = ['csv', 'json', 'html'];
+
+/**
+ * Formats a date as YYYY-MM-DD using its local date
+ * @param date Date to format
+ * @returns Formatted date
+ */
+function formatDate(date: Date): string {
+    const d = new Date(date);
+    return `${ d.getFullYear() }-${ String(d.getMonth() + 1).padStart(2, '0') }-${ String(d.getDate()).padStart(2, '0') }`;
+}
+
+/**
+ * Quotes a CSV field when needed, text starting with a formula character is prefixed with ' so spreadsheets do not evaluate it
+ * @param value Field value
+ * @returns Field safe to write into a CSV row
+ */
+function csvField(value: string | number | null): string {
+    if(value === null) return '';
+    if(typeof value === 'number') return value.toFixed(2);
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${ value }` : value;
+    return /[",\r\n]/.test(text) ? `"${ text.replace(/"/g, '""') }"` : text;
+}
+
+/**
+ * Escapes text for use in HTML
+ * @param value Text to escape
+ * @returns Escaped text
+ */
+function htmlText(value: string | null): string {
+    return (value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Writes a group ledger as CSV with sections for the records, each member's settlement and the period totals
+ * @param ledger Ledger to write
+ * @returns CSV text
+ */
+export function ledgerToCSV(ledger: Ledger): string {
+    const lines: Array<string> = [];
+    const row = (fields: Array<string | number | null>) => lines.push(fields.map(csvField).join(','));
+
+    row(['Records']);
+    row(['Date', 'Type', 'Member', 'Store / Incentive', 'Category', 'Amount', 'Original Amount', 'Currency', 'Split', 'Notes']);
+    for(const x of ledger.records) row([formatDate(x.date), x.type, x.uname, x.store ?? x.incentiveName, x.category, Number(x.amount), Number(x.originalAmount), x.currency, x.splitMethod, x.notes]);
+
+    lines.push('');
+    row(['Settlements']);
+    row(['Member', 'Purchases', 'Incentives', 'Penalties', 'Share', 'Carried Forward', 'Payments Sent', 'Payments Received', 'Owes']);
+    for(const x of ledger.settlements) row([x.uname, x.totalPurchases, x.totalIncentives, x.penalties, x.share, x.carriedForward, x.paymentsSent, x.paymentsReceived, x.owes]);
+
+    lines.push('');
+    row(['Totals']);
+    row(['Group', ledger.groupName]);
+    row(['From', formatDate(ledger.periodFrom)]);
+    row(['To', formatDate(ledger.periodTo)]);
+    row(['Purchases', ledger.purchaseTotal]);
+    row(['Incentives', ledger.incentiveTotal]);
+    row(['Shared Expenses', ledger.total]);
+
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes a group ledger as a print friendly HTML statement that can be saved as a PDF from a browser
+ * @param ledger Ledger to write
+ * @returns HTML document
+ */
+export function ledgerToHTML(ledger: Ledger): string {
+    const money = (amount: number) => Number(amount).toFixed(2);
+    const period = `${ formatDate(ledger.periodFrom) } to ${ formatDate(ledger.periodTo) }`;
+
+    const records = ledger.records.map(x => `<tr><td>${ formatDate(x.date) }</td><td>${ htmlText(x.type) }</td><td>${ htmlText(x.uname) }</td><td>${ htmlText(x.store ?? x.incentiveName) }</td><td class="num">${ money(x.amount) }</td><td>${ htmlText(x.notes) }</td></tr>`).join('\n');
+    const settlements = ledger.settlements.map(x => `<tr><td>${ htmlText(x.uname) }</td><td class="num">${ money(x.totalPurchases) }</td><td class="num">${ money(x.totalIncentives) }</td><td class="num">${ money(x.penalties) }</td><td class="num">${ money(x.share) }</td><td class="num">${ money(x.carriedForward) }</td><td class="num">${ money(x.paymentsSent - x.paymentsReceived) }</td><td class="num">${ money(x.owes) }</td></tr>`).join('\n');
+    const transfers = ledger.transfers.map(x => `<li>${ htmlText(x.from) } pays ${ htmlText(x.to) } ${ money(x.amount) }</li>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${ htmlText(ledger.groupName) } Statement ${ period }</title>
+<style>
+body { font-family: sans-serif; font-size: 12px; margin: 2em; color: #000; }
+h1 { font-size: 20px; margin-bottom: 0; }
+h2 { font-size: 15px; margin-top: 2em; border-bottom: 1px solid #000; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ccc; }
+tr { page-break-inside: avoid; }
+.num { text-align: right; }
+.muted { color: #555; }
+@media print { body { margin: 0; } h2 { page-break-after: avoid; } }
+</style>
+</head>
+<body>
+<h1>${ htmlText(ledger.groupName) }</h1>
+<p class="muted">Statement for ${ period }, generated ${ formatDate(ledger.generated) }</p>
+
+<h2>Totals</h2>
+<table>
+<tr><th>Purchases (${ ledger.countPurchases })</th><td class="num">${ money(ledger.purchaseTotal) }</td></tr>
+<tr><th>Incentives (${ ledger.countIncentives })</th><td class="num">${ money(ledger.incentiveTotal) }</td></tr>
+<tr><th>Shared Expenses</th><td class="num">${ money(ledger.total) }</td></tr>
+</table>
+
+<h2>Settlements</h2>
+<table>
+<tr><th>Member</th><th class="num">Purchases</th><th class="num">Incentives</th><th class="num">Penalties</th><th class="num">Share</th><th class="num">Carried Forward</th><th class="num">Net Payments</th><th class="num">Owes</th></tr>
+${ settlements }
+</table>
+${ (transfers.length > 0) ? `<p>To settle up:</p>\n<ul>\n${ transfers }\n</ul>` : '<p>Everyone is settled up.</p>' }
+
+<h2>Records</h2>
+<table>
+<tr><th>Date</th><th>Type</th><th>Member</th><th>Store / Incentive</th><th class="num">Amount</th><th>Notes</th></tr>
+${ records }
+</table>
+</body>
+</html>
+`;
+}
\ No newline at end of file
@@ -0,0 +1,243 @@
+import { InputError, InputType, screenInput } from "./security.ts";
+
+export interface StatementRow {
+    row: number,
+    date: string,
+    amount: number,
+    description: string,
+    memo: string
+}
+
+export interface RateRow {
+    row: number,
+    currency: string,
+    date: string,
+    rate: number
+}
+
+export interface CSVMapping {
+    date: string,
+    amount?: string,
+    debit?: string,
+    credit?: string,
+    description: string,
+    memo?: string,
+    dateFormat: string,
+    delimiter: string,
+    header: boolean,
+    invert: boolean
+}
+
+export const DateFormats = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export const MaxStatementSize = 1048576;
+export const MaxStatementRows = 2000;
+
+/**
+ * Splits CSV text into rows of fields, handling quoted fields with embedded delimiters, quotes and line breaks
+ * @param text CSV text
+ * @param delimiter Field delimiter
+ * @returns Array of rows, each an array of field values
+ */
+function splitCSV(text: string, delimiter: string): Array<Array<string>> {
+    const rows: Array<Array<string>> = [];
+    let row: Array<string> = [];
+    let field = '';
+    let quoted = false;
+
+    for(let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if(quoted) {
+            if(c == '"' && text[i + 1] == '"') { field += '"'; i++; }
+            else if(c == '"') quoted = false;
+            else field += c;
+        } else if(c == '"' && field == '') {
+            quoted = true;
+        } else if(c == delimiter) {
+            row.push(field);
+            field = '';
+        } else if(c == '\n' || c == '\r') {
+            if(c == '\r' && text[i + 1] == '\n') i++;
+            row.push(field);
+            if(row.some(x => x.trim() != '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    row.push(field);
+    if(row.some(x => x.trim() != '')) rows.push(row);
+
+    return rows;
+}
+
+/**
+ * Converts a date in one of the supported formats to YYYY-MM-DD
+ * @param input Date as written in the statement
+ * @param format Format of the date (YYYY-MM-DD | MM/DD/YYYY | DD/MM/YYYY), two digit years are read as 20YY
+ * @returns The date as YYYY-MM-DD or undefined if it could not be read
+ */
+function normalizeDate(input: string, format: string): string | undefined {
+    const parts = input.trim().split(/[\/\-\.]/).map(x => Number(x));
+    if(parts.length != 3 || parts.some(x => !Number.isInteger(x))) return;
+
+    let [year, month, day] = (format == 'YYYY-MM-DD') ? parts : (format == 'MM/DD/YYYY') ? [parts[2], parts[0], parts[1]] : [parts[2], parts[1], parts[0]];
+    if(year < 100) year += 2000;
+    const date = new Date(year, month - 1, day);
+    if(date.getFullYear() != year || date.getMonth() != month - 1 || date.getDate() != day) return;
+
+    return `${ year }-${ String(month).padStart(2, '0') }-${ String(day).padStart(2, '0') }`;
+}
+
+/**
+ * Reads a money amount written with optional currency symbols, thousands separators or parentheses for negatives
+ * @param input Amount as written in the statement
+ * @returns The amount or NaN if it could not be read
+ */
+function parseAmount(input: string): number {
+    const trimmed = input.trim();
+    if(trimmed == '') return NaN;
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+    const value = Number(trimmed.replace(/[^0-9.]/g, ''));
+    return negative ? -value : value;
+}
+
+/**
+ * Parses a CSV bank or card statement using a column mapping
+ * Columns are referenced by header name (case insensitive) or by 1-based position when the file has no header row
+ * Spending is read as positive amounts, set invert for statements that list spending as negative
+ * @param text CSV text
+ * @param mapping Which columns hold which values and how they are formatted
+ * @returns Each transaction in the statement
+ */
+export function parseCSV(text: string, mapping: CSVMapping): Array<StatementRow> {
+    if(!DateFormats.includes(mapping.dateFormat)) throw new InputError('Invalid Date Format', `"${ mapping.dateFormat }" is not a supported date format.`, mapping.dateFormat);
+    if(typeof mapping.amount === 'undefined' && typeof mapping.debit === 'undefined') throw new InputError('No Amount Column', 'The column mapping must name an amount or debit column.', '');
+
+    const rows = splitCSV(text, mapping.delimiter);
+    if(rows.length == 0) throw new InputError('Empty Statement', 'The statement does not contain any transactions.', '');
+    const header = mapping.header ? rows.shift()!.map(x => x.trim().toLowerCase()) : [];
+    if(rows.length > MaxStatementRows) throw new InputError('Statement Too Large', `Statements cannot contain more than ${ MaxStatementRows } transactions.`, String(rows.length));
+
+    const column = (name: string | undefined): number | undefined => {
+        if(typeof name === 'undefined') return;
+        const index = mapping.header ? header.indexOf(name.trim().toLowerCase()) : Number(name) - 1;
+        if(index < 0 || !Number.isInteger(index)) throw new InputError('Column Not Found', `The statement does not have a column '${ name }'.`, name);
+        return index;
+    }
+    const columns = {
+        date: column(mapping.date)!,
+        amount: column(mapping.amount),
+        debit: column(mapping.debit),
+        credit: column(mapping.credit),
+        description: column(mapping.description)!,
+        memo: column(mapping.memo)
+    }
+
+    return rows.map((fields, i) => {
+        const row = i + (mapping.header ? 2 : 1);
+        const date = normalizeDate(fields[columns.date] ?? '', mapping.dateFormat);
+        if(typeof date === 'undefined') throw new InputError('Invalid Statement Date', `Row ${ row } has a date that does not match ${ mapping.dateFormat }.`, fields[columns.date] ?? '');
+
+        let amount: number;
+        if(typeof columns.amount !== 'undefined') {
+            amount = parseAmount(fields[columns.amount] ?? '');
+        } else {
+            const debit = parseAmount(fields[columns.debit!] ?? '');
+            const credit = (typeof columns.credit === 'undefined') ? NaN : parseAmount(fields[columns.credit] ?? '');
+            amount = (isNaN(debit) ? 0 : Math.abs(debit)) - (isNaN(credit) ? 0 : Math.abs(credit));
+        }
+        if(isNaN(amount)) throw new InputError('Invalid Statement Amount', `Row ${ row } does not have a readable amount.`, fields[columns.amount ?? columns.debit!] ?? '');
+
+        return {
+            row: row,
+            date: date,
+            amount: mapping.invert ? -amount : amount,
+            description: (fields[columns.description] ?? '').trim(),
+            memo: (typeof columns.memo === 'undefined') ? '' : (fields[columns.memo] ?? '').trim()
+        }
+    });
+}
+
+/**
+ * Parses a CSV of exchange rates with a header row naming its Currency, Date and Rate columns (case insensitive, in any order)
+ * Each rate is what one unit of the currency is worth in the group's currency from the date on
+ * @param text CSV text
+ * @param dateFormat Format of the dates (YYYY-MM-DD | MM/DD/YYYY | DD/MM/YYYY)
+ * @param delimiter Field delimiter
+ * @returns Each rate in the file
+ */
+export function parseRatesCSV(text: string, dateFormat: string, delimiter: string): Array<RateRow> {
+    if(!DateFormats.includes(dateFormat)) throw new InputError('Invalid Date Format', `"${ dateFormat }" is not a supported date format.`, dateFormat);
+
+    const rows = splitCSV(text, delimiter);
+    if(rows.length == 0) throw new InputError('No Exchange Rates', 'The file does not contain any exchange rates.', '');
+    const header = rows.shift()!.map(x => x.trim().toLowerCase());
+    if(rows.length > MaxStatementRows) throw new InputError('Too Many Exchange Rates', `Exchange rate files cannot contain more than ${ MaxStatementRows } rates.`, String(rows.length));
+
+    const column = (name: string): number => {
+        const index = header.indexOf(name);
+        if(index < 0) throw new InputError('Column Not Found', `The file does not have a column '${ name }'.`, name);
+        return index;
+    }
+    const columns = { currency: column('currency'), date: column('date'), rate: column('rate') };
+
+    return rows.map((fields, i) => {
+        const row = i + 2;
+        const date = normalizeDate(fields[columns.date] ?? '', dateFormat);
+        if(typeof date === 'undefined') throw new InputError('Invalid Rate Date', `Row ${ row } has a date that does not match ${ dateFormat }.`, fields[columns.date] ?? '');
+        const rate = Number((fields[columns.rate] ?? '').trim());
+        if((fields[columns.rate] ?? '').trim() == '' || !isFinite(rate) || rate <= 0) throw new InputError('Invalid Exchange Rate', `Row ${ row } does not have a rate greater than zero.`, fields[columns.rate] ?? '');
+
+        return {
+            row: row,
+            currency: screenInput((fields[columns.currency] ?? '').trim(), InputType.Currency),
+            date: date,
+            rate: rate
+        }
+    });
+}
+
+/**
+ * Parses an OFX or QFX statement (SGML or XML), spending is returned as positive amounts
+ * @param text OFX text
+ * @returns Each transaction in the statement
+ */
+export function parseOFX(text: string): Array<StatementRow> {
+    const blocks = text.split(/<STMTTRN>/i).slice(1);
+    if(blocks.length == 0) throw new InputError('Invalid OFX Statement', 'No transactions were found in the statement.', '');
+    if(blocks.length > MaxStatementRows) throw new InputError('Statement Too Large', `Statements cannot contain more than ${ MaxStatementRows } transactions.`, String(blocks.length));
+
+    // SGML statements leave tags unclosed, so values run until the next tag or line break
+    const tag = (block: string, name: string): string => {
+        const match = block.match(new RegExp(`<${ name }>([^<\\r\\n]*)`, 'i'));
+        return (match === null) ? '' : match[1].trim();
+    }
+
+    return blocks.map((block, i) => {
+        const posted = tag(block, 'DTPOSTED');
+        const date = /^\d{8}/.test(posted) ? normalizeDate(`${ posted.substring(0, 4) }-${ posted.substring(4, 6) }-${ posted.substring(6, 8) }`, 'YYYY-MM-DD') : undefined;
+        if(typeof date === 'undefined') throw new InputError('Invalid Statement Date', `Transaction ${ i + 1 } has an unreadable posting date.`, posted);
+        const amount = parseAmount(tag(block, 'TRNAMT'));
+        if(isNaN(amount)) throw new InputError('Invalid Statement Amount', `Transaction ${ i + 1 } does not have a readable amount.`, tag(block, 'TRNAMT'));
+
+        return {
+            row: i + 1,
+            date: date,
+            amount: -amount,
+            description: tag(block, 'NAME') || tag(block, 'PAYEE') || tag(block, 'MEMO'),
+            memo: tag(block, 'MEMO')
+        }
+    });
+}
+
+/**
+ * Turns a statement description into a store name that passes InputType.Header screening
+ * @param description Transaction description from the statement
+ * @returns Store name of 2 to 30 allowed characters
+ */
+export function toStoreName(description: string): string {
+    const name = description.replace(/[^\w \-:!$&()]/g, ' ').replace(/\s+/g, ' ').trim().substring(0, 30).trim();
+    return (name.length < 2) ? 'Unknown' : name;
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+/** Events that change what members owe, each is followed by a settlements.updated event */
+export const SettlementEvents = ['purchase.added', 'purchase.edited', 'purchase.deleted', 'incentive.claimed', 'incentive.edited', 'incentive.deleted', 'member.joined', 'member.left', 'payment.added', 'period.closed'];
+
+/** Milliseconds events are kept for clients that reconnect with a Last-Event-ID */
+export const ReplayWindow = 300000;
+
+/** Most events kept per group for clients that reconnect */
+export const MaxReplayEvents = 200;
+
+/** Milliseconds between comments sent to keep idle connections open */
+export const KeepAliveInterval = 15000;
+
+export interface LiveEvent {
+    id: string,
+    type: string,
+    data: unknown,
+    sent: number
+}
+
+export interface LiveConnection {
+    groupID: string,
+    uname: string,
+    sessionID: string
+}
+
+interface GroupFeed {
+    /** Random prefix of the feed's event IDs, a feed started after a restart or a long gap gets a new one */
+    generation: string,
+    sequence: number,
+    events: Array<LiveEvent & { sequence: number }>,
+    /** Time the last client disconnected, null while clients are connected */
+    idleSince: number | null
+}
+
+interface OpenConnection extends LiveConnection {
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    keepAlive: ReturnType<typeof setInterval>
+}
+
+/**
+ * Formats an event as a server-sent event frame
+ * @param type Event name
+ * @param data Data of the event, sent as JSON
+ * @param id ID the client reports back in Last-Event-ID when it reconnects
+ * @returns Text of the frame
+ */
+export function formatEvent(type: string, data: unknown, id?: string): string {
+    return `${ (typeof id === 'string') ? `id: ${ id }\n` : '' }event: ${ type }\ndata: ${ JSON.stringify(data) }\n\n`;
+}
+
+/**
+ * Pushes group events to the members connected to a group's event stream (text/event-stream), kept in memory
+ * Recent events are kept per group so clients that lose their connection for a short time can catch up
+ */
+export class LiveUpdates {
+    private feeds = new Map<string, GroupFeed>();
+    private connections = new Set<OpenConnection>();
+    private encoder = new TextEncoder();
+
+    /**
+     * Determines whether anyone is (or was recently) listening to a group, events of other groups are not kept
+     * @param groupID Group to check
+     * @param now Current time in milliseconds
+     * @returns true/false if events of the group are being kept
+     */
+    public isWatched(groupID: string, now: number = Date.now()): boolean {
+        const feed = this.feeds.get(groupID);
+        if(typeof feed === 'undefined') return false;
+        if(feed.idleSince !== null && feed.idleSince + ReplayWindow <= now) {
+            this.feeds.delete(groupID);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Sends an event to every client connected to a group and keeps it for clients that reconnect
+     * @param groupID Group the event happened in
+     * @param type Event name
+     * @param data Details of the event
+     * @param now Current time in milliseconds
+     */
+    public publish(groupID: string, type: string, data: unknown, now: number = Date.now()): void {
+        if(!this.isWatched(groupID, now)) return;
+        const feed = this.feeds.get(groupID)!;
+
+        feed.sequence++;
+        const event = { id: `${ feed.generation }-${ feed.sequence }`, type: type, data: data, sent: now, sequence: feed.sequence };
+        feed.events.push(event);
+        feed.events = feed.events.filter(x => x.sent + ReplayWindow > now).slice(-MaxReplayEvents);
+
+        for(const connection of this.connections) {
+            if(connection.groupID == groupID) this.write(connection, formatEvent(event.type, event.data, event.id));
+        }
+    }
+
+    /**
+     * Opens an event stream for a group member
+     * If the client reconnects with the ID of the last event it received, the events it missed are sent first
+     * When they are no longer kept a reset event is sent instead, telling the client to reload the group
+     * @param connection Group, user and session the stream is for
+     * @param lastEventID Last-Event-ID sent by a reconnecting client
+     * @returns Stream of server-sent events
+     */
+    public connect(connection: LiveConnection, lastEventID?: string | null): ReadableStream<Uint8Array> {
+        const now = Date.now();
+        if(!this.isWatched(connection.groupID, now)) this.feeds.set(connection.groupID, { generation: crypto.randomUUID().substring(0, 8), sequence: 0, events: [], idleSince: null });
+        const feed = this.feeds.get(connection.groupID)!;
+        feed.idleSince = null;
+
+        let open: OpenConnection;
+        return new ReadableStream<Uint8Array>({
+            start: controller => {
+                open = { ...connection, controller: controller, keepAlive: setInterval(() => this.write(open, ': keep-alive\n\n'), KeepAliveInterval) };
+                this.connections.add(open);
+                this.write(open, 'retry: 5000\n\n');
+
+                if(typeof lastEventID !== 'string' || lastEventID == '') return;
+                const [generation, sequence] = lastEventID.split('-');
+                const missed = feed.events.filter(x => x.sequence > Number(sequence));
+                if(generation == feed.generation && Number(sequence) <= feed.sequence && (Number(sequence) == feed.sequence || missed[0]?.sequence == Number(sequence) + 1)) {
+                    for(const event of missed) this.write(open, formatEvent(event.type, event.data, event.id));
+                } else {
+                    this.write(open, formatEvent('reset', { reason: 'Events since the last connection are no longer available, reload the group.' }, `${ feed.generation }-${ feed.sequence }`));
+                }
+            },
+            cancel: () => this.remove(open)
+        });
+    }
+
+    /**
+     * Closes the event streams matching a condition, a closed event is sent first so clients know not to reconnect
+     * @param match Condition the connections to close meet
+     * @param reason Explanation sent to the clients
+     * @returns Number of streams closed
+     */
+    public disconnect(match: (connection: LiveConnection) => boolean, reason: string): number {
+        let closed = 0;
+        for(const connection of [...this.connections]) {
+            if(!match(connection)) continue;
+            this.write(connection, formatEvent('closed', { reason: reason }));
+            this.remove(connection);
+            try {
+                connection.controller.close();
+            } catch {
+                // the client already went away
+            }
+            closed++;
+        }
+        return closed;
+    }
+
+    /**
+     * Lists the open event streams
+     * @returns Group, user and session of each stream
+     */
+    public listConnections(): Array<LiveConnection> {
+        return [...this.connections].map(x => ({ groupID: x.groupID, uname: x.uname, sessionID: x.sessionID }));
+    }
+
+    /**
+     * Sends text to a client, dropping the connection if the client went away
+     */
+    private write(connection: OpenConnection, text: string): void {
+        try {
+            connection.controller.enqueue(this.encoder.encode(text));
+        } catch {
+            this.remove(connection);
+        }
+    }
+
+    /**
+     * Forgets a connection and starts the replay window of its group once no clients are left
+     */
+    private remove(connection: OpenConnection): void {
+        if(!this.connections.delete(connection)) return;
+        clearInterval(connection.keepAlive);
+
+        const feed = this.feeds.get(connection.groupID);
+        if(typeof feed !== 'undefined' && ![...this.connections].some(x => x.groupID == connection.groupID)) feed.idleSince = Date.now();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { SmtpClient } from "../deps.ts";
+
+export interface Message {
+    to: string,
+    subject: string,
+    text: string
+}
+
+export interface Mailer {
+    /** Address of the web app, used to build links in messages */
+    baseURL: string,
+    send(message: Message): Promise<void>
+}
+
+export interface MailSettings {
+    transport: string,
+    from: string,
+    baseURL: string,
+    directory?: string,
+    smtp?: { hostname: string, port: number, username: string, password: string, tls: boolean }
+}
+
+/**
+ * Sends messages through an SMTP server
+ */
+export class SMTPMailer implements Mailer {
+    public readonly baseURL: string;
+    private from: string;
+    private smtp: { hostname: string, port: number, username: string, password: string, tls: boolean };
+
+    constructor(from: string, baseURL: string, smtp: { hostname: string, port: number, username: string, password: string, tls: boolean }) {
+        this.from = from;
+        this.baseURL = baseURL;
+        this.smtp = smtp;
+    }
+
+    public async send(message: Message): Promise<void> {
+        const client = new SmtpClient();
+        const connection = { hostname: this.smtp.hostname, port: this.smtp.port, username: this.smtp.username, password: this.smtp.password };
+        if(this.smtp.tls) await client.connectTLS(connection);
+        else await client.connect(connection);
+
+        try {
+            await client.send({ from: this.from, to: message.to, subject: message.subject, content: message.text });
+        } finally {
+            await client.close();
+        }
+    }
+}
+
+/**
+ * Writes each message to a text file for local development and tests
+ */
+export class FileMailer implements Mailer {
+    public readonly baseURL: string;
+    private from: string;
+    private directory: string;
+
+    constructor(from: string, baseURL: string, directory: string) {
+        this.from = from;
+        this.baseURL = baseURL;
+        this.directory = directory;
+    }
+
+    public async send(message: Message): Promise<void> {
+        await Deno.mkdir(this.directory, { recursive: true });
+        const name = `${ new Date().toISOString().replace(/[:.]/g, '-') }-${ crypto.randomUUID().substring(0, 8) }.txt`;
+        await Deno.writeTextFile(`${ this.directory }/${ name }`, `From: ${ this.from }\nTo: ${ message.to }\nSubject: ${ message.subject }\n\n${ message.text }\n`);
+    }
+}
+
+/**
+ * Prints each message to the console for local development
+ */
+export class ConsoleMailer implements Mailer {
+    public readonly baseURL: string;
+    private from: string;
+
+    constructor(from: string, baseURL: string) {
+        this.from = from;
+        this.baseURL = baseURL;
+    }
+
+    public async send(message: Message): Promise<void> {
+        console.log(`\n\x1b[1mEmail\x1b[0m\nFrom: ${ this.from }\nTo: ${ message.to }\nSubject: ${ message.subject }\n\n${ message.text }\n`);
+    }
+}
+
+/**
+ * Creates the mailer selected in preferences.json
+ * @param settings Mail settings (transport: smtp | file | console)
+ * @returns The configured mailer, console if no transport is set
+ */
+export function createMailer(settings?: MailSettings): Mailer {
+    const from = settings?.from ?? 'Roommate Portal <noreply@localhost>';
+    const baseURL = settings?.baseURL ?? 'http://localhost:5000';
+
+    switch(settings?.transport ?? 'console') {
+        case 'smtp':
+            if(typeof settings?.smtp === 'undefined') throw new Error('The smtp mail transport requires smtp settings in preferences.json.');
+            return new SMTPMailer(from, baseURL, settings.smtp);
+        case 'file':
+            return new FileMailer(from, baseURL, settings?.directory ?? './mail');
+        case 'console':
+            return new ConsoleMailer(from, baseURL);
+        default:
+            throw new Error(`Unknown mail transport '${ settings?.transport }', must be smtp, file or console.`);
+    }
+}
\ No newline at end of file
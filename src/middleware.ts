@@ -0,0 +1,159 @@
+import { RouterContext, RouterMiddleware } from "../deps.ts";
+import { API } from "./api.ts";
+import { InputError, AuthenticationError, AuthorizationError, RateLimitError, InputType, screenInput, errorHandler, describeWait } from "./security.ts";
+import { RateLimiter } from "./ratelimit.ts";
+
+/**
+ * Reads the session token from the Authorization header or the 'session' form field of a request
+ * @param ctx Context of the incoming request
+ * @param allowQuery Whether the token may also be passed in the 'session' query parameter
+ * @returns The session token or undefined if none was provided
+ */
+async function readSessionToken(ctx: RouterContext<string>, allowQuery: boolean): Promise<string | undefined> {
+    const header = ctx.request.headers.get('Authorization');
+    if(header !== null && header.startsWith('Bearer ')) return header.substring(7).trim();
+    if(allowQuery && ctx.request.url.searchParams.has('session')) return ctx.request.url.searchParams.get('session')!;
+
+    if(ctx.request.hasBody) {
+        const body = ctx.request.body();
+        if(body.type === 'form') {
+            const token = (await body.value).get('session');
+            if(typeof token === 'string') return token;
+        }
+    }
+}
+
+/**
+ * Resolves the user making a request from their session token and attaches it to ctx.state
+ * ctx.state.user holds the FullUser and ctx.state.session holds the session token
+ * @param api API instance used to validate sessions
+ * @param allowQuery Whether the token may be passed in the URL, only for routes browsers open without headers (e.g. EventSource)
+ * @returns Middleware that rejects requests without a valid session with a 401
+ */
+export function authenticate(api: API, allowQuery = false): RouterMiddleware<string> {
+    return async (ctx, next) => {
+        try {
+            const token = await readSessionToken(ctx, allowQuery);
+            if(typeof token === 'undefined') throw new AuthenticationError('No Session Token', 'A session token is required to access this resource.', '');
+
+            const user = await api.getFullUser(screenInput(token, InputType.Token));
+            ctx.state.user = user;
+            // the token is not refreshed here as most routes do not send it back, routes returning a dashboard refresh it
+            await api.validateSession(user.uname, token, false);
+            ctx.state.session = token;
+        } catch (e) {
+            // malformed tokens are reported as authentication failures rather than bad input
+            const err = (e instanceof InputError && !(e instanceof AuthenticationError)) ? new AuthenticationError(e.title, e.message, e.value) : e;
+            ctx.response.body = JSON.stringify(errorHandler(err, ctx));
+            return;
+        }
+
+        await next();
+    }
+}
+
+/**
+ * Only allows requests from current members of a group, must run after authenticate()
+ * @param api API instance used to check memberships
+ * @param resolveGroup Function returning the group ID the request acts on
+ * @returns Middleware that rejects callers outside of the group with a 403
+ */
+export function requireMember(api: API, resolveGroup: (ctx: RouterContext<string>) => Promise<string>): RouterMiddleware<string> {
+    return async (ctx, next) => {
+        try {
+            const group = await resolveGroup(ctx);
+            if(!(await api.isInGroup(ctx.state.user.uname, group))) throw new AuthorizationError('Not A Group Member', 'You must be a member of this group to perform this action.', group);
+        } catch (e) {
+            ctx.response.body = JSON.stringify(errorHandler(e, ctx));
+            return;
+        }
+
+        await next();
+    }
+}
+
+/**
+ * Limits how often a route can be called per IP address and per account, limited requests get a 429 with a Retry-After header
+ * @param perIP Limiter counting requests by the caller's IP address
+ * @param perAccount Limiter counting requests by the accounts named in the request
+ * @param resolveAccounts Function returning the accounts (usernames or email addresses) the request names
+ * @returns Middleware that rejects requests over either limit
+ */
+export function rateLimit(perIP: RateLimiter, perAccount: RateLimiter, resolveAccounts: (ctx: RouterContext<string>) => Promise<Array<string>>): RouterMiddleware<string> {
+    return async (ctx, next) => {
+        try {
+            const waits = [perIP.hit(`ip:${ ctx.request.ip }`)];
+            for(const account of await resolveAccounts(ctx)) waits.push(perAccount.hit(`account:${ account.toLowerCase() }`));
+
+            const wait = Math.max(...waits);
+            if(wait > 0) throw new RateLimitError('Too Many Requests', `Too many requests, try again in ${ describeWait(wait) }.`, '', wait);
+        } catch (e) {
+            ctx.response.body = JSON.stringify(errorHandler(e, ctx));
+            return;
+        }
+
+        await next();
+    }
+}
+
+/**
+ * Reads the accounts named by the 'username' and 'email' form fields of a request
+ */
+export async function accountsFromBody(ctx: RouterContext<string>): Promise<Array<string>> {
+    if(!ctx.request.hasBody) return [];
+    const body = ctx.request.body();
+    if(body.type !== 'form') return [];
+
+    const data = await body.value;
+    return ['username', 'email'].map(x => data.get(x)).filter((x): x is string => typeof x === 'string');
+}
+
+/* Group Resolvers */
+
+/**
+ * Reads the group ID from the ':id' route parameter
+ */
+export async function groupFromParams(ctx: RouterContext<string>): Promise<string> {
+    return screenInput(String(ctx.params.id), InputType.Token);
+}
+
+/**
+ * Reads the group ID from the 'group' form field
+ */
+export async function groupFromBody(ctx: RouterContext<string>): Promise<string> {
+    const data = await ctx.request.body().value;
+    return screenInput(data.get('group'), InputType.Token);
+}
+
+/**
+ * Resolves the group from the incentive referenced by the ':id' route parameter
+ * @param api API instance used to look up the incentive
+ */
+export function groupFromIncentive(api: API): (ctx: RouterContext<string>) => Promise<string> {
+    return async ctx => await api.getIncentiveGroup(screenInput(String(ctx.params.id), InputType.Token));
+}
+
+
+/**
+ * Resolves the group from the purchase referenced by the ':id' route parameter
+ * @param api API instance used to look up the purchase
+ */
+export function groupFromPurchase(api: API): (ctx: RouterContext<string>) => Promise<string> {
+    return async ctx => (await api.getPurchase(screenInput(String(ctx.params.id), InputType.Token))).groupID;
+}
+
+/**
+ * Resolves the group from the incentive record referenced by the ':id' route parameter
+ * @param api API instance used to look up the incentive record
+ */
+export function groupFromIncentiveRecord(api: API): (ctx: RouterContext<string>) => Promise<string> {
+    return async ctx => (await api.getIncentiveRecord(screenInput(String(ctx.params.id), InputType.Token))).groupID;
+}
+
+/**
+ * Resolves the group from the purchase of the attachment referenced by the ':id' route parameter
+ * @param api API instance used to look up the attachment
+ */
+export function groupFromAttachment(api: API): (ctx: RouterContext<string>) => Promise<string> {
+    return async ctx => (await api.getAttachment(screenInput(String(ctx.params.id), InputType.Token))).groupID;
+}
\ No newline at end of file
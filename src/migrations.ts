@@ -0,0 +1,174 @@
+import { Storage } from "./storage.ts";
+
+export interface Migration {
+    version: number,
+    name: string,
+    statements: Array<string>,
+    /** GRANT statements giving the portal's SQL user the privileges it needs on what the migration adds */
+    grants: Array<string>
+}
+
+export interface MigrationStatus {
+    applied: Array<{ version: number, name: string, applied: Date }>,
+    pending: Array<Migration>
+}
+
+/**
+ * Splits a SQL script into statements, DELIMITER lines change the statement terminator like they do in the mysql client
+ * @param sql SQL script
+ * @returns Each statement without its terminator, comments and empty statements are left out
+ */
+export function splitStatements(sql: string): Array<string> {
+    const statements: Array<string> = [];
+    let delimiter = ';';
+    let current = '';
+    let i = 0;
+
+    const push = () => {
+        if(current.trim() != '') statements.push(current.trim());
+        current = '';
+    }
+
+    while(i < sql.length) {
+        const lineStart = i == 0 || sql[i - 1] == '\n';
+        const directive = lineStart ? /^DELIMITER[ \t]+(\S+)[ \t]*(\r?\n|$)/i.exec(sql.substring(i, sql.indexOf('\n', i) + 1 || sql.length)) : null;
+
+        if(directive !== null) {
+            push();
+            delimiter = directive[1];
+            i += directive[0].length;
+        } else if(sql.startsWith('/*', i)) {
+            const end = sql.indexOf('*/', i + 2);
+            i = (end == -1) ? sql.length : end + 2;
+        } else if(sql.startsWith('-- ', i) || sql[i] == '#') {
+            const end = sql.indexOf('\n', i);
+            i = (end == -1) ? sql.length : end;
+        } else if(sql[i] == "'" || sql[i] == '"' || sql[i] == '`') {
+            const quote = sql[i];
+            let end = i + 1;
+            while(end < sql.length && !(sql[end] == quote && sql[end - 1] != '\\')) end++;
+            current += sql.substring(i, end + 1);
+            i = end + 1;
+        } else if(sql.startsWith(delimiter, i)) {
+            push();
+            i += delimiter.length;
+        } else {
+            current += sql[i];
+            i++;
+        }
+    }
+
+    push();
+    return statements;
+}
+
+/**
+ * Reads the migrations of a database dialect from setup/migrations/<dialect>, files are named <version>_<name>.sql
+ * GRANT statements are kept apart from the schema changes, {user} and {database} in them stand for the portal's SQL user and database
+ * @param dialect Database dialect (mariadb or sqlite)
+ * @returns Migrations ordered by version
+ */
+export async function loadMigrations(dialect: string): Promise<Array<Migration>> {
+    const directory = new URL(`../setup/migrations/${ dialect }/`, import.meta.url);
+    const migrations: Array<Migration> = [];
+
+    for await (const entry of Deno.readDir(directory)) {
+        const file = /^(\d+)_([\w\-]+)\.sql$/.exec(entry.name);
+        if(!entry.isFile || file === null) continue;
+
+        const version = Number(file[1]);
+        if(migrations.some(x => x.version == version)) throw new Error(`There are two ${ dialect } migrations with version ${ version }.`);
+        const statements = splitStatements(await Deno.readTextFile(new URL(entry.name, directory)));
+        migrations.push({ version: version, name: file[2], statements: statements.filter(x => !/^GRANT\s/i.test(x)), grants: statements.filter(x => /^GRANT\s/i.test(x)) });
+    }
+
+    return migrations.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Applies versioned migrations to a database and records the versions applied in the SchemaMigrations table
+ */
+export class Migrator {
+    private storage: Storage;
+    private migrations: Array<Migration>;
+
+    private constructor(storage: Storage, migrations: Array<Migration>) {
+        this.storage = storage;
+        this.migrations = migrations;
+    }
+
+    /**
+     * Loads the migrations for the dialect of a database
+     * @param storage Database to migrate
+     * @returns Migrator for the database
+     */
+    public static async open(storage: Storage): Promise<Migrator> {
+        return new Migrator(storage, await loadMigrations(storage.dialect));
+    }
+
+    /**
+     * Compares the migrations on disk with the versions applied to the database
+     * @returns Applied and pending migrations
+     */
+    public async status(): Promise<MigrationStatus> {
+        // a database without the SchemaMigrations table has not had any migrations applied
+        const applied = await this.storage.query('SELECT Version AS version, Name AS name, Applied AS applied FROM SchemaMigrations ORDER BY Version;')
+        .catch(e => {
+            if(/doesn't exist|no such table/i.test(e.message ?? '')) return [];
+            throw e;
+        });
+        const latest = this.migrations.at(-1)?.version ?? 0;
+
+        const unknown = applied.find((x: { version: number }) => x.version > latest);
+        if(typeof unknown !== 'undefined') throw new Error(`The database has migration ${ unknown.version } (${ unknown.name }) applied which does not exist here, update the portal before starting it.`);
+
+        return {
+            applied: applied,
+            pending: this.migrations.filter(x => !applied.some((y: { version: number }) => y.version == x.version))
+        };
+    }
+
+    /**
+     * Applies every pending migration in order, each in its own transaction
+     * (MariaDB commits schema changes as they are made, so a failed MariaDB migration may need to be cleaned up by hand)
+     * @param options dryRun lists the pending migrations without applying them, grantee is the SQL user that the grants of every migration are applied to afterwards
+     * @returns The pending migrations that were (or in a dry run would be) applied
+     */
+    public async migrate(options: { dryRun?: boolean, grantee?: { user: string, database: string } } = {}): Promise<Array<Migration>> {
+        const pending = (await this.status()).pending;
+        if(options.dryRun) return pending;
+
+        await this.storage.execute('CREATE TABLE IF NOT EXISTS SchemaMigrations (Version INT NOT NULL, Name VARCHAR(100) NOT NULL, Applied DATETIME NOT NULL, PRIMARY KEY (Version));');
+
+        for(const migration of pending) {
+            await this.storage.transaction(async storage => {
+                for(const statement of migration.statements) await storage.execute(statement);
+                await storage.execute('INSERT INTO SchemaMigrations (Version, Name, Applied) VALUES(?, ?, NOW());', [migration.version, migration.name]);
+            }).catch(e => {
+                throw new Error(`Migration ${ migration.version } (${ migration.name }) failed: ${ e.message ?? e }`);
+            });
+        }
+
+        if(typeof options.grantee !== 'undefined' && this.storage.dialect == 'mariadb') await this.grant(options.grantee.user, options.grantee.database);
+        return pending;
+    }
+
+    /**
+     * Throws if the database is missing any migrations, so the server does not run against an outdated schema
+     */
+    public async assertCurrent(): Promise<void> {
+        const pending = (await this.status()).pending;
+        if(pending.length > 0) throw new Error(`The database schema is behind, ${ pending.length } migration(s) are pending (${ pending.map(x => `${ String(x.version).padStart(4, '0') }_${ x.name }`).join(', ') }). Run make migrate before starting the server.`);
+    }
+
+    /**
+     * Applies the grants of every migration to the portal's SQL user so it can use the tables and columns they added
+     * Grants of migrations applied before are applied again, as a function that is dropped and created again loses its grants
+     * @param user SQL user the portal connects as
+     * @param database Name of the portal's database
+     */
+    private async grant(user: string, database: string): Promise<void> {
+        const grants = [...this.migrations.flatMap(x => x.grants), 'GRANT SELECT ON {database}.SchemaMigrations TO {user}'];
+        for(const grant of grants) await this.storage.execute(grant.replace(/\{user\}/g, `'${ user.replace(/'/g, "''") }'@'localhost'`).replace(/\{database\}/g, `\`${ database.replace(/`/g, '``') }\``));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Counts requests per key (e.g. an IP address or username) in fixed time windows held in memory
+ */
+export class RateLimiter {
+    private limit: number;
+    private window: number;
+    private hits = new Map<string, { count: number, reset: number }>();
+
+    /**
+     * @param limit Number of requests allowed per window
+     * @param windowSeconds Length of each window in seconds
+     */
+    constructor(limit: number, windowSeconds: number) {
+        this.limit = limit;
+        this.window = windowSeconds * 1000;
+    }
+
+    /**
+     * Counts a request against a key
+     * @param key Who the request is counted against
+     * @param now Current time in milliseconds
+     * @returns 0 if the request is allowed, otherwise the number of seconds until the key may make requests again
+     */
+    public hit(key: string, now: number = Date.now()): number {
+        if(this.hits.size > 10000) this.prune(now);
+
+        let entry = this.hits.get(key);
+        if(typeof entry === 'undefined' || entry.reset <= now) {
+            entry = { count: 0, reset: now + this.window };
+            this.hits.set(key, entry);
+        }
+
+        entry.count++;
+        return (entry.count > this.limit) ? Math.ceil((entry.reset - now) / 1000) : 0;
+    }
+
+    /**
+     * Forgets every key whose window has ended
+     * @param now Current time in milliseconds
+     */
+    private prune(now: number): void {
+        for(const [key, entry] of this.hits) {
+            if(entry.reset <= now) this.hits.delete(key);
+        }
+    }
+}
\ No newline at end of file
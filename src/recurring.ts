@@ -0,0 +1,57 @@
+import { InputError } from "./security.ts";
+
+export interface Schedule {
+    cadence: string,
+    every: number,
+    dayOfMonth: number | null,
+    startDate: Date,
+    endDate: Date | null
+}
+
+export const Cadences = ['weekly', 'monthly'];
+
+/**
+ * Checks that a recurring schedule can be followed
+ * @param schedule Schedule to check
+ * @param cadences Cadences the schedule may use
+ */
+export function validateSchedule(schedule: Schedule, cadences: Array<string> = Cadences): void {
+    if(!cadences.includes(schedule.cadence)) throw new InputError('Invalid Schedule', `"${ schedule.cadence }" is not a valid schedule, must be ${ cadences.join(' or ') }.`, schedule.cadence);
+    if(!Number.isInteger(schedule.every) || schedule.every < 1 || schedule.every > 12) throw new InputError('Invalid Schedule Interval', 'Schedules must repeat every 1 to 12 days, weeks or months.', String(schedule.every));
+    if(schedule.dayOfMonth !== null && (!Number.isInteger(schedule.dayOfMonth) || schedule.dayOfMonth < 1 || schedule.dayOfMonth > 31)) throw new InputError('Invalid Day Of Month', 'The day of the month must be between 1 and 31.', String(schedule.dayOfMonth));
+    if(isNaN(schedule.startDate.getTime())) throw new InputError('Invalid Start Date', 'A recurring expense must have a valid start date.', String(schedule.startDate));
+    if(schedule.endDate !== null && schedule.endDate < schedule.startDate) throw new InputError('Invalid End Date', 'The end date cannot be before the start date.', String(schedule.endDate));
+}
+
+/**
+ * Lists the dates a schedule falls on after one date up to and including another
+ * Monthly schedules falling on a day the month does not have (e.g. the 31st) use the last day of that month
+ * @param schedule Schedule to follow
+ * @param after Only list occurrences after this date
+ * @param until Only list occurrences on or before this date
+ * @returns Dates of every occurrence in the range, in order
+ */
+export function occurrencesBetween(schedule: Schedule, after: Date, until: Date): Array<Date> {
+    const start = new Date(schedule.startDate.getFullYear(), schedule.startDate.getMonth(), schedule.startDate.getDate());
+    const last = (schedule.endDate !== null && schedule.endDate < until) ? schedule.endDate : until;
+    const day = schedule.dayOfMonth ?? start.getDate();
+    const res: Array<Date> = [];
+
+    for(let i = 0; ; i++) {
+        let next: Date;
+        if(schedule.cadence == 'daily') {
+            next = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i * schedule.every);
+        } else if(schedule.cadence == 'weekly') {
+            next = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i * 7 * schedule.every);
+        } else {
+            const month = new Date(start.getFullYear(), start.getMonth() + i * schedule.every, 1);
+            const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+            next = new Date(month.getFullYear(), month.getMonth(), Math.min(day, daysInMonth));
+        }
+
+        if(next > last) break;
+        if(next >= start && next > after) res.push(next);
+    }
+
+    return res;
+}
\ No newline at end of file
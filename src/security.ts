@@ -26,6 +26,42 @@ export class InputError {
     }
 }
 
+export class AuthenticationError extends InputError {}
+
+export class AuthorizationError extends InputError {}
+
+export class RateLimitError extends InputError {
+    public retryAfter: number;
+
+    constructor(title: string, message: string, value: string, retryAfter: number) {
+        super(title, message, value);
+        this.retryAfter = retryAfter;
+    }
+}
+
+export const MaxLoginAttempts = 5;
+
+/**
+ * Works out how long an account stays locked after a failed login, doubling with every failure past the limit
+ * @param failedAttempts Number of failed login attempts in a row
+ * @returns Lockout length in milliseconds (1 minute at the limit, at most 1 day), 0 below the limit
+ */
+export function lockoutDuration(failedAttempts: number): number {
+    if(failedAttempts < MaxLoginAttempts) return 0;
+    return Math.min(60000 * 2 ** (failedAttempts - MaxLoginAttempts), 86400000);
+}
+
+/**
+ * Describes a wait in words for error messages
+ * @param seconds Length of the wait
+ * @returns e.g. "45 seconds", "3 minutes" or "2 hours"
+ */
+export function describeWait(seconds: number): string {
+    if(seconds < 60) return `${ seconds } second${ (seconds == 1) ? '' : 's' }`;
+    if(seconds < 3600) return `${ Math.ceil(seconds / 60) } minute${ (Math.ceil(seconds / 60) == 1) ? '' : 's' }`;
+    return `${ Math.ceil(seconds / 3600) } hour${ (Math.ceil(seconds / 3600) == 1) ? '' : 's' }`;
+}
+
 export enum InputType {
     Username,
     Password,
@@ -33,7 +69,11 @@ export enum InputType {
     Email,
     Token,
     String,
-    Header
+    Header,
+    Date,
+    InviteCode,
+    Secret,
+    Currency
 }
 
 export function screenInput(input: string, type: InputType): string {
@@ -71,12 +111,87 @@ export function screenInput(input: string, type: InputType): string {
             if(input.length > 30) throw new InputError('Input Too Long', 'Input cannot exceed 30 characters.', input);
             if(!/^([\w \-:!$&()]+){2,30}$/.test(input)) throw new InputError('Invalid Input', 'Input can only contain alphanumeric characters and select symbols.', input);
             return input;
+        case InputType.Date:
+            if(!/^\d{4}-\d{2}-\d{2}$/.test(input) || isNaN(parseDate(input).getTime())) throw new InputError('Invalid Date', `'${input}' is not a valid date, dates must be formatted as YYYY-MM-DD.`, input);
+            return input;
+        case InputType.InviteCode:
+            if(!/^[A-HJ-NP-Z2-9]{10}$/.test(input.toUpperCase())) throw new InputError('Invalid Invite Code', `The invite code '${input}' is not valid.`, input);
+            return input.toUpperCase();
+        case InputType.Secret:
+            if(!/^[0-9a-f]{64}$/.test(input)) throw new InputError('Invalid Token', 'The provided token is not valid.', '');
+            return input;
+        case InputType.Currency:
+            if(!/^[A-Za-z]{3}$/.test(input)) throw new InputError('Invalid Currency', `'${input}' is not a valid currency, currencies must be 3 letter codes such as USD or EUR.`, input);
+            return input.toUpperCase();
         default:
             throw new InputError('Unknown Input Type', `No input validation rules defined for type '${ InputType[type] }'.`, `${ InputType[type] }`);
     }
 }
 
-export function errorHandler(e: any): { status: string, body: any } {
+/**
+ * Generates a random invite code, letters and digits that are easily confused (I, O, 0, 1) are left out so codes can be read aloud or typed
+ * @returns A 10 character invite code
+ */
+export function generateInviteCode(): string {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    return Array.from(crypto.getRandomValues(new Uint8Array(10)), x => alphabet[x % alphabet.length]).join('');
+}
+
+/**
+ * Generates a random secret token (e.g. for password reset links)
+ * @returns 64 hexadecimal characters (32 random bytes)
+ */
+export function generateSecret(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(32)), x => x.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hashes a secret token so only the hash needs to be stored
+ * @param secret Token to hash
+ * @returns SHA-256 hash of the token as 64 hexadecimal characters
+ */
+export async function hashSecret(secret: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+    return Array.from(new Uint8Array(digest), x => x.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Converts a YYYY-MM-DD date string to a Date at local midnight
+ * @param input Date string to convert
+ * @returns The parsed date
+ */
+export function parseDate(input: string): Date {
+    const [year, month, day] = input.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return (date.getMonth() == month - 1) ? date : new Date(NaN);
+}
+
+/**
+ * Screens an optional from/to pair of YYYY-MM-DD dates, either end defaults to the bounds of the current month
+ * @param from Start of the range
+ * @param to End of the range
+ * @returns The parsed date range
+ */
+export function screenDateRange(from: string | null, to: string | null): { from: Date, to: Date } {
+    const today = new Date();
+    const range = {
+        from: (typeof from === 'string') ? parseDate(screenInput(from, InputType.Date)) : new Date(today.getFullYear(), today.getMonth(), 1),
+        to: (typeof to === 'string') ? parseDate(screenInput(to, InputType.Date)) : new Date(today.getFullYear(), today.getMonth() + 1, 0)
+    }
+    if(range.from > range.to) throw new InputError('Invalid Date Range', 'The start of the range must be before its end.', `${ from } -> ${ to }`);
+    return range;
+}
+
+export function errorHandler(e: any, ctx?: { response: { status: number, headers: Headers } }): { status: string, body: any } {
+    if(typeof ctx !== 'undefined') {
+        if(e instanceof AuthenticationError) ctx.response.status = 401;
+        else if(e instanceof AuthorizationError) ctx.response.status = 403;
+        else if(e instanceof RateLimitError) {
+            ctx.response.status = 429;
+            ctx.response.headers.set('Retry-After', String(e.retryAfter));
+        }
+    }
+
     if(e instanceof InputError) return { status: "Error", body: e.report() };
     else return { status: "Error", body: { type: "Server Error", message: e.toString() }};
 }
\ No newline at end of file
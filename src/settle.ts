@@ -0,0 +1,57 @@
+export interface Transfer {
+    from: string,
+    to: string,
+    amount: number
+}
+
+/** How a group divides shared expenses: evenly between everyone that was a member during a period, or by the number of days each member was active in it */
+export const ShareMethods = ['even', 'prorated'];
+
+/**
+ * Turns each member's net balance into a short list of payments that settles everyone up
+ * Balances are worked out in cents. Rounding leftovers (owes not summing to zero) are absorbed one cent at a time by the largest balances on the heavier side, ties broken alphabetically, so the same input always gives the same plan and the transfers add up exactly
+ * @param balances Amount owed by each member (negative when the member is owed money)
+ * @returns Transfers from members that owe money to members that are owed money
+ */
+export function planTransfers(balances: Array<{ uname: string, owes: number }>): Array<Transfer> {
+    const accounts = balances.map(x => ({ uname: x.uname, cents: Math.round(x.owes * 100) }))
+    .sort((a, b) => (a.uname < b.uname) ? -1 : (a.uname > b.uname) ? 1 : 0);
+
+    // absorb rounding leftovers so debts and credits cancel out
+    let residual = accounts.reduce((sum, x) => sum + x.cents, 0);
+    while(residual != 0) {
+        const side = accounts.filter(x => (residual > 0) ? x.cents > 0 : x.cents < 0);
+        if(side.length == 0) break;
+        side.sort((a, b) => (Math.abs(b.cents) - Math.abs(a.cents)) || ((a.uname < b.uname) ? -1 : 1));
+        side[0].cents -= Math.sign(residual);
+        residual -= Math.sign(residual);
+    }
+
+    const debtors = accounts.filter(x => x.cents > 0);
+    const creditors = accounts.filter(x => x.cents < 0).map(x => ({ uname: x.uname, cents: -x.cents }));
+    const transfers: Array<Transfer> = [];
+    const pay = (from: { uname: string, cents: number }, to: { uname: string, cents: number }, cents: number) => {
+        transfers.push({ from: from.uname, to: to.uname, amount: cents / 100 });
+        from.cents -= cents;
+        to.cents -= cents;
+    }
+
+    // settle matching balances directly first, each removes two people with one transfer
+    for(const debtor of debtors) {
+        const match = creditors.find(x => x.cents > 0 && x.cents == debtor.cents);
+        if(typeof match !== 'undefined') pay(debtor, match, debtor.cents);
+    }
+
+    // then repeatedly have the largest debtor pay the largest creditor
+    const largest = (list: Array<{ uname: string, cents: number }>) => list.filter(x => x.cents > 0)
+    .sort((a, b) => (b.cents - a.cents) || ((a.uname < b.uname) ? -1 : 1))[0];
+    let debtor = largest(debtors);
+    let creditor = largest(creditors);
+    while(typeof debtor !== 'undefined' && typeof creditor !== 'undefined') {
+        pay(debtor, creditor, Math.min(debtor.cents, creditor.cents));
+        debtor = largest(debtors);
+        creditor = largest(creditors);
+    }
+
+    return transfers;
+}
\ No newline at end of file
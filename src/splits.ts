@@ -0,0 +1,79 @@
+import { InputError, InputType, screenInput } from "./security.ts";
+
+export interface SplitRule {
+    method: string,
+    parts: Array<{ uname: string, value: number }>
+}
+
+export interface Allocation {
+    uname: string,
+    amount: number
+}
+
+export const SplitMethods = ['equal', 'shares', 'percent', 'exact'];
+
+/**
+ * Divides a purchase amount between members according to a split rule
+ * Allocations are calculated in cents and any leftover cents go to the parts with the largest remainders (ties broken by listed order) so they always add up to the purchase amount
+ * @param amount Purchase total to divide
+ * @param rule Split rule naming the members and their values (equal: ignored, shares: weight, percent: percentage, exact: amount)
+ * @returns Amount allocated to each member in the rule
+ */
+export function allocateSplit(amount: number, rule: SplitRule): Array<Allocation> {
+    if(!SplitMethods.includes(rule.method)) throw new InputError('Invalid Split Method', `"${ rule.method }" is not a valid split method.`, rule.method);
+    if(rule.parts.length == 0) throw new InputError('Empty Split', 'A split must include at least one member.', rule.method);
+    if(new Set(rule.parts.map(x => x.uname)).size != rule.parts.length) throw new InputError('Duplicate Split Member', 'Each member can only appear once in a split.', rule.parts.map(x => x.uname).join(', '));
+    if(rule.method != 'equal' && rule.parts.some(x => !isFinite(x.value))) throw new InputError('Invalid Split Value', 'Every member in the split must have a numeric value.', rule.method);
+
+    const cents = Math.round(amount * 100);
+
+    if(rule.method == 'exact') {
+        const total = rule.parts.reduce((sum, x) => sum + Math.round(x.value * 100), 0);
+        if(total != cents) throw new InputError('Split Does Not Match Amount', `Exact amounts add up to ${ (total / 100).toFixed(2) } but the purchase total is ${ (cents / 100).toFixed(2) }.`, String(total / 100));
+        return rule.parts.map(x => ({ uname: x.uname, amount: Math.round(x.value * 100) / 100 }));
+    }
+
+    if(rule.method == 'percent') {
+        const total = rule.parts.reduce((sum, x) => sum + x.value, 0);
+        if(Math.abs(total - 100) > 0.0001) throw new InputError('Split Does Not Match Amount', `Percentages add up to ${ total }% instead of 100%.`, String(total));
+    }
+    if(rule.parts.some(x => rule.method != 'equal' && x.value <= 0)) throw new InputError('Invalid Split Value', 'Shares and percentages must be greater than zero.', rule.method);
+
+    // distribute whole cents by weight, then hand out the remainder by largest fractional part
+    const weights = rule.parts.map(x => (rule.method == 'equal') ? 1 : x.value);
+    const totalWeight = weights.reduce((sum, x) => sum + x, 0);
+    const sign = (cents < 0) ? -1 : 1;
+    const exact = weights.map(w => Math.abs(cents) * w / totalWeight);
+    const floored = exact.map(x => Math.floor(x));
+    let leftover = Math.abs(cents) - floored.reduce((sum, x) => sum + x, 0);
+
+    const order = exact.map((x, i) => ({ i, remainder: x - floored[i] })).sort((a, b) => (b.remainder - a.remainder) || (a.i - b.i));
+    for(let j = 0; leftover > 0; j++, leftover--) floored[order[j % order.length].i]++;
+
+    return rule.parts.map((x, i) => ({ uname: x.uname, amount: sign * floored[i] / 100 }));
+}
+
+/**
+ * Reads a split rule from submitted form data
+ * The method is read from 'split' and members from numbered 'split1', 'split2'... fields with their values in 'share1', 'share2'...
+ * @param data Form data of the request
+ * @returns The split rule or undefined if the request did not define one
+ */
+export function splitFromForm(data: URLSearchParams): SplitRule | undefined {
+    if(typeof data.get('split') !== 'string' || data.get('split') === 'even') return;
+
+    const method = String(data.get('split'));
+    if(!SplitMethods.includes(method)) throw new InputError('Invalid Split Method', `"${ method }" is not a valid split method.`, method);
+
+    let i = 1;
+    const parts = [];
+    while(typeof data.get(`split${i}`) === 'string') {
+        parts.push({
+            uname: screenInput(String(data.get(`split${i}`)), InputType.Username),
+            value: (typeof data.get(`share${i}`) === 'string') ? Number(data.get(`share${i}`)) : NaN
+        });
+        i++;
+    }
+
+    return { method, parts };
+}
\ No newline at end of file
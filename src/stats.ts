@@ -0,0 +1,50 @@
+/** Number of months averaged by the rolling average, including the month itself */
+export const RollingWindow = 3;
+
+/** Most stores listed by spend */
+export const TopStoreCount = 10;
+
+/** Most months a single statistics request can cover */
+export const MaxStatsMonths = 36;
+
+/**
+ * Splits a date range into calendar months, the first and last month are cut to the range
+ * @param fromDate First day of the range
+ * @param toDate Last day of the range
+ * @returns Each month as YYYY-MM with the first and last day of the range it covers
+ */
+export function monthsBetween(fromDate: Date, toDate: Date): Array<{ month: string, from: Date, to: Date }> {
+    const months = [];
+    let day = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate());
+    const last = new Date(toDate.getFullYear(), toDate.getMonth(), toDate.getDate());
+    while(day <= last) {
+        const monthEnd = new Date(day.getFullYear(), day.getMonth() + 1, 0);
+        months.push({ month: `${ day.getFullYear() }-${ String(day.getMonth() + 1).padStart(2, '0') }`, from: day, to: (monthEnd < last) ? monthEnd : last });
+        day = new Date(day.getFullYear(), day.getMonth() + 1, 1);
+    }
+    return months;
+}
+
+/**
+ * Averages each value with the values before it, months before the first one are not counted
+ * @param values Totals in order
+ * @param window Number of values averaged
+ * @returns Average at each position rounded to cents
+ */
+export function rollingAverages(values: Array<number>, window: number = RollingWindow): Array<number> {
+    return values.map((_, i) => {
+        const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+        return Math.round(slice.reduce((sum, x) => sum + x, 0) / slice.length * 100) / 100;
+    });
+}
+
+/**
+ * Works out how much a total changed from the previous one
+ * @param previous Earlier total, undefined if there is none
+ * @param current Later total
+ * @returns Change as a fraction of the earlier total rounded to 4 places (0.25 for 25% more), null if the earlier total is missing or zero
+ */
+export function changeFrom(previous: number | undefined, current: number): number | null {
+    if(typeof previous === 'undefined' || previous == 0) return null;
+    return Math.round((current - previous) / previous * 10000) / 10000;
+}
\ No newline at end of file
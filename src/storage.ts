@@ -0,0 +1,320 @@
+import { Client, DatabaseSync } from "../deps.ts";
+
+export interface ExecuteResult {
+    affectedRows?: number,
+    lastInsertId?: number
+}
+
+/**
+ * A database the API can run its SQL against, queries are written in MariaDB's dialect and use the ID and expense functions from setup/migrations/mariadb
+ */
+export interface Storage {
+    /** SQL dialect of the database, selects the migrations in setup/migrations */
+    readonly dialect: string,
+    query(sql: string, params?: Array<any>): Promise<any>,
+    execute(sql: string, params?: Array<any>): Promise<ExecuteResult>,
+    /** Runs work in a transaction that is rolled back if it throws, work must make its statements with the storage passed to it */
+    transaction<T>(work: (storage: Storage) => Promise<T>): Promise<T>,
+    close(): Promise<void>
+}
+
+interface Connection {
+    query(sql: string, params?: Array<any>): Promise<any>,
+    execute(sql: string, params?: Array<any>): Promise<ExecuteResult>
+}
+
+export interface StorageSettings {
+    backend?: string,
+    hostname?: string,
+    db?: string,
+    username?: string,
+    password?: string,
+    path?: string
+}
+
+/**
+ * Runs queries on a MariaDB server set up with setup/db-setup.sh
+ */
+export class MariaDBStorage implements Storage {
+    public readonly dialect = 'mariadb';
+    private client: Client;
+    private connection: Connection;
+
+    private constructor(client: Client, connection?: Connection) {
+        this.client = client;
+        this.connection = connection ?? client;
+    }
+
+    public static async connect(credentials: { hostname: string, db: string, username: string, password: string }): Promise<MariaDBStorage> {
+        return new MariaDBStorage(await new Client().connect(credentials));
+    }
+
+    public async query(sql: string, params?: Array<any>): Promise<any> {
+        return await this.connection.query(sql, params);
+    }
+
+    public async execute(sql: string, params?: Array<any>): Promise<ExecuteResult> {
+        return await this.connection.execute(sql, params);
+    }
+
+    public async transaction<T>(work: (storage: Storage) => Promise<T>): Promise<T> {
+        return await this.client.transaction(async connection => await work(new MariaDBStorage(this.client, connection)));
+    }
+
+    public async close(): Promise<void> {
+        await this.client.close();
+    }
+}
+
+/**
+ * Formats a date as YYYY-MM-DD using its local date
+ * @param date Date to format
+ * @returns Formatted date
+ */
+function formatDate(date: Date): string {
+    return `${ date.getFullYear() }-${ String(date.getMonth() + 1).padStart(2, '0') }-${ String(date.getDate()).padStart(2, '0') }`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD HH:MM:SS using its local time, the way MariaDB stores a DATETIME
+ * @param date Date to format
+ * @returns Formatted date and time
+ */
+function formatDateTime(date: Date): string {
+    return `${ formatDate(date) } ${ String(date.getHours()).padStart(2, '0') }:${ String(date.getMinutes()).padStart(2, '0') }:${ String(date.getSeconds()).padStart(2, '0') }`;
+}
+
+/**
+ * Converts a query parameter to a value SQLite can bind, dates are written as text so they compare the same way MariaDB compares DATE and DATETIME values
+ * @param value Query parameter
+ * @returns Value to bind
+ */
+function toSQLite(value: any): any {
+    if(typeof value === 'undefined') return null;
+    if(typeof value === 'boolean') return value ? 1 : 0;
+    if(value instanceof Date) {
+        const time = formatDateTime(value);
+        return time.endsWith(' 00:00:00') ? formatDate(value) : time;
+    }
+    if(typeof value === 'string') {
+        // ISO timestamps are read by MariaDB as a local date and time, the time zone is ignored
+        const iso = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(\.\d+)?Z?$/.exec(value);
+        if(iso !== null) return (iso[2] == '00:00:00') ? iso[1] : `${ iso[1] } ${ iso[2] }`;
+    }
+    return value;
+}
+
+/**
+ * Converts a column value read from SQLite to what the MariaDB driver returns for a column of the same declared type
+ * @param value Column value
+ * @param type Declared type of the column, null for computed columns
+ * @returns Converted value
+ */
+function fromSQLite(value: any, type: string | null): any {
+    if(value === null || type === null) return value;
+    if(/^(DATE|DATETIME|TIMESTAMP)$/i.test(type)) return new Date(value);
+
+    const decimal = /^DECIMAL\(\d+,(\d+)\)$/i.exec(type);
+    if(decimal !== null) return Number(value).toFixed(Number(decimal[1]));
+    return value;
+}
+
+/**
+ * Parses a date with a MariaDB STR_TO_DATE format, only the %Y, %m, %d, %H, %i and %s specifiers are supported
+ * @param text Date text
+ * @param format MariaDB date format
+ * @returns Date as YYYY-MM-DD (with HH:MM:SS if the format has a time) or null if the text does not match
+ */
+function strToDate(text: string | null, format: string | null): string | null {
+    if(text === null || format === null) return null;
+
+    const fields: Array<string> = [];
+    const pattern = format.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%([YmdHis])/g, (_, x) => {
+        fields.push(x);
+        return (x == 'Y') ? '(\\d{4})' : '(\\d{1,2})';
+    });
+    const match = new RegExp(`^${ pattern }$`).exec(text.trim());
+    if(match === null) return null;
+
+    const part = (x: string) => String(Number(match[fields.indexOf(x) + 1] ?? 0)).padStart(2, '0');
+    const date = `${ match[fields.indexOf('Y') + 1] }-${ part('m') }-${ part('d') }`;
+    return fields.some(x => 'His'.includes(x)) ? `${ date } ${ part('H') }:${ part('i') }:${ part('s') }` : date;
+}
+
+/**
+ * Counts the ? placeholders of a query that are not inside quotes
+ * @param sql Query text
+ * @returns Number of placeholders
+ */
+function countPlaceholders(sql: string): number {
+    return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"/g, '').split('?').length - 1;
+}
+
+/**
+ * Runs queries on a SQLite database file (or in memory), so the portal can run without a MariaDB server
+ * The MariaDB functions the queries rely on (NOW, UUID, ID_TO_BIN, CONVERT_AMOUNT, SUM_EXPENSES, ...) are registered as SQLite functions
+ */
+export class SQLiteStorage implements Storage {
+    public readonly dialect = 'sqlite';
+    private db: DatabaseSync;
+    /** Statements and transactions waiting for the connection, null for the storage given to the work of a transaction as it already holds it */
+    private queue: { last: Promise<unknown> } | null;
+
+    private constructor(db: DatabaseSync, queue: { last: Promise<unknown> } | null = { last: Promise.resolve() }) {
+        this.db = db;
+        this.queue = queue;
+    }
+
+    /**
+     * Opens a SQLite database, its tables are created by the migrations in setup/migrations/sqlite
+     * @param path Database file, or :memory: for a database that only lasts while the server runs
+     * @returns The opened database
+     */
+    public static async open(path: string): Promise<SQLiteStorage> {
+        if(path != ':memory:' && path.includes('/')) await Deno.mkdir(path.substring(0, path.lastIndexOf('/')), { recursive: true });
+
+        const db = new DatabaseSync(path);
+        db.exec('PRAGMA foreign_keys = ON;');
+        const storage = new SQLiteStorage(db);
+        storage.registerFunctions();
+        return storage;
+    }
+
+    public async query(sql: string, params: Array<any> = []): Promise<Array<any>> {
+        return await this.exclusive(() => {
+            const statement = this.db.prepare(sql);
+            const types = statement.columns().map(x => x.type);
+            return statement.all(...this.bind(sql, params)).map(row => {
+                const result: { [column: string]: any } = {};
+                Object.keys(row).forEach((column, i) => result[column] = fromSQLite(row[column], types[i]));
+                return result;
+            });
+        });
+    }
+
+    public async execute(sql: string, params: Array<any> = []): Promise<ExecuteResult> {
+        return await this.exclusive(() => {
+            const res = this.db.prepare(sql).run(...this.bind(sql, params));
+            return { affectedRows: Number(res.changes), lastInsertId: Number(res.lastInsertRowid) };
+        });
+    }
+
+    /**
+     * Runs work in a transaction on the shared connection, other statements wait until it ends so they are not committed or rolled back with it
+     * A transaction started by the work joins the open transaction
+     */
+    public async transaction<T>(work: (storage: Storage) => Promise<T>): Promise<T> {
+        if(this.queue === null) return await work(this);
+
+        return await this.exclusive(async () => {
+            this.db.exec('BEGIN;');
+            try {
+                const result = await work(new SQLiteStorage(this.db, null));
+                this.db.exec('COMMIT;');
+                return result;
+            } catch (e) {
+                this.db.exec('ROLLBACK;');
+                throw e;
+            }
+        });
+    }
+
+    /**
+     * Runs a statement or transaction once the statements and transactions queued before it have finished
+     * @param run Work that uses the connection
+     * @returns Result of the work
+     */
+    private async exclusive<T>(run: () => T | Promise<T>): Promise<T> {
+        if(this.queue === null) return await run();
+
+        const result = this.queue.last.then(run);
+        this.queue.last = result.catch(() => undefined);
+        return await result;
+    }
+
+    /**
+     * Converts the parameters of a query, extra parameters are dropped as the MariaDB driver ignores them
+     * @param sql Query text
+     * @param params Query parameters
+     * @returns Values to bind
+     */
+    private bind(sql: string, params: Array<any>): Array<any> {
+        return params.slice(0, countPlaceholders(sql)).map(toSQLite);
+    }
+
+    public async close(): Promise<void> {
+        await this.exclusive(() => this.db.close());
+    }
+
+    /**
+     * Registers SQLite versions of the MariaDB built in functions and the functions created by the MariaDB migrations
+     */
+    private registerFunctions(): void {
+        const value = (sql: string, params: Array<any>) => Object.values(this.db.prepare(sql).get(...params) ?? {})[0] ?? null;
+        // DATE parameters of the MariaDB functions drop the time of the value passed
+        const dateOnly = (x: string | null) => (x === null) ? null : String(x).substring(0, 10);
+
+        this.db.function('NOW', () => formatDateTime(new Date()));
+        this.db.function('CURDATE', () => formatDate(new Date()));
+        this.db.function('UUID', () => crypto.randomUUID());
+        this.db.function('STR_TO_DATE', { deterministic: true }, (text: any, format: any) => strToDate(text, format));
+        this.db.function('DATEDIFF', { deterministic: true }, (a: any, b: any) => (a === null || b === null) ? null : Math.round((Date.parse(dateOnly(a)!) - Date.parse(dateOnly(b)!)) / 86400000));
+
+        this.db.function('ID_TO_BIN', { deterministic: true }, (id: any) => {
+            if(id === null) return null;
+            const hex = String(id).replace(/-/g, '');
+            if(!/^([0-9a-fA-F]{2})*$/.test(hex)) return null;
+            return new Uint8Array(hex.match(/../g)?.map(x => parseInt(x, 16)) ?? []);
+        });
+        this.db.function('BIN_TO_ID', { deterministic: true }, (b: any) => {
+            if(b === null) return null;
+            const bytes = new Uint8Array(16);
+            bytes.set((b instanceof Uint8Array) ? b.subarray(0, 16) : new TextEncoder().encode(String(b)).subarray(0, 16));
+            const hex = Array.from(bytes).map(x => x.toString(16).padStart(2, '0')).join('');
+            return `${ hex.substring(0, 8) }-${ hex.substring(8, 12) }-${ hex.substring(12, 16) }-${ hex.substring(16, 20) }-${ hex.substring(20) }`;
+        });
+
+        // amounts and rates are multiplied as whole numbers so the result is rounded like MariaDB's DECIMAL arithmetic
+        const convertAmount = (groupID: any, amount: any, currency: any, onDate: any) => {
+            if(amount === null) return null;
+            const groupCurrency = value('SELECT Currency FROM Groups WHERE GID = ?;', [groupID]);
+            if(currency === null || currency == groupCurrency) return Number(amount);
+            const rate = value('SELECT Rate FROM ExchangeRates WHERE GID = ? AND FromCurrency = ? AND ToCurrency = ? AND EffectiveDate <= ? ORDER BY EffectiveDate DESC LIMIT 1;', [groupID, currency, groupCurrency, onDate]);
+            if(rate === null) return null;
+            const product = BigInt(Math.round(Number(amount) * 100)) * BigInt(Math.round(Number(rate) * 100000000));
+            const sign = (product < 0n) ? -1n : 1n;
+            return Number(sign * ((sign * product + 50000000n) / 100000000n)) / 100;
+        }
+        const countMembers = (groupID: any, fromDate: any, toDate: any) => Number(value('SELECT COUNT(DISTINCT UID) FROM Memberships WHERE GID = ? AND (LeftGroup IS NULL OR LeftGroup >= ?) AND JoinedGroup <= ?;', [groupID, fromDate, toDate]));
+        const sumExpenses = (groupID: any, fromDate: any, toDate: any) => Math.round(Number(value(`SELECT (
+            SELECT IFNULL(SUM(CONVERT_AMOUNT(GID, Amount, Currency, Date)), 0) FROM Purchases WHERE GID = ? AND Voided = 0 AND Date BETWEEN ? AND ?
+        ) + (
+            SELECT IFNULL(SUM(IncentivesAvailable.Amount), 0) FROM Incentives RIGHT JOIN IncentivesAvailable ON Incentives.IID = IncentivesAvailable.IID WHERE IncentivesAvailable.GID = ? AND Incentives.Voided = 0 AND Incentives.Date BETWEEN ? AND ?
+        );`, [groupID, fromDate, toDate, groupID, fromDate, toDate])) * 100) / 100;
+
+        this.db.function('CONVERT_AMOUNT', (groupID: any, amount: any, currency: any, onDate: any) => convertAmount(groupID, amount, currency, dateOnly(onDate)));
+        this.db.function('COUNT_MEMBERS', (groupID: any, fromDate: any, toDate: any) => countMembers(groupID, dateOnly(fromDate), dateOnly(toDate)));
+        this.db.function('SUM_EXPENSES', (groupID: any, fromDate: any, toDate: any) => sumExpenses(groupID, dateOnly(fromDate), dateOnly(toDate)));
+        this.db.function('CALC_SHARE', (groupID: any, fromDate: any, toDate: any) => {
+            const members = countMembers(groupID, dateOnly(fromDate), dateOnly(toDate));
+            // DIV is integer division and a division by zero is NULL in MariaDB
+            return (members == 0) ? null : Math.trunc(sumExpenses(groupID, dateOnly(fromDate), dateOnly(toDate)) / members);
+        });
+    }
+}
+
+/**
+ * Opens the storage backend selected in preferences.json
+ * @param settings Database settings (backend: mariadb | sqlite)
+ * @returns The opened storage, MariaDB if no backend is set
+ */
+export async function openStorage(settings: StorageSettings): Promise<Storage> {
+    switch(settings.backend ?? 'mariadb') {
+        case 'mariadb':
+            return await MariaDBStorage.connect(settings as { hostname: string, db: string, username: string, password: string });
+        case 'sqlite':
+            return await SQLiteStorage.open(settings.path ?? './data/roomates.sqlite');
+        default:
+            throw new Error(`Unknown database backend '${ settings.backend }', must be mariadb or sqlite.`);
+    }
+}
\ No newline at end of file
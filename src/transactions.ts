@@ -0,0 +1,47 @@
+import { InputError } from "./security.ts";
+
+/** Kinds of records listed as transactions */
+export const TransactionTypes = ['purchase', 'incentive'];
+
+/** Fields transactions can be sorted by, ties are broken by record ID so every record has a fixed place in the order */
+export const TransactionSorts = ['date', 'amount', 'store', 'member'];
+
+/** Most transactions returned in one page */
+export const MaxPageSize = 200;
+
+export interface TransactionCursor {
+    sort: string,
+    order: string,
+    /** Sort value of the last record of the previous page */
+    value: string | number,
+    /** ID of the last record of the previous page */
+    id: string
+}
+
+/**
+ * Encodes the position after the last record of a page so the next page can continue from it
+ * @param cursor Sort and last record of the page
+ * @returns Opaque URL-safe cursor
+ */
+export function encodeCursor(cursor: TransactionCursor): string {
+    return btoa(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Reads a cursor made by encodeCursor, it must have been made for the same sort
+ * @param text Cursor sent by the client
+ * @param sort Sort of the requested page
+ * @param order Order of the requested page
+ * @returns The decoded cursor
+ */
+export function decodeCursor(text: string, sort: string, order: string): TransactionCursor {
+    let fields: unknown;
+    try {
+        fields = JSON.parse(atob(text.replace(/-/g, '+').replace(/_/g, '/')));
+    } catch {
+        throw new InputError('Invalid Cursor', 'The cursor provided is not a cursor returned by this listing.', text);
+    }
+    if(!Array.isArray(fields) || fields.length != 4 || !['string', 'number'].includes(typeof fields[2]) || typeof fields[3] !== 'string') throw new InputError('Invalid Cursor', 'The cursor provided is not a cursor returned by this listing.', text);
+    if(fields[0] !== sort || fields[1] !== order) throw new InputError('Invalid Cursor', 'A cursor can only be used with the sort and order of the page it came from.', text);
+    return { sort: sort, order: order, value: fields[2], id: fields[3] };
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { InputError } from "./security.ts";
+
+/** Group events that webhooks can subscribe to */
+export const WebhookEvents = ['purchase.added', 'purchase.edited', 'incentive.claimed', 'member.joined', 'member.left', 'group.locked', 'period.closed'];
+
+/** Deliveries that still fail after this many attempts are given up on */
+export const MaxDeliveryAttempts = 8;
+
+/** Milliseconds to wait for a webhook endpoint to respond */
+export const DeliveryTimeout = 10000;
+
+export interface WebhookSettings {
+    /** Allow webhooks to loopback, private and link-local addresses, only for testing against a local endpoint */
+    allowPrivateHosts?: boolean | null
+}
+
+/**
+ * Reads an IPv4 address as 4 numbers
+ */
+function parseIPv4(address: string): Array<number> | undefined {
+    const parts = address.split('.');
+    if(parts.length != 4 || !parts.every(x => /^\d{1,3}$/.test(x) && Number(x) <= 255)) return;
+    return parts.map(Number);
+}
+
+/**
+ * Determines whether an IP address is not reachable on the public internet (loopback, private, link-local, shared, multicast or reserved)
+ * @param address IPv4 or IPv6 address, IPv6 addresses may be wrapped in brackets as in URLs
+ * @returns true/false if the address is not public
+ */
+export function isPrivateAddress(address: string): boolean {
+    address = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+    const v4 = parseIPv4(address);
+    if(typeof v4 !== 'undefined') {
+        const [a, b] = v4;
+        return a == 0 || a == 10 || a == 127 || a >= 224 || (a == 100 && b >= 64 && b <= 127) || (a == 169 && b == 254) || (a == 172 && b >= 16 && b <= 31) || (a == 192 && b == 168) || (a == 198 && (b == 18 || b == 19));
+    }
+
+    // IPv4 addresses mapped into IPv6 are checked as IPv4
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+    if(mapped !== null) return isPrivateAddress(mapped[1]);
+    const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address);
+    if(hex !== null) return isPrivateAddress([parseInt(hex[1], 16) >> 8, parseInt(hex[1], 16) & 255, parseInt(hex[2], 16) >> 8, parseInt(hex[2], 16) & 255].join('.'));
+
+    if(!address.includes(':')) return false;
+    return address == '::' || address == '::1' || /^f[cd]/.test(address) || /^fe[89ab]/.test(address) || address.startsWith('ff');
+}
+
+/**
+ * Determines whether a URL host names the machine itself or is an IP address that is not public
+ * @param hostname Host of the URL
+ * @returns true/false if deliveries to the host are refused
+ */
+function isPrivateHost(hostname: string): boolean {
+    hostname = hostname.toLowerCase().replace(/\.$/, '');
+    return hostname == 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname);
+}
+
+/**
+ * Checks that a webhook URL can be delivered to, URLs of the server's own network are refused unless allowed in the settings
+ * @param url URL to check
+ * @param allowPrivateHosts Whether loopback, private and link-local hosts are allowed
+ * @returns The URL as given
+ */
+export function validateWebhookURL(url: string, allowPrivateHosts = false): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new InputError('Invalid Webhook URL', `'${ url }' is not a valid URL.`, url);
+    }
+    if(parsed.protocol != 'http:' && parsed.protocol != 'https:') throw new InputError('Invalid Webhook URL', 'Webhook URLs must use http or https.', url);
+    if(url.length > 2048) throw new InputError('Invalid Webhook URL', 'Webhook URLs cannot be longer than 2048 characters.', url);
+    if(!allowPrivateHosts && isPrivateHost(parsed.hostname)) throw new InputError('Invalid Webhook URL', 'Webhooks cannot be sent to local or private network addresses.', url);
+    return url;
+}
+
+/**
+ * Checks that every event in a webhook's filter exists
+ * @param events Events to check
+ * @returns The events without duplicates
+ */
+export function validateWebhookEvents(events: Array<string>): Array<string> {
+    if(events.length == 0) throw new InputError('No Events Selected', 'A webhook must subscribe to at least one event.', '');
+    for(const event of events) {
+        if(!WebhookEvents.includes(event)) throw new InputError('Invalid Webhook Event', `"${ event }" is not a webhook event, must be one of ${ WebhookEvents.join(', ') }.`, event);
+    }
+    return [...new Set(events)];
+}
+
+/**
+ * Works out how long to wait before retrying a failed delivery, doubling with every attempt
+ * @param attempts Number of attempts made so far
+ * @returns Wait in milliseconds (1 minute after the first attempt, at most 1 day)
+ */
+export function retryDelay(attempts: number): number {
+    return Math.min(60000 * 2 ** Math.max(attempts - 1, 0), 86400000);
+}
+
+/**
+ * Signs a delivery body so the receiver can check it came from the portal
+ * @param secret Secret shared with the receiver
+ * @param body Body of the delivery
+ * @returns HMAC-SHA256 of the body as 64 hexadecimal characters
+ */
+export async function signPayload(secret: string, body: string): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+    return Array.from(new Uint8Array(signature), x => x.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Throws if a webhook host is, or has a DNS record pointing to, a local or private network address
+ * A URL that passed validateWebhookURL can still point there later, so this is checked before every delivery
+ * @param hostname Host of the webhook URL
+ */
+async function assertPublicHost(hostname: string): Promise<void> {
+    if(isPrivateHost(hostname)) throw new Error(`${ hostname } is a local or private network address`);
+    if(typeof parseIPv4(hostname) !== 'undefined' || hostname.startsWith('[')) return;
+
+    const addresses = (await Promise.all([
+        Deno.resolveDns(hostname, 'A').catch(() => []),
+        Deno.resolveDns(hostname, 'AAAA').catch(() => [])
+    ])).flat();
+    if(addresses.some(x => isPrivateAddress(x))) throw new Error(`${ hostname } resolves to a local or private network address`);
+}
+
+/**
+ * Posts a delivery to a webhook endpoint, redirects are not followed
+ * The body is signed in the X-Roommate-Signature header as sha256=<hex HMAC of the body>
+ * @param url Endpoint of the webhook
+ * @param secret Secret shared with the endpoint
+ * @param delivery ID, event and JSON body of the delivery
+ * @param allowPrivateHosts Whether loopback, private and link-local hosts are allowed
+ * @returns HTTP status the endpoint responded with
+ */
+export async function sendWebhook(url: string, secret: string, delivery: { deliveryID: string, event: string, payload: string }, allowPrivateHosts = false): Promise<number> {
+    if(!allowPrivateHosts) await assertPublicHost(new URL(url).hostname);
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Roommate-Portal-Webhooks',
+            'X-Roommate-Event': delivery.event,
+            'X-Roommate-Delivery': delivery.deliveryID,
+            'X-Roommate-Signature': `sha256=${ await signPayload(secret, delivery.payload) }`
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DeliveryTimeout)
+    });
+    await response.body?.cancel();
+    return response.status;
+}
\ No newline at end of file
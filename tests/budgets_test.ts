@@ -0,0 +1,101 @@
+import { assertEquals } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('categories and budgets', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const group = await server.createGroup(alice, 'Budget Test', ['bob.test']);
+        await server.acceptInvitations(bob);
+        const now = new Date();
+        const today = `${ now.getFullYear() }-${ String(now.getMonth() + 1).padStart(2, '0') }-${ String(now.getDate()).padStart(2, '0') }`;
+        let groceries = '';
+        let cleaning = '';
+
+        await t.step('POST /group/:id/categories adds categories that only admins can manage', async () => {
+            await server.ok('POST', `/group/${ group }/categories`, { form: { name: 'Groceries', budget: '100' }, session: alice });
+            const categories = await server.ok('POST', `/group/${ group }/categories`, { form: { name: 'Cleaning' }, session: alice });
+            assertEquals(categories.map((x: { name: string, budget: number | null }) => [x.name, x.budget]), [['Cleaning', null], ['Groceries', 100]]);
+            cleaning = categories[0].categoryID;
+            groceries = categories[1].categoryID;
+
+            assertEquals((await server.request('POST', `/group/${ group }/categories`, { form: { name: 'Snacks' }, session: bob })).status, 403);
+            assertEquals((await server.request('POST', `/group/${ group }/categories`, { form: { name: 'groceries' }, session: alice })).json.body.title, 'Category Exists');
+        });
+
+        await t.step('POST /group/:id/categories/:category/rules categorizes purchases by store', async () => {
+            const categories = await server.ok('POST', `/group/${ group }/categories/${ groceries }/rules`, { form: { pattern: 'Market' }, session: alice });
+            assertEquals(categories.find((x: { categoryID: string }) => x.categoryID === groceries).rules.map((x: { pattern: string }) => x.pattern), ['Market']);
+            await server.ok('POST', `/group/${ group }/categories/${ cleaning }/rules`, { form: { pattern: 'Hardware' }, session: alice });
+
+            const added = await server.ok('POST', '/purchase', { form: { group: group, amount: '50', store: 'Corner Market', date: today }, session: bob });
+            assertEquals(added.budgetWarnings, []);
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '12', store: 'Pharmacy', date: today }, session: bob });
+
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: today, to: today }, session: alice });
+            assertEquals(ledger.records.map((x: { store: string, category: string | null }) => [x.store, x.category]), [['Corner Market', 'Groceries'], ['Pharmacy', null]]);
+        });
+
+        await t.step('GET /group/:id/categories lists budgets and store rules to every member', async () => {
+            const categories = await server.ok('GET', `/group/${ group }/categories`, { session: bob });
+            assertEquals(categories.map((x: { name: string, budget: number | null, rules: Array<{ pattern: string }> }) => [x.name, x.budget, x.rules.map(y => y.pattern)]), [['Cleaning', null, ['Hardware']], ['Groceries', 100, ['Market']]]);
+        });
+
+        await t.step('POST /purchase warns when a category reaches 80% and 100% of its budget', async () => {
+            const warned = await server.ok('POST', '/purchase', { form: { group: group, amount: '35', store: 'Bakery', category: groceries, date: today }, session: alice });
+            assertEquals(warned.budgetWarnings.map((x: { name: string, total: number, budget: number, threshold: number }) => [x.name, x.total, x.budget, x.threshold]), [['Groceries', 85, 100, 0.8]]);
+
+            const over = await server.ok('POST', '/purchase', { form: { group: group, amount: '20', store: 'Market', date: today }, session: alice });
+            assertEquals(over.budgetWarnings[0].threshold, 1);
+
+            // purchases can opt out of the store rules
+            assertEquals((await server.ok('POST', '/purchase', { form: { group: group, amount: '5', store: 'Market', category: '', date: today }, session: alice })).budgetWarnings, []);
+        });
+
+        await t.step('POST /dashboard lists the budget warnings of the current month', async () => {
+            const dashboard = await server.ok('POST', '/dashboard', { form: { session: bob } });
+            assertEquals(dashboard.budgetWarnings.length, 1);
+            assertEquals([dashboard.budgetWarnings[0].groupID, dashboard.budgetWarnings[0].categoryID], [group, groceries]);
+            assertEquals(dashboard.groups[0].transactions.categories.find((x: { categoryID: string }) => x.categoryID === groceries).total, 105);
+        });
+
+        await t.step('GroupTransactions totals each category against its budget scaled to the range', async () => {
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: '2024-02-01', to: '2024-03-15' }, session: alice });
+            assertEquals(ledger.categories.map((x: { name: string, budget: number | null }) => [x.name, x.budget]), [['Cleaning', null], ['Groceries', 148.39]]);
+        });
+
+        await t.step('PUT /purchase/:id and PUT /group/:id/categories/:category recategorize and change budgets', async () => {
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: today, to: today }, session: alice });
+            const pharmacy = ledger.records.find((x: { store: string }) => x.store === 'Pharmacy').id;
+            assertEquals((await server.ok('PUT', `/purchase/${ pharmacy }`, { form: { category: cleaning }, session: bob })).categoryID, cleaning);
+
+            await server.ok('PUT', `/group/${ group }/categories/${ groceries }`, { form: { budget: '500' }, session: alice });
+            assertEquals((await server.ok('POST', '/dashboard', { form: { session: bob } })).budgetWarnings, []);
+        });
+
+        await t.step('DELETE /group/:id/categories/:category/rules/:rule stops categorizing purchases from the store', async () => {
+            const rule = (await server.ok('GET', `/group/${ group }/categories`, { session: alice })).find((x: { categoryID: string }) => x.categoryID === cleaning).rules[0].ruleID;
+            assertEquals((await server.request('DELETE', `/group/${ group }/categories/${ cleaning }/rules/${ rule }`, { session: bob })).status, 403);
+
+            const categories = await server.ok('DELETE', `/group/${ group }/categories/${ cleaning }/rules/${ rule }`, { session: alice });
+            assertEquals(categories.find((x: { categoryID: string }) => x.categoryID === cleaning).rules, []);
+            assertEquals((await server.request('DELETE', `/group/${ group }/categories/${ cleaning }/rules/${ rule }`, { session: alice })).json.body.title, 'Rule Not Found');
+
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '9', store: 'Hardware', date: today }, session: bob });
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: today, to: today }, session: alice });
+            assertEquals(ledger.records.find((x: { store: string }) => x.store === 'Hardware').category, null);
+        });
+
+        await t.step('DELETE /group/:id/categories/:category leaves its purchases uncategorized', async () => {
+            const categories = await server.ok('DELETE', `/group/${ group }/categories/${ cleaning }`, { session: alice });
+            assertEquals(categories.length, 1);
+
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: today, to: today }, session: alice });
+            assertEquals(ledger.records.find((x: { store: string }) => x.store === 'Pharmacy').category, null);
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
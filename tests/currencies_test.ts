@@ -0,0 +1,85 @@
+import { assertEquals } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('currencies and exchange rates', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const group = await server.createGroup(alice, 'Currency Test', ['bob.test']);
+        await server.acceptInvitations(bob);
+        await server.setJoinedDate('alice.test', group, '2024-01-01');
+        await server.setJoinedDate('bob.test', group, '2024-01-01');
+        const march = { from: '2024-03-01', to: '2024-03-31' };
+
+        await t.step('PUT /group/:id changes the currency of a group with no records', async () => {
+            await server.ok('PUT', `/group/${ group }`, { form: { currency: 'eur' }, session: alice });
+            const dashboard = await server.ok('POST', '/dashboard', { form: { session: alice } });
+            assertEquals(dashboard.groups[0].currency, 'EUR');
+
+            assertEquals((await server.request('PUT', `/group/${ group }`, { form: { currency: 'EURO' }, session: alice })).json.body.title, 'Invalid Currency');
+        });
+
+        await t.step('POST /purchase refuses a currency without an exchange rate', async () => {
+            const res = await server.request('POST', '/purchase', { form: { group: group, amount: '50', currency: 'USD', date: '2024-03-05' }, session: bob });
+            assertEquals(res.json.body.title, 'No Exchange Rate');
+        });
+
+        await t.step('POST /group/:id/rates sets rates that only admins can change', async () => {
+            const rates = await server.ok('POST', `/group/${ group }/rates`, { form: { currency: 'usd', date: '2024-03-01', rate: '0.9' }, session: alice });
+            assertEquals(rates.length, 1);
+            assertEquals([rates[0].fromCurrency, rates[0].toCurrency, rates[0].rate], ['USD', 'EUR', 0.9]);
+
+            assertEquals((await server.request('POST', `/group/${ group }/rates`, { form: { currency: 'USD', date: '2024-03-01', rate: '1' }, session: bob })).status, 403);
+            assertEquals((await server.request('POST', `/group/${ group }/rates`, { form: { currency: 'USD', date: '2024-03-01', rate: '-1' }, session: alice })).json.body.title, 'Invalid Exchange Rate');
+        });
+
+        await t.step('purchases are converted to the group currency with the rate in effect on their date', async () => {
+            await server.ok('POST', `/group/${ group }/rates`, { form: { currency: 'USD', date: '2024-03-15', rate: '0.8' }, session: alice });
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '50', currency: 'USD', store: 'Early', date: '2024-03-05' }, session: bob });
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '50', currency: 'USD', store: 'Late', date: '2024-03-20' }, session: bob });
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '35', store: 'Local', date: '2024-03-21' }, session: alice });
+
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: march, session: alice });
+            assertEquals(ledger.records.map((x: { store: string, amount: number, originalAmount: number, currency: string }) => [x.store, x.amount, x.originalAmount, x.currency]), [
+                ['Early', 45, 50, 'USD'],
+                ['Late', 40, 50, 'USD'],
+                ['Local', 35, 35, 'EUR']
+            ]);
+            assertEquals(ledger.purchaseTotal, 120);
+
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: march, session: alice });
+            assertEquals(plan.transfers, [{ from: 'alice.test', to: 'bob.test', amount: 25 }]);
+        });
+
+        await t.step('the purchase limit applies to the converted amount', async () => {
+            await server.ok('POST', `/group/${ group }/rates`, { form: { currency: 'JPY', date: '2024-03-01', rate: '0.006' }, session: alice });
+            await server.ok('POST', `/group/${ group }/rates`, { form: { currency: 'KWD', date: '2024-03-01', rate: '3' }, session: alice });
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '5000', currency: 'JPY', store: 'Ramen', date: '2024-03-22' }, session: bob });
+            assertEquals((await server.request('POST', '/purchase', { form: { group: group, amount: '500', currency: 'KWD', date: '2024-03-22' }, session: bob })).json.body.title, 'Amount Too Large');
+        });
+
+        await t.step('PUT /group/:id cannot change the currency once records exist', async () => {
+            assertEquals((await server.request('PUT', `/group/${ group }`, { form: { currency: 'GBP' }, session: alice })).json.body.title, 'Cannot Change Currency');
+        });
+
+        await t.step('POST /group/:id/rates/import sets rates from a CSV file', async () => {
+            const file = 'Date,Currency,Rate\n2024-04-01,USD,0.85\n2024-04-01,GBP,1.15\n';
+            const results = await server.ok('POST', `/group/${ group }/rates/import`, { form: { file: file, dateformat: 'YYYY-MM-DD' }, session: alice });
+            assertEquals(results.map((x: { row: number }) => x.row), [2, 3]);
+        });
+
+        await t.step('DELETE /group/:id/rates/:rate keeps rates that purchases still need', async () => {
+            const rates = await server.ok('GET', `/group/${ group }/rates`, { session: bob });
+            const early = rates.find((x: { fromCurrency: string, rate: number }) => x.fromCurrency === 'USD' && x.rate === 0.9);
+            assertEquals((await server.request('DELETE', `/group/${ group }/rates/${ early.rateID }`, { session: alice })).json.body.title, 'Exchange Rate In Use');
+
+            const april = rates.find((x: { fromCurrency: string, rate: number }) => x.fromCurrency === 'USD' && x.rate === 0.85);
+            const remaining = await server.ok('DELETE', `/group/${ group }/rates/${ april.rateID }`, { session: alice });
+            assertEquals(remaining.length, rates.length - 1);
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
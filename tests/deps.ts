@@ -0,0 +1 @@
+export { assert, assertEquals, assertExists, assertMatch, assertRejects, assertThrows } from "https://deno.land/std/assert/mod.ts";
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { assert, assertEquals } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('groups and memberships', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const owner = await server.signup('owner.test');
+        const invited = await server.signup('invited.test');
+        const requester = await server.signup('requester.test');
+        const outsider = await server.signup('outsider.test');
+        let group = '';
+
+        await t.step('POST /group creates a group owned by its creator and invites its members', async () => {
+            group = await server.createGroup(owner, 'House Test', ['invited.test']);
+            const dashboard = await server.ok('POST', '/dashboard', { form: { session: owner } });
+            assertEquals(dashboard.memberships, 1);
+            assertEquals(dashboard.groups[0].members.map((x: { uname: string, role: string }) => [x.uname, x.role]), [['owner.test', 'owner']]);
+
+            const invitations = (await server.ok('POST', '/dashboard', { form: { session: invited } })).invitations;
+            assertEquals(invitations.length, 1);
+            assertEquals(invitations[0].groupID, group);
+        });
+
+        await t.step('POST /invitation/:id accepts an invitation', async () => {
+            await server.acceptInvitations(invited);
+            const dashboard = await server.ok('POST', '/dashboard', { form: { session: invited } });
+            assertEquals(dashboard.memberships, 1);
+            assertEquals(dashboard.invitations.length, 0);
+        });
+
+        await t.step('group routes are limited to members', async () => {
+            const res = await server.request('GET', `/group/${ group }/invites`, { session: outsider });
+            assertEquals(res.status, 403);
+        });
+
+        await t.step('POST /group/:id/invites creates a code that POST /join/:code joins with', async () => {
+            const invite = await server.ok('POST', `/group/${ group }/invites`, { form: { hours: '1', maxuses: '1' }, session: owner });
+            assertEquals(invite.code.length, 10);
+            assertEquals((await server.ok('GET', `/group/${ group }/invites`, { session: owner })).length, 1);
+
+            const dashboard = await server.ok('POST', `/join/${ invite.code }`, { session: outsider });
+            assert(dashboard.groups.some((x: { groupID: string }) => x.groupID === group));
+
+            // the code was only usable once
+            const reused = await server.request('POST', `/join/${ invite.code }`, { session: requester });
+            assertEquals(reused.json.status, 'Error');
+        });
+
+        await t.step('DELETE /group/:id/invites/:invite revokes a code', async () => {
+            const invite = await server.ok('POST', `/group/${ group }/invites`, { form: { hours: '72' }, session: owner });
+            await server.ok('DELETE', `/group/${ group }/invites/${ invite.inviteID }`, { session: owner });
+            const res = await server.request('POST', `/join/${ invite.code }`, { session: requester });
+            assertEquals(res.json.status, 'Error');
+        });
+
+        await t.step('POST /group/:id requests to join and an admin approves it', async () => {
+            await server.ok('POST', `/group/${ group }`, { form: { message: 'Moving in next week' }, session: requester });
+            const requests = await server.ok('GET', `/group/${ group }/requests`, { session: owner });
+            assertEquals(requests.length, 1);
+            assertEquals(requests[0].uname, 'requester.test');
+
+            // only owners and admins can decide on requests
+            const denied = await server.request('POST', `/group/${ group }/requests/${ requests[0].requestID }`, { form: { approve: 'true' }, session: invited });
+            assertEquals(denied.status, 403);
+
+            assertEquals(await server.ok('POST', `/group/${ group }/requests/${ requests[0].requestID }`, { form: { approve: 'true' }, session: owner }), []);
+            assertEquals((await server.ok('POST', '/dashboard', { form: { session: requester } })).memberships, 1);
+        });
+
+        await t.step('DELETE /request/:id withdraws a request to join', async () => {
+            const other = await server.createGroup(outsider, 'Other Test');
+            const dashboard = await server.ok('POST', `/group/${ other }`, { form: { message: 'Hello' }, session: requester });
+            assertEquals(dashboard.joinRequests.length, 1);
+            assertEquals((await server.ok('DELETE', `/request/${ dashboard.joinRequests[0].requestID }`, { session: requester })).joinRequests.length, 0);
+        });
+
+        await t.step('POST /group/:id/invitations invites a user by username', async () => {
+            const other = await server.createGroup(requester, 'Invite Test');
+            await server.ok('POST', `/group/${ other }/invitations`, { form: { username: 'owner.test' }, session: requester });
+            const invitations = (await server.ok('POST', '/dashboard', { form: { session: owner } })).invitations;
+            assertEquals(invitations.length, 1);
+
+            await server.ok('POST', `/invitation/${ invitations[0].invitationID }`, { form: { accept: 'false' }, session: owner });
+            assertEquals((await server.ok('POST', '/dashboard', { form: { session: owner } })).invitations.length, 0);
+        });
+
+        await t.step('PUT /group/:id/members/:uname changes roles', async () => {
+            const members = await server.ok('PUT', `/group/${ group }/members/invited.test`, { form: { role: 'admin' }, session: owner });
+            assertEquals(members.find((x: { uname: string }) => x.uname === 'invited.test').role, 'admin');
+
+            // admins cannot hand out ownership
+            const res = await server.request('PUT', `/group/${ group }/members/requester.test`, { form: { role: 'owner' }, session: invited });
+            assertEquals(res.status, 403);
+        });
+
+        await t.step('PUT /group/:id edits, locks and unlocks a group', async () => {
+            await server.ok('PUT', `/group/${ group }`, { form: { name: 'House Renamed', maxmembers: '6' }, session: owner });
+            await server.ok('PUT', `/group/${ group }`, { form: { state: 'locked' }, session: owner });
+
+            const dashboard = await server.ok('POST', '/dashboard', { form: { session: owner } });
+            assertEquals(dashboard.groups[0].groupName, 'House Renamed');
+            assertEquals(dashboard.groups[0].maxMembers, 6);
+            assertEquals(dashboard.groups[0].status, 'locked');
+
+            // locked groups cannot be joined
+            const invite = await server.ok('POST', `/group/${ group }/invites`, { form: { hours: '72' }, session: owner });
+            const stranger = await server.signup('stranger.test');
+            assertEquals((await server.request('POST', `/join/${ invite.code }`, { session: stranger })).json.body.title, 'Group Locked');
+
+            await server.ok('PUT', `/group/${ group }`, { form: { state: 'open' }, session: owner });
+            await server.ok('POST', `/join/${ invite.code }`, { session: stranger });
+
+            // invitations to a group created locked could never be accepted, so none are sent
+            const locked = await server.request('POST', '/group', { form: { name: 'Locked House', description: 'Locked test group', status: 'locked', m1: 'stranger.test' }, session: owner });
+            assertEquals(locked.json.body.title, 'Group Locked');
+            assert(!(await server.ok('POST', '/dashboard', { form: { session: owner } })).groups.some((x: { groupName: string }) => x.groupName === 'Locked House'));
+            assertEquals((await server.ok('POST', '/dashboard', { form: { session: stranger } })).invitations.length, 0);
+
+            const created = await server.ok('POST', '/group', { form: { name: 'Locked House', description: 'Locked test group', status: 'locked' }, session: owner });
+            assertEquals(created.groups.find((x: { groupName: string }) => x.groupName === 'Locked House').status, 'locked');
+        });
+
+        await t.step('DELETE /group/:id/members/:uname removes a member', async () => {
+            const members = await server.ok('DELETE', `/group/${ group }/members/stranger.test`, { session: owner });
+            assert(!members.some((x: { uname: string }) => x.uname === 'stranger.test'));
+        });
+
+        await t.step('DELETE /group/:id leaves a group', async () => {
+            await server.ok('DELETE', `/group/${ group }`, { form: { username: 'outsider.test' }, session: outsider });
+            assertEquals((await server.request('GET', `/group/${ group }/invites`, { session: outsider })).status, 403);
+
+            // members can only remove themselves this way
+            const res = await server.request('DELETE', `/group/${ group }`, { form: { username: 'invited.test' }, session: requester });
+            assertEquals(res.status, 403);
+        });
+
+        await t.step('groups created with the same name at the same time are each owned by their creator', async () => {
+            await server.signup('first.test');
+            await server.signup('second.test');
+            const [first, second] = await Promise.all([
+                server.api.createGroup('first.test', 'Same Name', 'Same name test group', 'open', undefined, []),
+                server.api.createGroup('second.test', 'Same Name', 'Same name test group', 'open', undefined, [])
+            ]);
+            assert(first?.groupID !== second?.groupID);
+            assertEquals(first?.members.map(x => [x.uname, x.role]), [['first.test', 'owner']]);
+            assertEquals(second?.members.map(x => [x.uname, x.role]), [['second.test', 'owner']]);
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { Application } from "../deps.ts";
+import { API } from "../src/api.ts";
+import { Storage } from "../src/storage.ts";
+import { createApp } from "../mod.ts";
+
+export interface TestResponse {
+    status: number,
+    headers: Headers,
+    text: string,
+    /** Parsed { status, body } reply of the API, undefined if the response was not JSON */
+    json: any
+}
+
+export interface RequestOptions {
+    /** Form fields sent as application/x-www-form-urlencoded */
+    form?: Record<string, string>,
+    /** Body sent as is, for multipart uploads */
+    body?: FormData,
+    /** Session token sent in the Authorization header */
+    session?: string,
+    query?: Record<string, string>
+}
+
+export interface StreamEvent {
+    id: string | undefined,
+    type: string,
+    data: any
+}
+
+/**
+ * Reads server-sent events from a streaming response
+ */
+export class TestEventStream {
+    public readonly status: number;
+    public readonly headers: Headers;
+    private reader: ReadableStreamDefaultReader<string> | undefined;
+    private buffer = '';
+
+    constructor(response: Response) {
+        this.status = response.status;
+        this.headers = response.headers;
+        this.reader = response.body?.pipeThrough(new TextDecoderStream()).getReader();
+    }
+
+    /**
+     * Waits for the next event, comments and retry hints are skipped
+     * @param timeout Milliseconds to wait before failing
+     * @returns The event, or undefined if the server closed the stream
+     */
+    public async next(timeout = 2000): Promise<StreamEvent | undefined> {
+        while(true) {
+            const end = this.buffer.indexOf('\n\n');
+            if(end >= 0) {
+                const frame = this.buffer.substring(0, end).split('\n');
+                this.buffer = this.buffer.substring(end + 2);
+                const fields = Object.fromEntries(frame.filter(x => !x.startsWith(':')).map(x => [x.substring(0, x.indexOf(':')), x.substring(x.indexOf(':') + 1).trim()]));
+                if(typeof fields.event === 'undefined') continue;
+                return { id: fields.id, type: fields.event, data: JSON.parse(fields.data) };
+            }
+
+            if(typeof this.reader === 'undefined') return;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const chunk = await Promise.race([
+                this.reader.read(),
+                new Promise<never>((_, reject) => timer = setTimeout(() => reject(new Error(`No event received within ${ timeout }ms.`)), timeout))
+            ]).finally(() => clearTimeout(timer));
+            if(chunk.done) return;
+            this.buffer += chunk.value;
+        }
+    }
+
+    /**
+     * Disconnects from the stream
+     */
+    public async close(): Promise<void> {
+        await this.reader?.cancel().catch(() => {});
+    }
+}
+
+/**
+ * Runs the app from mod.ts against a disposable in-memory SQLite database, requests are passed straight to app.handle so no port is bound
+ */
+export class TestServer {
+    public readonly app: Application;
+    public readonly api: API;
+    public readonly storage: Storage;
+    private directory: string;
+
+    private constructor(app: Application, api: API, storage: Storage, directory: string) {
+        this.app = app;
+        this.api = api;
+        this.storage = storage;
+        this.directory = directory;
+    }
+
+    /**
+     * Creates an app with an empty database, attachments and mail are written to a temporary directory
+     * @returns The running test server
+     */
+    public static async start(): Promise<TestServer> {
+        const directory = await Deno.makeTempDir({ prefix: 'roomates-test-' });
+        const created = await createApp({
+            port: 0,
+            db: { backend: 'sqlite', path: ':memory:', migrateOnStart: true },
+            attachments: { directory: `${ directory }/attachments`, maxSize: 1048576 },
+            mail: { transport: 'file', from: 'Roommate Portal <noreply@localhost>', baseURL: 'http://localhost:5000', directory: `${ directory }/mail` },
+            webhooks: { allowPrivateHosts: true }
+        });
+        return new TestServer(created.app, created.api, created.storage, directory);
+    }
+
+    /**
+     * Sends a request to the app
+     * @param method HTTP method
+     * @param path Path below /api
+     * @param options Form fields, body, session token and query parameters of the request
+     * @returns Status, headers and body of the response
+     */
+    public async request(method: string, path: string, options: RequestOptions = {}): Promise<TestResponse> {
+        const url = new URL(`http://localhost/api${ path }`);
+        Object.entries(options.query ?? {}).forEach(([key, value]) => url.searchParams.set(key, value));
+
+        const headers = new Headers({ 'User-Agent': 'roomates-tests' });
+        if(typeof options.session === 'string') headers.set('Authorization', `Bearer ${ options.session }`);
+
+        let body: BodyInit | undefined = options.body;
+        if(typeof options.form !== 'undefined') {
+            headers.set('Content-Type', 'application/x-www-form-urlencoded');
+            body = new URLSearchParams(options.form).toString();
+        }
+
+        const response = await this.app.handle(new Request(url, { method: method, headers: headers, body: body }));
+        if(typeof response === 'undefined') throw new Error(`${ method } ${ path } did not send a response.`);
+
+        const text = await response.text();
+        let json;
+        try {
+            json = JSON.parse(text);
+        } catch {
+            json = undefined;
+        }
+        return { status: response.status, headers: response.headers, text: text, json: json };
+    }
+
+    /**
+     * Opens a streaming route without waiting for the response to end
+     * @param path Path below /api
+     * @param options Session token and query parameters of the request
+     * @param headers Additional request headers
+     * @returns Reader of the events sent by the route
+     */
+    public async stream(path: string, options: RequestOptions = {}, headers: Record<string, string> = {}): Promise<TestEventStream> {
+        const url = new URL(`http://localhost/api${ path }`);
+        Object.entries(options.query ?? {}).forEach(([key, value]) => url.searchParams.set(key, value));
+        const request = new Headers({ 'User-Agent': 'roomates-tests', ...headers });
+        if(typeof options.session === 'string') request.set('Authorization', `Bearer ${ options.session }`);
+
+        const response = await this.app.handle(new Request(url, { headers: request }));
+        if(typeof response === 'undefined') throw new Error(`GET ${ path } did not send a response.`);
+        return new TestEventStream(response);
+    }
+
+    /**
+     * Sends a request and fails unless the API replied OK
+     * @returns Body of the API's reply
+     */
+    public async ok(method: string, path: string, options: RequestOptions = {}): Promise<any> {
+        const res = await this.request(method, path, options);
+        if(res.json?.status !== 'OK') throw new Error(`${ method } ${ path } failed with ${ res.status }: ${ res.text }`);
+        return res.json.body;
+    }
+
+    /**
+     * Creates an account through POST /user
+     * @param uname Username of the new account, the email address is <uname>@example.com
+     * @returns Session token of the new account
+     */
+    public async signup(uname: string, password = 'Password123'): Promise<string> {
+        const dashboard = await this.ok('POST', '/user', { form: { username: uname, password: password, firstname: 'Test', lastname: 'User', email: `${ uname }@example.com` } });
+        return dashboard.user.sessionToken;
+    }
+
+    /**
+     * Creates a group through POST /group
+     * @param session Session token of the owner
+     * @param name Group name
+     * @param members Users to invite to the group
+     * @returns ID of the new group
+     */
+    public async createGroup(session: string, name: string, members: Array<string> = []): Promise<string> {
+        const form: Record<string, string> = { name: name, description: `${ name } test group` };
+        members.forEach((x, i) => form[`m${ i + 1 }`] = x);
+        const dashboard = await this.ok('POST', '/group', { form: form, session: session });
+        return dashboard.groups.find((x: { groupName: string }) => x.groupName === name).groupID;
+    }
+
+    /**
+     * Adds users to a group by accepting the invitations sent when it was created
+     * @param sessions Session tokens of the invited users
+     */
+    public async acceptInvitations(...sessions: Array<string>): Promise<void> {
+        for(const session of sessions) {
+            const dashboard = await this.ok('POST', '/dashboard', { form: { session: session } });
+            for(const invitation of dashboard.invitations) await this.ok('POST', `/invitation/${ invitation.invitationID }`, { form: { accept: 'true' }, session: session });
+        }
+    }
+
+    /**
+     * Reads the most recent email sent to an address
+     * @param to Recipient address
+     * @returns Text of the email or undefined if none was sent
+     */
+    public async lastMail(to: string): Promise<string | undefined> {
+        const mails: Array<{ name: string, text: string }> = [];
+        try {
+            for await (const entry of Deno.readDir(`${ this.directory }/mail`)) mails.push({ name: entry.name, text: await Deno.readTextFile(`${ this.directory }/mail/${ entry.name }`) });
+        } catch {
+            return;
+        }
+        return mails.filter(x => x.text.includes(`\nTo: ${ to }\n`)).sort((a, b) => a.name.localeCompare(b.name)).at(-1)?.text;
+    }
+
+    /**
+     * Moves the date a member joined a group, so settlements can be tested for members that joined part way through a period
+     * @param uname Member to change
+     * @param groupID Group the member joined
+     * @param date Date the member joined
+     */
+    public async setJoinedDate(uname: string, groupID: string, date: string): Promise<void> {
+        await this.storage.execute('UPDATE Memberships SET JoinedGroup = ? WHERE UID = (SELECT UID FROM Users WHERE Uname = ?) AND GID = ID_TO_BIN(?);', [date, uname, groupID]);
+    }
+
+    /**
+     * Marks a member as having left a group on a given date, so settlements can be tested for members that left part way through a period
+     * @param uname Member to change
+     * @param groupID Group the member left
+     * @param date Date the member left
+     */
+    public async setLeftDate(uname: string, groupID: string, date: string): Promise<void> {
+        await this.storage.execute('UPDATE Memberships SET LeftGroup = ? WHERE UID = (SELECT UID FROM Users WHERE Uname = ?) AND GID = ID_TO_BIN(?) AND LeftGroup IS NULL;', [date, uname, groupID]);
+    }
+
+    /**
+     * Closes the database and removes the temporary directory
+     */
+    public async close(): Promise<void> {
+        await this.storage.close();
+        await Deno.remove(this.directory, { recursive: true });
+    }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { assert, assertEquals } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('live group updates', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const carol = await server.signup('carol.test');
+        const outsider = await server.signup('outsider.test');
+        const group = await server.createGroup(alice, 'Live Test', ['bob.test', 'carol.test']);
+        await server.acceptInvitations(bob, carol);
+        let lastEventID = '';
+
+        await t.step('GET /group/:id/events only streams to signed in members', async () => {
+            const anonymous = await server.stream(`/group/${ group }/events`);
+            assertEquals(anonymous.status, 401);
+            await anonymous.close();
+
+            const other = await server.stream(`/group/${ group }/events`, { query: { session: outsider } });
+            assertEquals(other.status, 403);
+            await other.close();
+        });
+
+        await t.step('new purchases are pushed to connected members followed by the updated settlements', async () => {
+            const stream = await server.stream(`/group/${ group }/events`, { query: { session: bob } });
+            try {
+                assertEquals(stream.status, 200);
+                assert(stream.headers.get('Content-Type')?.startsWith('text/event-stream'));
+
+                await server.ok('POST', '/purchase', { form: { group: group, amount: '30', store: 'Grocery' }, session: alice });
+                const purchase = await stream.next();
+                assertEquals([purchase?.type, purchase?.data.store, purchase?.data.uname], ['purchase.added', 'Grocery', 'alice.test']);
+
+                const settlements = await stream.next();
+                assertEquals(settlements?.type, 'settlements.updated');
+                assertEquals(settlements?.data.transfers.reduce((sum: number, x: { amount: number }) => sum + x.amount, 0), 20);
+                lastEventID = settlements?.id ?? '';
+            } finally {
+                await stream.close();
+            }
+        });
+
+        await t.step('reconnecting with Last-Event-ID replays the events that were missed', async () => {
+            const incentives = await server.ok('POST', '/incentive', { form: { group: group, name: 'Took Out Trash', amount: '2' }, session: alice });
+            await server.ok('POST', `/incentive/${ incentives[0].incentiveID }`, { form: { notes: 'Both bins' }, session: carol });
+
+            const stream = await server.stream(`/group/${ group }/events`, { session: bob }, { 'Last-Event-ID': lastEventID });
+            try {
+                const replayed = [await stream.next(), await stream.next(), await stream.next()];
+                assertEquals(replayed.map(x => x?.type), ['incentive.updated', 'incentive.claimed', 'settlements.updated']);
+                assertEquals(replayed[1]?.data.uname, 'carol.test');
+            } finally {
+                await stream.close();
+            }
+
+            const stale = await server.stream(`/group/${ group }/events`, { session: bob }, { 'Last-Event-ID': 'expired-3' });
+            try {
+                assertEquals((await stale.next())?.type, 'reset');
+            } finally {
+                await stale.close();
+            }
+        });
+
+        await t.step('streams of members that leave the group are closed', async () => {
+            const stream = await server.stream(`/group/${ group }/events`, { session: carol });
+            try {
+                await server.ok('DELETE', `/group/${ group }/members/carol.test`, { session: alice });
+                const events = [await stream.next(), await stream.next(), await stream.next()];
+                assertEquals(events.map(x => x?.type), ['member.left', 'settlements.updated', 'closed']);
+                assertEquals(await stream.next(), undefined);
+            } finally {
+                await stream.close();
+            }
+        });
+
+        await t.step('streams of signed out sessions are closed', async () => {
+            const stream = await server.stream(`/group/${ group }/events`, { session: bob });
+            try {
+                await server.ok('POST', '/logout', { form: { session: bob } });
+                const closed = await stream.next();
+                assertEquals(closed?.type, 'closed');
+                assert(closed?.data.reason.includes('session'));
+                assertEquals(await stream.next(), undefined);
+            } finally {
+                await stream.close();
+            }
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { assert, assertEquals } from "./deps.ts";
+import { SQLiteStorage } from "../src/storage.ts";
+import { Migrator, loadMigrations } from "../src/migrations.ts";
+
+Deno.test('schema migrations', async t => {
+    const storage = await SQLiteStorage.open(':memory:');
+
+    try {
+        await t.step('a database made by the original setup script is migrated and its records are given IDs', async () => {
+            // what setup/db-setup.sql created, without a SchemaMigrations table
+            for(const statement of (await loadMigrations('sqlite'))[0].statements) await storage.execute(statement);
+
+            const group = crypto.randomUUID();
+            const alice = crypto.randomUUID();
+            const bob = crypto.randomUUID();
+            const incentive = crypto.randomUUID();
+            for(const [uid, uname] of [[alice, 'alice.test'], [bob, 'bob.test']]) {
+                await storage.execute("INSERT INTO Users (UID, Uname, PwdHash, Fname, Lname, Email) VALUES(ID_TO_BIN(?), ?, 'hash', 'Test', 'User', ?);", [uid, uname, `${ uname }@example.com`]);
+                await storage.execute('INSERT INTO Sessions (Token, UID) VALUES(ID_TO_BIN(?), ID_TO_BIN(?));', [crypto.randomUUID(), uid]);
+            }
+            await storage.execute("INSERT INTO Groups (GID, Name) VALUES(ID_TO_BIN(?), 'Old House');", [group]);
+            await storage.execute("INSERT INTO Memberships (UID, GID, JoinedGroup) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), '2023-01-01');", [alice, group]);
+            await storage.execute("INSERT INTO Memberships (UID, GID, JoinedGroup) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), '2023-02-01');", [bob, group]);
+            await storage.execute("INSERT INTO Purchases (UID, GID, Date, Store, Amount) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), '2023-03-01', 'Grocery', 40);", [alice, group]);
+            await storage.execute("INSERT INTO Purchases (UID, GID, Date, Store, Amount) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), '2023-03-02', 'Hardware', 12.5);", [bob, group]);
+            await storage.execute("INSERT INTO IncentivesAvailable (IID, GID, Name, Amount, Begin) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), 'Dishes', 2.5, '2023-01-01');", [incentive, group]);
+            await storage.execute("INSERT INTO Incentives (UID, IID, Date) VALUES(ID_TO_BIN(?), ID_TO_BIN(?), '2023-03-03');", [bob, incentive]);
+
+            const migrator = await Migrator.open(storage);
+            assertEquals((await migrator.migrate()).length, (await loadMigrations('sqlite')).length);
+            await migrator.assertCurrent();
+
+            assertEquals(await storage.query('SELECT COUNT(DISTINCT PID) AS ids, COUNT(*) AS purchases FROM Purchases WHERE Voided = 0;'), [{ ids: 2, purchases: 2 }]);
+            assertEquals(await storage.query('SELECT COUNT(DISTINCT RID) AS ids FROM Incentives;'), [{ ids: 1 }]);
+            assertEquals(await storage.query('SELECT COUNT(DISTINCT SessionID) AS ids FROM Sessions;'), [{ ids: 2 }]);
+            assertEquals(await storage.query("SELECT SplitMethod AS splitMethod, Currency AS currency FROM Purchases WHERE Store = 'Grocery';"), [{ splitMethod: 'even', currency: 'USD' }]);
+            assertEquals(await storage.query('SELECT Users.Uname AS uname, Memberships.Role AS role FROM Memberships JOIN Users ON Memberships.UID = Users.UID ORDER BY Uname;'), [{ uname: 'alice.test', role: 'owner' }, { uname: 'bob.test', role: 'member' }]);
+            assertEquals(await storage.query("SELECT SUM_EXPENSES(ID_TO_BIN(?), '2023-01-01', '2023-12-31') AS total;", [group]), [{ total: 55 }]);
+        });
+
+        await t.step('MariaDB and SQLite have the same migrations and only MariaDB migrations grant privileges', async () => {
+            const mariadb = await loadMigrations('mariadb');
+            const sqlite = await loadMigrations('sqlite');
+            assertEquals(mariadb.map(x => `${ x.version }_${ x.name }`), sqlite.map(x => `${ x.version }_${ x.name }`));
+
+            assert(mariadb.every(x => x.statements.every(y => !/^GRANT\s/i.test(y))));
+            assert(mariadb.flatMap(x => x.grants).every(x => x.includes('{database}.') && x.endsWith('TO {user}')));
+            assert(mariadb[0].grants.length > 0);
+            assertEquals(sqlite.flatMap(x => x.grants), []);
+        });
+    } finally {
+        await storage.close();
+    }
+});
\ No newline at end of file
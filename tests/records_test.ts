@@ -0,0 +1,239 @@
+import { assert, assertEquals, assertExists, assertRejects } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+const png = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x00, 0x00, 0x0D, 0x49, 0x48, 0x44, 0x52]);
+
+Deno.test('purchases, incentives and other group records', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const outsider = await server.signup('outsider.test');
+        const group = await server.createGroup(alice, 'Records Test', ['bob.test']);
+        await server.acceptInvitations(bob);
+        const march = { from: '2024-03-01', to: '2024-03-31' };
+        let purchase = '';
+        let incentive = '';
+
+        await t.step('POST /purchase adds a purchase for the signed in member', async () => {
+            const added = await server.ok('POST', '/purchase', { form: { group: group, amount: '42.50', store: 'Grocery', date: '2024-03-05', notes: 'Weekly shop' }, session: alice });
+            assertEquals(added.budgetWarnings, []);
+
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: march, session: alice });
+            assertEquals(ledger.records.length, 1);
+            assertEquals(ledger.records[0].uname, 'alice.test');
+            assertEquals(ledger.records[0].amount, 42.5);
+            assertEquals(ledger.records[0].splitMethod, 'even');
+            assertEquals(ledger.records[0].id, added.purchaseID);
+            purchase = ledger.records[0].id;
+        });
+
+        await t.step('POST /purchase rejects outsiders, other users and invalid amounts', async () => {
+            assertEquals((await server.request('POST', '/purchase', { form: { group: group, amount: '10' }, session: outsider })).status, 403);
+            assertEquals((await server.request('POST', '/purchase', { form: { group: group, amount: '10', username: 'bob.test' }, session: alice })).status, 403);
+            assertEquals((await server.request('POST', '/purchase', { form: { group: group, amount: '1000' }, session: alice })).json.body.title, 'Amount Too Large');
+        });
+
+        await t.step('PUT /purchase/:id edits and voids a purchase and GET /group/:id/revisions lists the edits', async () => {
+            const edited = await server.ok('PUT', `/purchase/${ purchase }`, { form: { amount: '40', store: 'Market' }, session: alice });
+            assertEquals(edited.amount, 40);
+            assertEquals(edited.store, 'Market');
+
+            // only the author or a group admin can change a record
+            assertEquals((await server.request('PUT', `/purchase/${ purchase }`, { form: { amount: '1' }, session: bob })).status, 403);
+
+            await server.ok('PUT', `/purchase/${ purchase }`, { form: { voided: 'true' }, session: alice });
+            assertEquals((await server.ok('GET', `/group/${ group }/export`, { query: march, session: alice })).records.length, 0);
+            await server.ok('PUT', `/purchase/${ purchase }`, { form: { voided: 'false' }, session: alice });
+
+            const revisions = await server.ok('GET', `/group/${ group }/revisions`, { session: bob });
+            assertEquals(revisions.length, 3);
+            assert(revisions.every((x: { recordID: string }) => x.recordID === purchase));
+        });
+
+        await t.step('POST /purchase/:id/attachment uploads a receipt that GET /attachment/:id serves', async () => {
+            const form = new FormData();
+            form.append('file', new File([png], 'receipt.png', { type: 'image/png' }));
+            const attachment = await server.ok('POST', `/purchase/${ purchase }/attachment`, { body: form, session: alice });
+            assertEquals(attachment.mimeType, 'image/png');
+            assertEquals((await server.ok('GET', `/purchase/${ purchase }/attachments`, { session: bob })).length, 1);
+
+            const file = await server.request('GET', `/attachment/${ attachment.attachmentID }`, { session: bob });
+            assertEquals(file.status, 200);
+            assertEquals(file.headers.get('Content-Type'), 'image/png');
+            assertEquals((await server.request('GET', `/attachment/${ attachment.attachmentID }`, { session: outsider })).status, 403);
+
+            await server.ok('DELETE', `/attachment/${ attachment.attachmentID }`, { session: alice });
+            assertEquals(await server.ok('GET', `/purchase/${ purchase }/attachments`, { session: alice }), []);
+        });
+
+        await t.step('POST /purchase/:id/attachment rejects files that are not images or PDFs', async () => {
+            const form = new FormData();
+            form.append('file', new File(['#!/bin/sh'], 'receipt.png', { type: 'image/png' }));
+            assertEquals((await server.request('POST', `/purchase/${ purchase }/attachment`, { body: form, session: alice })).json.status, 'Error');
+        });
+
+        await t.step('DELETE /purchase/:id deletes a purchase', async () => {
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '12', store: 'Pharmacy', date: '2024-03-09' }, session: bob });
+            const record = (await server.ok('GET', `/group/${ group }/export`, { query: march, session: bob })).records.find((x: { store: string }) => x.store === 'Pharmacy');
+            await server.ok('DELETE', `/purchase/${ record.id }`, { session: bob });
+            assertEquals((await server.ok('GET', `/group/${ group }/export`, { query: march, session: bob })).countPurchases, 1);
+        });
+
+        await t.step('POST /incentive creates an incentive that POST /incentive/:id claims', async () => {
+            const incentives = await server.ok('POST', '/incentive', { form: { group: group, name: 'Took Out Trash', amount: '2.50', description: 'Bins out on Monday' }, session: alice });
+            assertEquals(incentives.length, 1);
+            assertEquals(incentives[0].amount, 2.5);
+            incentive = incentives[0].incentiveID;
+
+            assertEquals(await server.ok('POST', `/incentive/${ incentive }`, { form: { notes: 'Both bins' }, session: bob }), true);
+            assertEquals((await server.request('POST', `/incentive/${ incentive }`, { form: { notes: '' }, session: outsider })).status, 403);
+
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { session: bob });
+            assertEquals(ledger.countIncentives, 1);
+            assertEquals(ledger.incentiveTotal, 2.5);
+            assertEquals(ledger.settlements.find((x: { uname: string }) => x.uname === 'bob.test').totalIncentives, 2.5);
+        });
+
+        await t.step('PUT /incentive-record/:id voids a claimed incentive and DELETE removes it', async () => {
+            const records = (await server.ok('GET', `/group/${ group }/transactions`, { query: { type: 'incentive' }, session: bob })).records;
+            assertEquals(records.length, 1);
+
+            const record = await server.ok('PUT', `/incentive-record/${ records[0].id }`, { form: { voided: 'true' }, session: bob });
+            assertEquals(record.voided, true);
+            assertEquals((await server.ok('GET', `/group/${ group }/export`, { session: bob })).countIncentives, 0);
+
+            await server.ok('DELETE', `/incentive-record/${ records[0].id }`, { session: bob });
+        });
+
+        await t.step('PUT /incentive/:id edits an incentive and DELETE /incentive/:id ends it', async () => {
+            const incentives = await server.ok('PUT', `/incentive/${ incentive }`, { form: { amount: '3', onpurchase: 'false' }, session: alice });
+            assertEquals(incentives[0].amount, 3);
+
+            assertEquals(await server.ok('DELETE', `/incentive/${ incentive }`, { session: alice }), []);
+        });
+
+        await t.step('POST /group/:id/import previews a statement and /import/confirm adds the selected rows', async () => {
+            const statement = 'Date,Description,Amount\n2024-03-05,Market,40.00\n2024-03-12,Corner Store,15.25\n2024-03-14,Refund,-5.00\n';
+            const candidates = await server.ok('POST', `/group/${ group }/import`, { form: { file: statement, format: 'csv' }, session: alice });
+            assertEquals(candidates.length, 3);
+            assertEquals(candidates.map((x: { duplicate: boolean }) => x.duplicate), [true, false, false]);
+            assertEquals(candidates.map((x: { credit: boolean }) => x.credit), [false, false, true]);
+
+            const results = await server.ok('POST', `/group/${ group }/import/confirm`, { form: { row1: '2', date1: '2024-03-12', amount1: '15.25', store1: 'Corner Store' }, session: alice });
+            assertEquals(results.length, 1);
+            assertEquals(results[0].error, null);
+            assertEquals((await server.ok('GET', `/group/${ group }/export`, { query: march, session: alice })).countPurchases, 2);
+
+            const empty = await server.request('POST', `/group/${ group }/import`, { form: { file: '', format: 'csv' }, session: alice });
+            assertEquals(empty.json.body.title, 'Empty Statement');
+        });
+
+        await t.step('GET /group/:id/export sends csv and html statements', async () => {
+            const csv = await server.request('GET', `/group/${ group }/export`, { query: { ...march, format: 'csv' }, session: alice });
+            assert(csv.headers.get('Content-Type')?.startsWith('text/csv'));
+            assertEquals(csv.headers.get('Content-Disposition'), 'attachment; filename="Records_Test_2024-03-01_2024-03-31.csv"');
+            assert(csv.text.includes('Corner Store'));
+
+            const html = await server.request('GET', `/group/${ group }/export`, { query: { ...march, format: 'html' }, session: alice });
+            assert(html.headers.get('Content-Type')?.startsWith('text/html'));
+            assert(html.text.includes('Records Test'));
+
+            assertEquals((await server.request('GET', `/group/${ group }/export`, { query: { format: 'xls' }, session: alice })).json.body.title, 'Invalid Export Format');
+        });
+
+        await t.step('recurring expense routes create, change and delete a recurring expense', async () => {
+            const recurring = await server.ok('POST', `/group/${ group }/recurring`, { form: { amount: '800', store: 'Rent', schedule: 'monthly', day: '1', start: '2024-01-01' }, session: alice });
+            assertEquals(recurring.cadence, 'monthly');
+            assertEquals((await server.ok('GET', `/group/${ group }/recurring`, { session: bob })).length, 1);
+
+            const changed = await server.ok('PUT', `/group/${ group }/recurring/${ recurring.recurringID }`, { form: { amount: '850' }, session: alice });
+            assertEquals(changed.amount, 850);
+
+            // templates are held to the same limit as the purchases they post
+            assertEquals((await server.request('POST', `/group/${ group }/recurring`, { form: { amount: '1200', store: 'Rent', schedule: 'monthly', start: '2024-01-01' }, session: alice })).json.body.title, 'Amount Too Large');
+            assertEquals((await server.request('PUT', `/group/${ group }/recurring/${ recurring.recurringID }`, { form: { amount: '1000' }, session: alice })).json.body.title, 'Amount Too Large');
+
+            assertEquals(await server.ok('DELETE', `/group/${ group }/recurring/${ recurring.recurringID }`, { session: alice }), []);
+        });
+
+        await t.step('recurring expenses are posted dated on the day they are due', async () => {
+            const recurring = await server.ok('POST', `/group/${ group }/recurring`, { form: { amount: '500', store: 'Rent', schedule: 'monthly', start: '2023-01-01' }, session: alice });
+            await server.ok('PUT', `/group/${ group }/recurring/${ recurring.recurringID }`, { form: { amount: '550' }, session: alice });
+            assertEquals(await server.api.postRecurringExpenses(new Date(2023, 1, 15)), 2);
+            assertEquals(await server.api.postRecurringExpenses(new Date(2023, 2, 15)), 1);
+
+            const records = (await server.ok('GET', `/group/${ group }/transactions`, { query: { from: '2023-01-01', to: '2023-12-31' }, session: bob })).records;
+            assertEquals(records.map((x: { date: string }) => x.date.substring(0, 10)), ['2023-03-01', '2023-02-01', '2023-01-01']);
+            await server.ok('DELETE', `/group/${ group }/recurring/${ recurring.recurringID }`, { session: alice });
+        });
+
+        await t.step('occurrences that fail to post because of a database error are posted on the next run', async () => {
+            const recurring = await server.ok('POST', `/group/${ group }/recurring`, { form: { amount: '40', store: 'Internet', schedule: 'monthly', start: '2022-01-01' }, session: alice });
+
+            await server.storage.execute("CREATE TRIGGER FailPurchases BEFORE INSERT ON Purchases BEGIN SELECT RAISE(ABORT, 'database is locked'); END;");
+            try {
+                assertEquals(await server.api.postRecurringExpenses(new Date(2022, 0, 15)), 0);
+            } finally {
+                await server.storage.execute('DROP TRIGGER FailPurchases;');
+            }
+
+            assertEquals(await server.api.postRecurringExpenses(new Date(2022, 0, 15)), 1);
+            const records = (await server.ok('GET', `/group/${ group }/transactions`, { query: { from: '2022-01-01', to: '2022-12-31' }, session: bob })).records;
+            assertEquals(records.map((x: { store: string }) => x.store), ['Internet']);
+            await server.ok('DELETE', `/group/${ group }/recurring/${ recurring.recurringID }`, { session: alice });
+        });
+
+        await t.step('a purchase whose split cannot be saved is not saved either', async () => {
+            await server.storage.execute("CREATE TRIGGER FailSplits BEFORE UPDATE OF SplitMethod ON Purchases BEGIN SELECT RAISE(ABORT, 'database is locked'); END;");
+            try {
+                await assertRejects(() => server.api.addPurchase('alice.test', group, 25, 'Half Saved', new Date(2022, 2, 1)));
+            } finally {
+                await server.storage.execute('DROP TRIGGER FailSplits;');
+            }
+
+            const records = (await server.ok('GET', `/group/${ group }/transactions`, { query: { from: '2022-03-01', to: '2022-03-31' }, session: bob })).records;
+            assertEquals(records, []);
+        });
+
+        await t.step('chore routes rotate an incentive through the group and complete assignments', async () => {
+            const incentives = await server.ok('POST', '/incentive', { form: { group: group, name: 'Cleaned Kitchen', amount: '5' }, session: alice });
+            const kitchen = incentives.find((x: { incentiveName: string }) => x.incentiveName === 'Cleaned Kitchen').incentiveID;
+
+            const chore = await server.ok('POST', `/group/${ group }/chores`, { form: { incentive: kitchen, schedule: 'weekly', penalty: '2' }, session: alice });
+            assertEquals((await server.ok('GET', `/group/${ group }/chores`, { session: bob })).length, 1);
+
+            const assignments = await server.ok('GET', `/group/${ group }/assignments`, { session: bob });
+            assertEquals(assignments.length, 1);
+            const assignment = assignments[0];
+            const assignee = (assignment.uname === 'alice.test') ? alice : bob;
+            assertEquals(await server.ok('POST', `/group/${ group }/assignments/${ assignment.assignmentID }`, { form: { notes: 'Done' }, session: assignee }), true);
+
+            const completed = (await server.ok('GET', `/group/${ group }/assignments`, { session: bob }))[0];
+            assertExists(completed.completed);
+            assertExists(completed.recordID);
+
+            const chores = await server.ok('DELETE', `/group/${ group }/chores/${ chore.choreID }`, { session: alice });
+            assertEquals(chores[0].active, false);
+        });
+
+        await t.step('adding a chore only rotates the chores of its own group', async () => {
+            const other = await server.createGroup(bob, 'Other Chores');
+            const mopping = (await server.ok('POST', '/incentive', { form: { group: other, name: 'Mopped Floor', amount: '3' }, session: bob }))[0].incentiveID;
+            await server.ok('POST', `/group/${ other }/chores`, { form: { incentive: mopping, schedule: 'weekly', penalty: '1' }, session: bob });
+            await server.storage.execute("UPDATE ChoreAssignments SET DueDate = '2024-01-07' WHERE ChoreID IN (SELECT ChoreID FROM Chores WHERE GID = ID_TO_BIN(?));", [other]);
+
+            const incentives = await server.ok('POST', '/incentive', { form: { group: group, name: 'Vacuumed', amount: '4' }, session: alice });
+            const vacuuming = incentives.find((x: { incentiveName: string }) => x.incentiveName === 'Vacuumed').incentiveID;
+            await server.ok('POST', `/group/${ group }/chores`, { form: { incentive: vacuuming, schedule: 'weekly', penalty: '2' }, session: alice });
+
+            const range = { from: '2024-01-01', to: '2099-12-31' };
+            assertEquals((await server.ok('GET', `/group/${ other }/assignments`, { query: range, session: bob }))[0].missed, false);
+            await server.api.rotateChores();
+            assertEquals((await server.ok('GET', `/group/${ other }/assignments`, { query: range, session: bob }))[0].missed, true);
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
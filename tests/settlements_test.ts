@@ -0,0 +1,177 @@
+import { assertEquals, assertRejects } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+/**
+ * Reduces settlements to what each member owes and their share, keyed by username
+ */
+function balances(settlements: Array<{ uname: string, share: number, owes: number }>): Record<string, { share: number, owes: number }> {
+    return Object.fromEntries(settlements.map(x => [x.uname, { share: x.share, owes: x.owes }]));
+}
+
+Deno.test('settlement math', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const carol = await server.signup('carol.test');
+        const group = await server.createGroup(alice, 'Settle Test', ['bob.test', 'carol.test']);
+        await server.acceptInvitations(bob, carol);
+
+        // alice and bob were members all along, carol moved in half way through March
+        await server.setJoinedDate('alice.test', group, '2024-01-01');
+        await server.setJoinedDate('bob.test', group, '2024-01-01');
+        await server.setJoinedDate('carol.test', group, '2024-03-16');
+
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '90', store: 'Grocery', date: '2024-03-05' }, session: alice });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '30', store: 'Hardware', date: '2024-03-20' }, session: bob });
+
+        await t.step('purchases are shared evenly by everyone that was a member during the range', async () => {
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-03-01', to: '2024-03-31' }, session: alice });
+            assertEquals(balances(plan.settlements), {
+                'alice.test': { share: 40, owes: -50 },
+                'bob.test': { share: 40, owes: 10 },
+                'carol.test': { share: 40, owes: 40 }
+            });
+            assertEquals(plan.transfers, [{ from: 'carol.test', to: 'alice.test', amount: 40 }, { from: 'bob.test', to: 'alice.test', amount: 10 }]);
+        });
+
+        await t.step('members that joined after the range are not charged for it', async () => {
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-03-01', to: '2024-03-15' }, session: alice });
+            assertEquals(balances(plan.settlements), {
+                'alice.test': { share: 45, owes: -45 },
+                'bob.test': { share: 45, owes: 45 }
+            });
+            assertEquals(plan.transfers, [{ from: 'bob.test', to: 'alice.test', amount: 45 }]);
+        });
+
+        await t.step('prorated groups share expenses by the days each member was active', async () => {
+            await server.ok('PUT', `/group/${ group }`, { form: { sharemethod: 'prorated' }, session: alice });
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-03-01', to: '2024-03-31' }, session: alice });
+            assertEquals(plan.settlements.map((x: { uname: string, daysActive: number }) => [x.uname, x.daysActive]), [['alice.test', 31], ['bob.test', 31], ['carol.test', 16]]);
+            assertEquals(balances(plan.settlements), {
+                'alice.test': { share: 47.69, owes: -42.31 },
+                'bob.test': { share: 47.69, owes: 17.69 },
+                'carol.test': { share: 24.62, owes: 24.62 }
+            });
+
+            assertEquals((await server.request('PUT', `/group/${ group }`, { form: { sharemethod: 'weekly' }, session: alice })).json.body.title, 'Invalid Share Method');
+            await server.ok('PUT', `/group/${ group }`, { form: { sharemethod: 'even' }, session: alice });
+        });
+
+        await t.step('members that left part way through a prorated period are settled for the days they were active', async () => {
+            const other = await server.createGroup(alice, 'Prorate Test', ['bob.test', 'carol.test']);
+            await server.acceptInvitations(bob, carol);
+            await server.setJoinedDate('alice.test', other, '2024-01-01');
+            await server.setJoinedDate('bob.test', other, '2024-01-01');
+            await server.setJoinedDate('carol.test', other, '2024-01-01');
+            await server.setLeftDate('carol.test', other, '2024-04-10');
+            await server.ok('PUT', `/group/${ other }`, { form: { sharemethod: 'prorated' }, session: alice });
+            await server.ok('POST', '/purchase', { form: { group: other, amount: '140', store: 'Utilities', date: '2024-04-05' }, session: alice });
+
+            const plan = await server.ok('GET', `/group/${ other }/settle`, { query: { from: '2024-04-01', to: '2024-04-30' }, session: alice });
+            assertEquals(balances(plan.settlements), {
+                'alice.test': { share: 60, owes: -80 },
+                'bob.test': { share: 60, owes: 60 },
+                'carol.test': { share: 20, owes: 20 }
+            });
+        });
+
+        await t.step('getGroupTransactions totals the range in the exported ledger', async () => {
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: '2024-03-01', to: '2024-03-31', format: 'json' }, session: carol });
+            assertEquals(ledger.countPurchases, 2);
+            assertEquals(ledger.purchaseTotal, 120);
+            assertEquals(ledger.total, 120);
+            assertEquals(ledger.records.map((x: { store: string }) => x.store), ['Grocery', 'Hardware']);
+            assertEquals(balances(ledger.settlements)['carol.test'].owes, 40);
+        });
+
+        await t.step('split purchases are charged to the members they were allocated to', async () => {
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '60', store: 'Furniture', date: '2024-04-10', split: 'exact', split1: 'bob.test', share1: '20', split2: 'carol.test', share2: '40' }, session: alice });
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '30', store: 'Grocery', date: '2024-04-12' }, session: carol });
+
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-04-01', to: '2024-04-30' }, session: alice });
+            assertEquals(balances(plan.settlements), {
+                'alice.test': { share: 10, owes: -50 },
+                'bob.test': { share: 30, owes: 30 },
+                'carol.test': { share: 50, owes: 20 }
+            });
+        });
+
+        await t.step('uneven amounts are rounded to cents and the transfers still balance', async () => {
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '100', store: 'Utilities', date: '2024-05-02' }, session: alice });
+
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-05-01', to: '2024-05-31' }, session: bob });
+            assertEquals(balances(plan.settlements), {
+                'alice.test': { share: 33.33, owes: -66.67 },
+                'bob.test': { share: 33.33, owes: 33.33 },
+                'carol.test': { share: 33.33, owes: 33.33 }
+            });
+            assertEquals(plan.transfers, [{ from: 'bob.test', to: 'alice.test', amount: 33.33 }, { from: 'carol.test', to: 'alice.test', amount: 33.33 }]);
+        });
+
+        await t.step('POST /group/:id/payment records a payment that settles part of a balance', async () => {
+            await server.ok('POST', `/group/${ group }/payment`, { form: { to: 'alice.test', amount: '10', date: '2024-03-25' }, session: bob });
+            assertEquals((await server.ok('GET', `/group/${ group }/payments`, { query: { from: '2024-03-01', to: '2024-03-31' }, session: alice })).length, 1);
+
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-03-01', to: '2024-03-31' }, session: alice });
+            assertEquals(balances(plan.settlements)['alice.test'].owes, -40);
+            assertEquals(balances(plan.settlements)['bob.test'].owes, 0);
+            assertEquals(plan.transfers, [{ from: 'carol.test', to: 'alice.test', amount: 40 }]);
+        });
+
+        await t.step('POST /group/:id/period closes a period and carries its balances forward', async () => {
+            const period = await server.ok('POST', `/group/${ group }/period`, { form: { from: '2024-03-01', to: '2024-03-31' }, session: alice });
+            assertEquals((await server.ok('GET', `/group/${ group }/periods`, { session: alice })).length, 1);
+
+            // records cannot be added to a closed period
+            const late = await server.request('POST', '/purchase', { form: { group: group, amount: '5', date: '2024-03-30' }, session: bob });
+            assertEquals(late.json.status, 'Error');
+
+            const plan = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-04-01', to: '2024-04-30' }, session: alice });
+            assertEquals(plan.settlements.map((x: { uname: string, carriedForward: number }) => [x.uname, x.carriedForward]), [['alice.test', -40], ['bob.test', 0], ['carol.test', 40]]);
+            assertEquals(balances(plan.settlements)['carol.test'].owes, 60);
+
+            await server.ok('DELETE', `/group/${ group }/period/${ period.periodID }`, { session: alice });
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '5', date: '2024-03-30' }, session: bob });
+        });
+
+        await t.step('records, payments and rates are frozen up to the last day of a closed period and not after it', async () => {
+            const period = await server.ok('POST', `/group/${ group }/period`, { form: { from: '2023-12-01', to: '2023-12-31' }, session: alice });
+            const title = async (path: string, form: Record<string, string>) => (await server.request('POST', path, { form: form, session: bob })).json.body.title;
+
+            assertEquals(await title('/purchase', { group: group, amount: '5', date: '2023-12-31' }), 'Period Closed');
+            assertEquals(await title(`/group/${ group }/payment`, { to: 'alice.test', amount: '5', date: '2023-12-31' }), 'Period Closed');
+            assertEquals((await server.request('POST', `/group/${ group }/rates`, { form: { currency: 'EUR', date: '2023-12-31', rate: '1.1' }, session: alice })).json.body.title, 'Period Closed');
+
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '5', store: 'New Year', date: '2024-01-01' }, session: bob });
+            await server.ok('POST', `/group/${ group }/payment`, { form: { to: 'alice.test', amount: '5', date: '2024-01-01' }, session: bob });
+            await server.ok('POST', `/group/${ group }/rates`, { form: { currency: 'EUR', date: '2024-01-01', rate: '1.1' }, session: alice });
+
+            const payments = await server.ok('GET', `/group/${ group }/payments`, { query: { from: '2024-01-01', to: '2024-01-01' }, session: alice });
+            assertEquals(payments.map((x: { date: string }) => x.date.substring(0, 10)), ['2024-01-01']);
+            await server.ok('DELETE', `/group/${ group }/period/${ period.periodID }`, { session: alice });
+        });
+
+        await t.step('any member can close a period but only admins can reopen it', async () => {
+            const period = await server.ok('POST', `/group/${ group }/period`, { form: { from: '2023-11-01', to: '2023-11-30' }, session: bob });
+            assertEquals((await server.request('DELETE', `/group/${ group }/period/${ period.periodID }`, { session: bob })).status, 403);
+            await server.ok('DELETE', `/group/${ group }/period/${ period.periodID }`, { session: alice });
+        });
+
+        await t.step('a period whose balances cannot be saved is left open', async () => {
+            await server.storage.execute("CREATE TRIGGER FailBalances BEFORE INSERT ON PeriodBalances BEGIN SELECT RAISE(ABORT, 'database is locked'); END;");
+            try {
+                await assertRejects(() => server.api.closePeriod('bob.test', group, new Date(2024, 2, 1), new Date(2024, 2, 31)));
+            } finally {
+                await server.storage.execute('DROP TRIGGER FailBalances;');
+            }
+
+            const period = await server.ok('POST', `/group/${ group }/period`, { form: { from: '2024-03-01', to: '2024-03-31' }, session: bob });
+            assertEquals(await server.storage.query('SELECT COUNT(*) AS balances FROM PeriodBalances WHERE PeriodID = ID_TO_BIN(?);', [period.periodID]), [{ balances: 3 }]);
+            await server.ok('DELETE', `/group/${ group }/period/${ period.periodID }`, { session: alice });
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
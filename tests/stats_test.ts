@@ -0,0 +1,79 @@
+import { assertEquals } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('group statistics', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const outsider = await server.signup('outsider.test');
+        const group = await server.createGroup(alice, 'Stats Test', ['bob.test']);
+        await server.acceptInvitations(bob);
+        await server.setJoinedDate('alice.test', group, '2024-01-01');
+        await server.setJoinedDate('bob.test', group, '2024-01-01');
+
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '40', store: 'Grocery Mart', date: '2024-01-10' }, session: alice });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '20', store: 'Hardware', date: '2024-01-22' }, session: bob });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '90', store: 'Grocery Mart', date: '2024-02-05' }, session: bob });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '30', store: 'Bakery', date: '2024-04-18' }, session: alice });
+        const first = await server.ok('GET', `/group/${ group }/stats`, { query: { from: '2024-01-01', to: '2024-04-30' }, session: alice });
+
+        await t.step('GET /group/:id/stats totals each month with its change and rolling average', async () => {
+            assertEquals(first.months.map((x: { month: string }) => x.month), ['2024-01', '2024-02', '2024-03', '2024-04']);
+            assertEquals(first.months.map((x: { total: number }) => x.total), [60, 90, 0, 30]);
+            assertEquals(first.months.map((x: { change: number | null }) => x.change), [null, 0.5, -1, null]);
+            assertEquals(first.months.map((x: { rollingAverage: number }) => x.rollingAverage), [60, 75, 50, 40]);
+            assertEquals(first.total, 180);
+
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: '2024-02-01', to: '2024-02-29', format: 'json' }, session: alice });
+            assertEquals(first.months[1].total, ledger.total);
+        });
+
+        await t.step('member contributions match the settlements of each month', async () => {
+            const settle = await server.ok('GET', `/group/${ group }/settle`, { query: { from: '2024-01-01', to: '2024-01-31' }, session: alice });
+            const alicesStats = first.members.find((x: { uname: string }) => x.uname == 'alice.test');
+            const alicesSettlement = settle.settlements.find((x: { uname: string }) => x.uname == 'alice.test');
+
+            assertEquals(first.members.map((x: { uname: string }) => x.uname), ['alice.test', 'bob.test']);
+            assertEquals(alicesStats.history[0].totalContribution, alicesSettlement.totalContribution);
+            assertEquals(alicesStats.history.map((x: { totalPurchases: number }) => x.totalPurchases), [40, 0, 0, 30]);
+            assertEquals(alicesStats.totalContribution, 70);
+        });
+
+        await t.step('stores are ranked by what was spent at them', async () => {
+            assertEquals(first.stores, [
+                { store: 'Grocery Mart', total: 130, countPurchases: 2 },
+                { store: 'Bakery', total: 30, countPurchases: 1 },
+                { store: 'Hardware', total: 20, countPurchases: 1 }
+            ]);
+        });
+
+        await t.step('incentives are counted per member and per incentive', async () => {
+            const incentives = await server.ok('POST', '/incentive', { form: { group: group, name: 'Took Out Trash', amount: '2' }, session: alice });
+            await server.ok('POST', '/incentive', { form: { group: group, name: 'Cleaned Kitchen', amount: '5' }, session: alice });
+            const trash = incentives.find((x: { incentiveName: string }) => x.incentiveName == 'Took Out Trash').incentiveID;
+            await server.ok('POST', `/incentive/${ trash }`, { form: {}, session: bob });
+            await server.ok('POST', `/incentive/${ trash }`, { form: {}, session: bob });
+            await server.ok('POST', `/incentive/${ trash }`, { form: {}, session: alice });
+
+            // incentives are claimed today, so the default range of the last 12 months includes them
+            const stats = await server.ok('GET', `/group/${ group }/stats`, { session: bob });
+            assertEquals(stats.months.length, 12);
+            assertEquals(stats.incentives.map((x: { incentiveName: string, countIncentives: number, total: number }) => [x.incentiveName, x.countIncentives, x.total]), [['Took Out Trash', 3, 6]]);
+            assertEquals(stats.members.map((x: { uname: string, countIncentives: number }) => [x.uname, x.countIncentives]), [['alice.test', 1], ['bob.test', 2]]);
+            assertEquals(stats.months[11].total, 6);
+        });
+
+        await t.step('statistics are only shown to members and for valid ranges', async () => {
+            const other = await server.request('GET', `/group/${ group }/stats`, { session: outsider });
+            assertEquals(other.status, 403);
+
+            const title = async (query: Record<string, string>) => (await server.request('GET', `/group/${ group }/stats`, { query: query, session: alice })).json.body.title;
+            assertEquals(await title({ from: '2024-05-01', to: '2024-04-01' }), 'Invalid Date Range');
+            assertEquals(await title({ from: '2020-01-01', to: '2024-04-01' }), 'Invalid Date Range');
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { assertEquals, assertRejects } from "./deps.ts";
+import { SQLiteStorage } from "../src/storage.ts";
+
+Deno.test('sqlite storage', async t => {
+    const storage = await SQLiteStorage.open(':memory:');
+    const pause = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    try {
+        await storage.execute('CREATE TABLE Notes (Body VARCHAR(100) NOT NULL);');
+
+        await t.step('statements made while a transaction is open are not rolled back with it', async () => {
+            await Promise.all([
+                assertRejects(() => storage.transaction(async storage => {
+                    await storage.execute("INSERT INTO Notes (Body) VALUES('rolled back');");
+                    await pause();
+                    throw new Error('failed');
+                })),
+                pause().then(() => storage.execute("INSERT INTO Notes (Body) VALUES('kept');"))
+            ]);
+
+            assertEquals(await storage.query('SELECT Body AS body FROM Notes;'), [{ body: 'kept' }]);
+            await storage.execute('DELETE FROM Notes;');
+        });
+
+        await t.step('transactions started at the same time run one after the other', async () => {
+            const write = (body: string) => storage.transaction(async storage => {
+                await storage.execute('INSERT INTO Notes (Body) VALUES(?);', [body]);
+                await pause();
+                await storage.execute('INSERT INTO Notes (Body) VALUES(?);', [body]);
+            });
+            await Promise.all([write('first'), write('second')]);
+
+            assertEquals(await storage.query('SELECT Body AS body FROM Notes;'), [{ body: 'first' }, { body: 'first' }, { body: 'second' }, { body: 'second' }]);
+            await storage.execute('DELETE FROM Notes;');
+        });
+
+        await t.step('a transaction started inside another joins it', async () => {
+            await assertRejects(() => storage.transaction(async storage => {
+                await storage.transaction(async storage => await storage.execute("INSERT INTO Notes (Body) VALUES('nested');"));
+                throw new Error('failed');
+            }));
+
+            assertEquals(await storage.query('SELECT Body AS body FROM Notes;'), []);
+        });
+    } finally {
+        await storage.close();
+    }
+});
\ No newline at end of file
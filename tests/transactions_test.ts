@@ -0,0 +1,89 @@
+import { assertEquals, assertExists } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('transaction history', async t => {
+    const server = await TestServer.start();
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const group = await server.createGroup(alice, 'History Test', ['bob.test']);
+        await server.acceptInvitations(bob);
+
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '42', store: 'Grocery Mart', date: '2024-01-10', notes: 'Weekly shop' }, session: alice });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '15', store: 'Hardware', date: '2024-02-03', notes: 'Light bulbs' }, session: bob });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '27.5', store: 'grocery outlet', date: '2024-02-20', notes: 'Weekly shop' }, session: bob });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '8', store: 'Bakery', date: '2024-03-02' }, session: alice });
+        await server.ok('POST', '/purchase', { form: { group: group, amount: '60', store: 'Utilities', date: '2024-03-15', notes: 'Power bill' }, session: alice });
+        const incentives = await server.ok('POST', '/incentive', { form: { group: group, name: 'Took Out Trash', amount: '2.50' }, session: alice });
+        await server.ok('POST', `/incentive/${ incentives[0].incentiveID }`, { form: { notes: 'Both bins' }, session: bob });
+
+        await t.step('GET /group/:id/transactions lists purchases and incentives from any range, newest first', async () => {
+            const page = await server.ok('GET', `/group/${ group }/transactions`, { session: bob });
+            assertEquals(page.records.map((x: { type: string, store: string | null }) => x.store ?? x.type), ['incentive', 'Utilities', 'Bakery', 'grocery outlet', 'Hardware', 'Grocery Mart']);
+            assertEquals(page.nextCursor, null);
+
+            const february = await server.ok('GET', `/group/${ group }/transactions`, { query: { from: '2024-02-01', to: '2024-02-29' }, session: bob });
+            assertEquals(february.records.map((x: { store: string }) => x.store), ['grocery outlet', 'Hardware']);
+
+            const claimed = await server.ok('GET', `/group/${ group }/transactions`, { query: { type: 'incentive' }, session: bob });
+            assertEquals(claimed.records.length, 1);
+            assertEquals([claimed.records[0].incentiveName, claimed.records[0].amount, claimed.records[0].uname], ['Took Out Trash', 2.5, 'bob.test']);
+        });
+
+        await t.step('records on the first and last day of a range are listed with the totals that count them', async () => {
+            const ledger = await server.ok('GET', `/group/${ group }/export`, { query: { from: '2024-02-03', to: '2024-02-20', format: 'json' }, session: bob });
+            assertEquals(ledger.records.map((x: { store: string }) => x.store), ['Hardware', 'grocery outlet']);
+            assertEquals([ledger.countPurchases, ledger.purchaseTotal, ledger.total], [2, 42.5, 42.5]);
+        });
+
+        await t.step('transactions can be filtered by member, store, amount and notes', async () => {
+            const list = async (query: Record<string, string>) => (await server.ok('GET', `/group/${ group }/transactions`, { query: query, session: alice })).records.map((x: { id: string, store: string | null }) => x.store ?? x.id);
+
+            assertEquals(await list({ member: 'alice.test', type: 'purchase' }), ['Utilities', 'Bakery', 'Grocery Mart']);
+            assertEquals((await list({ member: 'alice.test, bob.test' })).length, 6);
+            assertEquals(await list({ store: 'GROCERY' }), ['grocery outlet', 'Grocery Mart']);
+            assertEquals(await list({ min: '15', max: '42' }), ['grocery outlet', 'Hardware', 'Grocery Mart']);
+            assertEquals(await list({ notes: 'weekly', member: 'bob.test' }), ['grocery outlet']);
+            assertEquals(await list({ store: "'; DROP TABLE Purchases; --" }), []);
+        });
+
+        await t.step('cursors page through every transaction exactly once in the requested order', async () => {
+            const seen: Array<number> = [];
+            let cursor: string | null = null;
+            let pages = 0;
+            do {
+                const query: Record<string, string> = { sort: 'amount', order: 'asc', limit: '2' };
+                if(cursor !== null) query.cursor = cursor;
+                const page = await server.ok('GET', `/group/${ group }/transactions`, { query: query, session: alice });
+                seen.push(...page.records.map((x: { amount: number }) => x.amount));
+                cursor = page.nextCursor;
+                pages++;
+            } while(cursor !== null && pages < 10);
+
+            assertEquals(seen, [2.5, 8, 15, 27.5, 42, 60]);
+            assertEquals(pages, 3);
+
+            const first = await server.ok('GET', `/group/${ group }/transactions`, { query: { sort: 'store', limit: '4' }, session: alice });
+            assertExists(first.nextCursor);
+            const rest = await server.ok('GET', `/group/${ group }/transactions`, { query: { sort: 'store', limit: '4', cursor: first.nextCursor }, session: alice });
+            assertEquals(first.records.length + rest.records.length, 6);
+            assertEquals(rest.nextCursor, null);
+        });
+
+        await t.step('invalid sorts, page sizes and cursors are rejected', async () => {
+            const title = async (query: Record<string, string>) => (await server.request('GET', `/group/${ group }/transactions`, { query: query, session: alice })).json.body.title;
+
+            assertEquals(await title({ sort: 'Amount; DELETE FROM Purchases' }), 'Invalid Sort');
+            assertEquals(await title({ order: 'sideways' }), 'Invalid Order');
+            assertEquals(await title({ limit: '0' }), 'Invalid Page Size');
+            assertEquals(await title({ type: 'payment' }), 'Invalid Transaction Type');
+            assertEquals(await title({ cursor: 'not-a-cursor' }), 'Invalid Cursor');
+
+            const page = await server.ok('GET', `/group/${ group }/transactions`, { query: { limit: '1' }, session: alice });
+            assertEquals(await title({ sort: 'amount', cursor: page.nextCursor }), 'Invalid Cursor');
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { assert, assertEquals, assertExists, assertMatch } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+
+Deno.test('accounts and sessions', async t => {
+    const server = await TestServer.start();
+
+    try {
+        let session = '';
+
+        await t.step('POST /user creates an account and signs it in', async () => {
+            session = await server.signup('alice.test');
+            const dashboard = await server.ok('POST', '/dashboard', { form: { session: session } });
+            assertEquals(dashboard.user.uname, 'alice.test');
+            assertEquals(dashboard.user.email, 'alice.test@example.com');
+            assertEquals(dashboard.user.emailVerified, false);
+        });
+
+        await t.step('POST /user rejects invalid and taken usernames', async () => {
+            const short = await server.request('POST', '/user', { form: { username: 'bob', password: 'Password123', firstname: 'Bob', lastname: 'Test', email: 'bob@example.com' } });
+            assertEquals(short.json.status, 'Error');
+
+            const taken = await server.request('POST', '/user', { form: { username: 'alice.test', password: 'Password123', firstname: 'Alice', lastname: 'Test', email: 'other@example.com' } });
+            assertEquals(taken.json.status, 'Error');
+
+            const weak = await server.request('POST', '/user', { form: { username: 'bob.test', password: 'password', firstname: 'Bob', lastname: 'Test', email: 'bob@example.com' } });
+            assertEquals(weak.json.status, 'Error');
+        });
+
+        await t.step('POST /user/exists reports usernames and emails in use', async () => {
+            assertEquals(await server.ok('POST', '/user/exists', { form: { username: 'alice.test', email: 'nobody@example.com' } }), { username: true, email: false });
+        });
+
+        await t.step('POST /dashboard signs in with a username and password', async () => {
+            const dashboard = await server.ok('POST', '/dashboard', { form: { username: 'alice.test', password: 'Password123' } });
+            assertEquals(dashboard.user.uname, 'alice.test');
+            assert(dashboard.user.sessionToken !== session);
+        });
+
+        await t.step('POST /dashboard rejects a wrong password and missing credentials', async () => {
+            const wrong = await server.request('POST', '/dashboard', { form: { username: 'alice.test', password: 'Wrong12345' } });
+            assertEquals(wrong.json.status, 'Error');
+            assertEquals(wrong.json.body.title, 'Incorrect Password');
+
+            const missing = await server.request('POST', '/dashboard', { form: { username: 'alice.test' } });
+            assertEquals(missing.json.body.title, 'No Credentials Provided');
+        });
+
+        await t.step('authenticated routes need a valid session', async () => {
+            const none = await server.request('GET', '/sessions');
+            assertEquals(none.status, 401);
+
+            const unknown = await server.request('GET', '/sessions', { session: crypto.randomUUID() });
+            assertEquals(unknown.status, 401);
+        });
+
+        await t.step('GET /sessions lists devices and DELETE /sessions/:id signs one out', async () => {
+            const sessions = await server.ok('GET', '/sessions', { session: session });
+            assertEquals(sessions.length, 2);
+            assertEquals(sessions.filter((x: { current: boolean }) => x.current).length, 1);
+            assertEquals(sessions[0].userAgent, 'roomates-tests');
+
+            const other = sessions.find((x: { current: boolean }) => !x.current);
+            const remaining = await server.ok('DELETE', `/sessions/${ other.sessionID }`, { session: session });
+            assertEquals(remaining.length, 1);
+        });
+
+        await t.step('week old sessions keep working on every route and are only refreshed by routes returning a dashboard', async () => {
+            await server.storage.execute('UPDATE Sessions SET Expires = ? WHERE Token = ID_TO_BIN(?);', [new Date(Date.now() + 20 * 86400000), session]);
+            await server.ok('GET', '/sessions', { session: session });
+            await server.ok('GET', '/sessions', { session: session });
+
+            const dashboard = await server.ok('POST', '/group', { form: { name: 'Refresh Test', description: 'Session refresh' }, session: session });
+            assert(dashboard.user.sessionToken !== session);
+            assertEquals((await server.request('GET', '/sessions', { session: session })).status, 401);
+            session = dashboard.user.sessionToken;
+            assertEquals((await server.ok('GET', '/sessions', { session: session })).length, 1);
+        });
+
+        await t.step('PUT /user changes the email address', async () => {
+            const res = await server.request('PUT', '/user', { form: { username: 'alice.test', password: 'Password123', newemail: 'alice@example.com' } });
+            assertEquals(res.json.status, 'OK');
+            assertEquals((await server.ok('POST', '/user/exists', { form: { email: 'alice@example.com' } })).email, true);
+        });
+
+        await t.step('POST /user/email/verification sends a link that verifies the address', async () => {
+            await server.ok('POST', '/user/email/verification', { session: session });
+            const mail = await server.lastMail('alice@example.com');
+            assertExists(mail);
+            const token = /verify-email\?token=([0-9a-f]{64})/.exec(mail)?.[1];
+            assertExists(token);
+
+            await server.ok('POST', '/user/email/verify', { form: { token: token } });
+            assertEquals((await server.ok('POST', '/dashboard', { form: { session: session } })).user.emailVerified, true);
+
+            const reused = await server.request('POST', '/user/email/verify', { form: { token: token } });
+            assertEquals(reused.json.status, 'Error');
+        });
+
+        await t.step('POST /user/password/forgot and /user/password/reset set a new password and sign out everywhere', async () => {
+            await server.ok('POST', '/user/password/forgot', { form: { email: 'alice@example.com' } });
+            // unknown addresses succeed too so they cannot be probed
+            await server.ok('POST', '/user/password/forgot', { form: { email: 'nobody@example.com' } });
+            assertEquals(await server.lastMail('nobody@example.com'), undefined);
+
+            const mail = await server.lastMail('alice@example.com');
+            assertExists(mail);
+            assertMatch(mail, /Subject: Reset your Roommate Portal password/);
+            const token = /reset-password\?token=([0-9a-f]{64})/.exec(mail)?.[1];
+            assertExists(token);
+
+            await server.ok('POST', '/user/password/reset', { form: { token: token, password: 'NewPassword456' } });
+            assertEquals((await server.request('GET', '/sessions', { session: session })).status, 401);
+
+            const dashboard = await server.ok('POST', '/dashboard', { form: { username: 'alice.test', password: 'NewPassword456' } });
+            session = dashboard.user.sessionToken;
+        });
+
+        await t.step('POST /user/password/forgot is rate limited per account', async () => {
+            await server.ok('POST', '/user/password/forgot', { form: { email: 'limited@example.com' } });
+            await server.ok('POST', '/user/password/forgot', { form: { email: 'limited@example.com' } });
+            await server.ok('POST', '/user/password/forgot', { form: { email: 'limited@example.com' } });
+            const limited = await server.request('POST', '/user/password/forgot', { form: { email: 'limited@example.com' } });
+            assertEquals(limited.status, 429);
+            assertExists(limited.headers.get('Retry-After'));
+        });
+
+        await t.step('POST /logout ends the current session', async () => {
+            const second = (await server.ok('POST', '/dashboard', { form: { username: 'alice.test', password: 'NewPassword456' } })).user.sessionToken;
+            await server.ok('POST', '/logout', { form: { everywhere: 'false' }, session: session });
+            assertEquals((await server.request('GET', '/sessions', { session: session })).status, 401);
+            assertEquals((await server.ok('GET', '/sessions', { session: second })).length, 1);
+
+            await server.ok('POST', '/logout', { form: { everywhere: 'true' }, session: second });
+            assertEquals((await server.request('GET', '/sessions', { session: second })).status, 401);
+        });
+    } finally {
+        await server.close();
+    }
+});
\ No newline at end of file
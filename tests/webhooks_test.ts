@@ -0,0 +1,135 @@
+import { assert, assertEquals, assertMatch, assertRejects, assertThrows } from "./deps.ts";
+import { TestServer } from "./helpers.ts";
+import { sendWebhook, signPayload, validateWebhookURL } from "../src/webhooks.ts";
+import { InputError } from "../src/security.ts";
+
+interface ReceivedDelivery {
+    event: string | null,
+    deliveryID: string | null,
+    signature: string | null,
+    body: string
+}
+
+Deno.test('outgoing webhooks', async t => {
+    const server = await TestServer.start();
+
+    // stand-in for the receiving service, it answers with whatever status is at the front of the queue (200 once it is empty)
+    const received: Array<ReceivedDelivery> = [];
+    const statuses: Array<number> = [];
+    const receiver = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, async request => {
+        received.push({ event: request.headers.get('X-Roommate-Event'), deliveryID: request.headers.get('X-Roommate-Delivery'), signature: request.headers.get('X-Roommate-Signature'), body: await request.text() });
+        return new Response(null, { status: statuses.shift() ?? 200 });
+    });
+    const url = `http://127.0.0.1:${ receiver.addr.port }/hooks`;
+
+    try {
+        const alice = await server.signup('alice.test');
+        const bob = await server.signup('bob.test');
+        const carol = await server.signup('carol.test');
+        const group = await server.createGroup(alice, 'Webhook Test', ['bob.test', 'carol.test']);
+        await server.acceptInvitations(bob, carol);
+        let webhook = '';
+        let secret = '';
+
+        await t.step('POST /group/:id/webhooks subscribes a URL and only shows its secret once', async () => {
+            assertEquals((await server.request('POST', `/group/${ group }/webhooks`, { form: { url: url, events: 'purchase.added' }, session: bob })).status, 403);
+            assertEquals((await server.request('POST', `/group/${ group }/webhooks`, { form: { url: 'ftp://127.0.0.1/hooks', events: 'purchase.added' }, session: alice })).json.body.title, 'Invalid Webhook URL');
+            assertEquals((await server.request('POST', `/group/${ group }/webhooks`, { form: { url: url, events: 'purchase.deleted' }, session: alice })).json.body.title, 'Invalid Webhook Event');
+
+            const created = await server.ok('POST', `/group/${ group }/webhooks`, { form: { url: url, events: 'purchase.added, member.left, group.locked' }, session: alice });
+            assertEquals(created.events, ['purchase.added', 'member.left', 'group.locked']);
+            assertMatch(created.secret, /^[0-9a-f]{64}$/);
+            webhook = created.webhookID;
+            secret = created.secret;
+
+            const webhooks = await server.ok('GET', `/group/${ group }/webhooks`, { session: alice });
+            assertEquals(webhooks.length, 1);
+            assertEquals(webhooks[0].secret, undefined);
+            assertEquals((await server.request('GET', `/group/${ group }/webhooks`, { session: bob })).status, 403);
+        });
+
+        await t.step('events are queued and delivered with a signature of the body', async () => {
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '12.50', store: 'Grocery', date: '2024-03-05' }, session: bob });
+            assertEquals(received.length, 0);
+
+            assertEquals(await server.api.deliverWebhooks(), 1);
+            assertEquals(received.length, 1);
+            assertEquals(received[0].event, 'purchase.added');
+            assertEquals(received[0].signature, `sha256=${ await signPayload(secret, received[0].body) }`);
+
+            const payload = JSON.parse(received[0].body);
+            assertEquals([payload.event, payload.groupID, payload.data.store, payload.data.amount, payload.data.uname], ['purchase.added', group, 'Grocery', 12.5, 'bob.test']);
+
+            const deliveries = await server.ok('GET', `/group/${ group }/webhooks/${ webhook }/deliveries`, { session: alice });
+            assertEquals(deliveries.map((x: { status: string, attempts: number, responseStatus: number }) => [x.status, x.attempts, x.responseStatus]), [['delivered', 1, 200]]);
+            assertEquals(deliveries[0].deliveryID, received[0].deliveryID);
+
+            // delivered events are not sent again
+            assertEquals(await server.api.deliverWebhooks(), 0);
+            assertEquals(received.length, 1);
+        });
+
+        await t.step('failed deliveries stay queued and are retried once their delay has passed', async () => {
+            statuses.push(500);
+            await server.ok('DELETE', `/group/${ group }/members/carol.test`, { session: alice });
+
+            assertEquals(await server.api.deliverWebhooks(), 0);
+            let failed = (await server.ok('GET', `/group/${ group }/webhooks/${ webhook }/deliveries`, { session: alice })).find((x: { event: string }) => x.event === 'member.left');
+            assertEquals([failed.status, failed.attempts, failed.responseStatus], ['pending', 1, 500]);
+            assert(failed.error.includes('500'));
+
+            // the retry is not due yet
+            assertEquals(await server.api.deliverWebhooks(), 0);
+            assertEquals(received.length, 2);
+
+            assertEquals(await server.api.deliverWebhooks(new Date(Date.now() + 120000)), 1);
+            assertEquals(received.length, 3);
+            assertEquals(received[1].deliveryID, received[2].deliveryID);
+            assertEquals(JSON.parse(received[2].body).data, { uname: 'carol.test' });
+
+            failed = (await server.ok('GET', `/group/${ group }/webhooks/${ webhook }/deliveries`, { session: alice })).find((x: { event: string }) => x.event === 'member.left');
+            assertEquals([failed.status, failed.attempts, failed.responseStatus, failed.error], ['delivered', 2, 200, null]);
+        });
+
+        await t.step('PUT /group/:id/webhooks/:webhook changes the events sent and pauses deliveries', async () => {
+            const webhooks = await server.ok('PUT', `/group/${ group }/webhooks/${ webhook }`, { form: { events: 'group.locked', active: 'false' }, session: alice });
+            assertEquals([webhooks[0].events, webhooks[0].active], [['group.locked'], false]);
+
+            // events of a paused webhook are not queued
+            await server.ok('PUT', `/group/${ group }`, { form: { state: 'locked' }, session: alice });
+            await server.ok('PUT', `/group/${ group }/webhooks/${ webhook }`, { form: { active: 'true' }, session: alice });
+
+            // events the webhook is not subscribed to are not queued
+            await server.ok('POST', '/purchase', { form: { group: group, amount: '8', store: 'Bakery', date: '2024-03-06' }, session: alice });
+            assertEquals(await server.api.deliverWebhooks(), 0);
+            assertEquals((await server.ok('GET', `/group/${ group }/webhooks/${ webhook }/deliveries`, { session: alice })).length, 2);
+        });
+
+        await t.step('DELETE /group/:id/webhooks/:webhook removes the webhook and its deliveries', async () => {
+            assertEquals((await server.request('DELETE', `/group/${ group }/webhooks/${ webhook }`, { session: bob })).status, 403);
+            assertEquals(await server.ok('DELETE', `/group/${ group }/webhooks/${ webhook }`, { session: alice }), []);
+            assertEquals((await server.request('GET', `/group/${ group }/webhooks/${ webhook }/deliveries`, { session: alice })).json.body.title, 'Webhook Not Found');
+        });
+
+        await t.step('webhooks to local and private network addresses are refused unless allowed', async () => {
+            for(const blocked of ['http://127.0.0.1/hooks', 'http://localhost:8080/', 'http://169.254.169.254/latest/meta-data', 'http://10.0.0.5/', 'http://192.168.1.1/', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'http://2130706433/']) {
+                assertEquals((assertThrows(() => validateWebhookURL(blocked)) as InputError).title, 'Invalid Webhook URL');
+            }
+            assertEquals(validateWebhookURL('https://hooks.example.com/roommates'), 'https://hooks.example.com/roommates');
+            assertEquals(validateWebhookURL(url, true), url);
+
+            const delivery = { deliveryID: crypto.randomUUID(), event: 'purchase.added', payload: '{}' };
+            const count = received.length;
+            await assertRejects(() => sendWebhook(url, 'secret', delivery), Error, 'local or private network');
+            assertEquals(received.length, count);
+
+            // redirects are reported as the response instead of being followed
+            statuses.push(302);
+            assertEquals(await sendWebhook(url, 'secret', delivery, true), 302);
+            assertEquals(received.length, count + 1);
+        });
+    } finally {
+        await receiver.shutdown();
+        await server.close();
+    }
+});
\ No newline at end of file